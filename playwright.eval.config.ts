@@ -0,0 +1,8 @@
+import { defineConfig } from '@playwright/test';
+
+// Matcher evaluation runs in Node only: no browser and no extension build
+export default defineConfig({
+  testDir: './tests/eval',
+  timeout: 120_000,
+  reporter: [['list']]
+});
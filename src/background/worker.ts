@@ -8,13 +8,26 @@ import type {
   TemplateListResult,
   TemplateMutationResult,
   TemplateDeleteResult,
-  SettingsSnapshot
+  SettingsSnapshot,
+  AttachmentSavePayload,
+  AttachmentListResult,
+  AttachmentMutationResult,
+  AttachmentDeleteResult,
+  AttachmentGetResult,
+  FrameFillCommand,
+  FrameFillResult,
+  FrameMessage,
+  WizardSession
 } from '../core/messages';
+import type { ScanResult } from '../content/domScanner';
+import { FACE_REQUEST_EVENT, FACE_RESPONSE_EVENT, installFaceBridge } from '../content/mainWorldBridge';
 import type { Mode, RuntimeSettings, TemplateModel, TemplateValues } from '../core/model/schemas';
 import {
   DEFAULT_RUNTIME_SETTINGS,
   effectiveMode,
+  effectiveSemanticProvider,
   mergeRuntimeSettings,
+  normaliseAttachmentInput,
   normaliseRuntimeSettings,
   normaliseTemplateInput
 } from '../core/model/schemas';
@@ -25,25 +38,38 @@ import {
   createVerification,
   decodeBytes,
   deriveKey,
+  encryptBytes,
   encryptJson,
+  decryptBytes,
   decryptJson,
   encodeBytes,
   generateSalt,
   verifyKey
 } from '../core/storage/crypto';
 import {
+  deleteAttachment as removeAttachmentRecord,
   deleteTemplate as removeTemplateRecord,
+  readAllAttachments,
   readAllTemplates,
+  readAttachment,
   readTemplate,
+  writeAttachment,
+  writeAttachmentsBatch,
   writeTemplate,
   writeTemplatesBatch,
+  type AttachmentRecord,
   type TemplateRecord
 } from '../core/storage/db';
 import {
   MASTER_STORAGE_KEY,
   SECRETS_STORAGE_KEY,
-  SETTINGS_STORAGE_KEY
+  SETTINGS_STORAGE_KEY,
+  WIZARD_SESSIONS_STORAGE_KEY
 } from '../core/storage/keys';
+import { migrateTemplateValues } from '../lib/ontologyRegistry';
+import { MAX_ATTACHMENT_BYTES, formatByteSize, resolveAttachmentRefs, type AttachmentMeta } from '../lib/attachments';
+import type { SemanticProviderKind } from '../lib/semantic';
+import { SCENARIO_PROFILES } from '../lib/profiles';
 
 interface MasterRecord {
   salt: string;
@@ -57,7 +83,11 @@ interface SecretsRecord {
   semanticApiKey?: CipherPayload;
 }
 
-interface TemplatePayloadV1 {
+// v1 payloads keyed values by the legacy information field keys (e.g. `contact.email`);
+// v2 stores them under canonical ontology paths.
+const TEMPLATE_PAYLOAD_VERSION = 2;
+
+interface TemplatePayload {
   values: TemplateValues;
   version?: number;
 }
@@ -112,6 +142,25 @@ function storageLocalRemove(key: string): Promise<void> {
 }
 
 
+// Session storage outlives the worker going idle but not the browser session, like the tabs it is keyed by
+function storageSessionGet<T>(key: string): Promise<T | undefined> {
+  return new Promise((resolve, reject) => {
+    chrome.storage.session.get([key], (result) => {
+      if (handleRuntimeError(reject)) return;
+      resolve((result?.[key] as T | undefined) ?? undefined);
+    });
+  });
+}
+
+function storageSessionSet(key: string, value: unknown): Promise<void> {
+  return new Promise((resolve, reject) => {
+    chrome.storage.session.set({ [key]: value }, () => {
+      if (handleRuntimeError(reject)) return;
+      resolve();
+    });
+  });
+}
+
 async function getMasterRecord(): Promise<MasterRecord | null> {
   const record = await storageLocalGet<MasterRecord>(MASTER_STORAGE_KEY);
   if (!record || !record.salt || !record.verification) {
@@ -189,14 +238,24 @@ async function getStoredSettings(): Promise<RuntimeSettings> {
   return normaliseRuntimeSettings(raw);
 }
 
+type StoredSettingsUpdate = Partial<{
+  mode: Mode;
+  overrides: SettingsUpdatePayload['overrides'];
+  semanticEndpoint: string;
+  semanticProvider: SemanticProviderKind;
+  consentPolicy: SettingsUpdatePayload['consentPolicy'];
+}>;
+
 async function saveStoredSettings(
-  update: Partial<{ mode: Mode; overrides: SettingsUpdatePayload['overrides']; semanticEndpoint: string }>
+  update: StoredSettingsUpdate
 ): Promise<RuntimeSettings> {
   const current = await getStoredSettings();
   const next = mergeRuntimeSettings(current, {
     mode: update.mode,
     overrides: update.overrides,
-    semanticEndpoint: update.semanticEndpoint
+    semanticEndpoint: update.semanticEndpoint,
+    semanticProvider: update.semanticProvider,
+    consentPolicy: update.consentPolicy
   });
   await storageLocalSet(SETTINGS_STORAGE_KEY, next);
   return next;
@@ -208,11 +267,11 @@ function ensurePassphraseStrength(passphrase: string): void {
   }
 }
 
-function generateTemplateId(): string {
+function generateRecordId(prefix: string): string {
   if (typeof crypto.randomUUID === 'function') {
     return crypto.randomUUID();
   }
-  return `tmpl-${Math.random().toString(36).slice(2)}-${Date.now()}`;
+  return `${prefix}-${Math.random().toString(36).slice(2)}-${Date.now()}`;
 }
 
 async function isApiKeyConfigured(): Promise<boolean> {
@@ -237,32 +296,52 @@ async function readSemanticApiKey(key: CryptoKey): Promise<string | null> {
   return decrypted ?? null;
 }
 
+function migratePayloadValues(payload: TemplatePayload | null): { values: TemplateValues; migrated: boolean } {
+  const values = payload?.values ?? {};
+  if ((payload?.version ?? 1) >= TEMPLATE_PAYLOAD_VERSION) return { values, migrated: false };
+  return { values: migrateTemplateValues(values).values as TemplateValues, migrated: true };
+}
+
 async function listTemplatesForKey(key: CryptoKey): Promise<TemplateModel[]> {
   const records = await readAllTemplates();
   const templates: TemplateModel[] = [];
+  const migratedRecords: TemplateRecord[] = [];
   for (const record of records) {
+    let values: TemplateValues;
+    let migrated: boolean;
     try {
-      const payload = await decryptJson<TemplatePayloadV1>(record.payload, key);
-      templates.push({
-        id: record.id,
-        label: record.label,
-        createdAt: record.createdAt,
-        updatedAt: record.updatedAt,
-        values: payload?.values ?? {}
-      });
+      const payload = await decryptJson<TemplatePayload>(record.payload, key);
+      ({ values, migrated } = migratePayloadValues(payload));
     } catch {
       throw new WorkerError('DECRYPT_FAILED', 'Unable to decrypt template.');
     }
+    if (migrated) {
+      const encrypted = await encryptJson<TemplatePayload>({ values, version: TEMPLATE_PAYLOAD_VERSION }, key);
+      migratedRecords.push({ ...record, payload: encrypted });
+    }
+    templates.push({
+      id: record.id,
+      label: record.label,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
+      values
+    });
+  }
+  if (migratedRecords.length > 0) {
+    await writeTemplatesBatch(migratedRecords);
   }
   return templates;
 }
 
 async function saveTemplateWithKey(payload: TemplateSavePayload, key: CryptoKey): Promise<{ template: TemplateModel; templates: TemplateModel[] }> {
   const normalised = normaliseTemplateInput(payload);
-  const id = normalised.id?.trim() || generateTemplateId();
+  const id = normalised.id?.trim() || generateRecordId('tmpl');
   const existing = await readTemplate(id);
   const now = Date.now();
-  const encrypted = await encryptJson<TemplatePayloadV1>({ values: normalised.values }, key);
+  const encrypted = await encryptJson<TemplatePayload>(
+    { values: normalised.values, version: TEMPLATE_PAYLOAD_VERSION },
+    key
+  );
   const record: TemplateRecord = {
     id,
     label: normalised.label,
@@ -287,6 +366,76 @@ async function deleteTemplateWithKey(id: string, key: CryptoKey): Promise<Templa
   return listTemplatesForKey(key);
 }
 
+function toAttachmentMeta(record: AttachmentRecord): AttachmentMeta {
+  return {
+    id: record.id,
+    filename: record.filename,
+    mimeType: record.mimeType,
+    size: record.size,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt
+  };
+}
+
+async function listAttachmentMetas(): Promise<AttachmentMeta[]> {
+  const records = await readAllAttachments();
+  return records.map(toAttachmentMeta);
+}
+
+// Uploading a file under a name that is already stored replaces that file
+async function saveAttachmentWithKey(
+  payload: AttachmentSavePayload,
+  key: CryptoKey
+): Promise<{ attachment: AttachmentMeta; attachments: AttachmentMeta[] }> {
+  const normalised = normaliseAttachmentInput(payload);
+  let bytes: Uint8Array<ArrayBuffer>;
+  try {
+    bytes = decodeBytes(normalised.data);
+  } catch {
+    throw new WorkerError('INVALID_ATTACHMENT', 'Attachment content is not valid base64.');
+  }
+  if (bytes.length > MAX_ATTACHMENT_BYTES) {
+    throw new WorkerError('ATTACHMENT_TOO_LARGE', `Attachments are limited to ${formatByteSize(MAX_ATTACHMENT_BYTES)}.`);
+  }
+  const existing = normalised.id
+    ? await readAttachment(normalised.id)
+    : (await readAllAttachments()).find((r) => r.filename.toLowerCase() === normalised.filename.toLowerCase());
+  const now = Date.now();
+  const record: AttachmentRecord = {
+    id: existing?.id ?? normalised.id ?? generateRecordId('att'),
+    filename: normalised.filename,
+    mimeType: normalised.mimeType,
+    size: bytes.length,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+    payload: await encryptBytes(bytes, key)
+  };
+  await writeAttachment(record);
+  return { attachment: toAttachmentMeta(record), attachments: await listAttachmentMetas() };
+}
+
+async function readAttachmentFiles(refs: string[], key: CryptoKey): Promise<AttachmentGetResult> {
+  const records = await readAllAttachments();
+  const files: AttachmentGetResult['files'] = [];
+  const missing: string[] = [];
+  for (const ref of refs) {
+    const [record] = resolveAttachmentRefs([ref], records);
+    if (!record) {
+      missing.push(ref);
+      continue;
+    }
+    if (files.some((f) => f.id === record.id)) continue;
+    let bytes: Uint8Array;
+    try {
+      bytes = await decryptBytes(record.payload, key);
+    } catch {
+      throw new WorkerError('DECRYPT_FAILED', 'Unable to decrypt attachment.');
+    }
+    files.push({ ...toAttachmentMeta(record), data: encodeBytes(bytes) });
+  }
+  return { files, missing };
+}
+
 async function unlockWithPassphrase(passphrase: string): Promise<UnlockResult> {
   const trimmed = passphrase.trim();
   if (!trimmed) {
@@ -341,8 +490,13 @@ async function changePassphrase(payload: PassphraseChangePayload): Promise<void>
   const templates = await readAllTemplates();
   const decryptedTemplates: Array<{ record: TemplateRecord; values: TemplateValues }> = [];
   for (const record of templates) {
-    const payload = await decryptJson<TemplatePayloadV1>(record.payload, oldKey);
-    decryptedTemplates.push({ record, values: payload?.values ?? {} });
+    const payload = await decryptJson<TemplatePayload>(record.payload, oldKey);
+    decryptedTemplates.push({ record, values: migratePayloadValues(payload).values });
+  }
+  const attachments = await readAllAttachments();
+  const decryptedAttachments: Array<{ record: AttachmentRecord; bytes: Uint8Array<ArrayBuffer> }> = [];
+  for (const record of attachments) {
+    decryptedAttachments.push({ record, bytes: await decryptBytes(record.payload, oldKey) });
   }
   const existingApiKey = await readSemanticApiKey(oldKey);
 
@@ -352,7 +506,10 @@ async function changePassphrase(payload: PassphraseChangePayload): Promise<void>
 
   const reencryptedRecords: TemplateRecord[] = [];
   for (const item of decryptedTemplates) {
-    const encrypted = await encryptJson<TemplatePayloadV1>({ values: item.values }, newKey);
+    const encrypted = await encryptJson<TemplatePayload>(
+      { values: item.values, version: TEMPLATE_PAYLOAD_VERSION },
+      newKey
+    );
     reencryptedRecords.push({
       ...item.record,
       payload: encrypted
@@ -363,6 +520,15 @@ async function changePassphrase(payload: PassphraseChangePayload): Promise<void>
     await writeTemplatesBatch(reencryptedRecords);
   }
 
+  const reencryptedAttachments: AttachmentRecord[] = [];
+  for (const item of decryptedAttachments) {
+    reencryptedAttachments.push({
+      ...item.record,
+      payload: await encryptBytes(item.bytes, newKey)
+    });
+  }
+  await writeAttachmentsBatch(reencryptedAttachments);
+
   await saveSemanticApiKey(existingApiKey, newKey);
 
   const updatedRecord: MasterRecord = {
@@ -390,21 +556,26 @@ async function handleSettingsGet(origin?: string): Promise<RuntimeResponse<Setti
     mode: settings.mode,
     overrides: settings.overrides,
     semanticEndpoint: settings.semanticEndpoint,
+    semanticProvider: settings.semanticProvider,
+    consentPolicy: settings.consentPolicy,
     hasPassphrase: Boolean(master),
     unlocked: Boolean(unlockedKey),
     apiKeyConfigured: await isApiKeyConfigured(),
-    effectiveMode: origin ? effectiveMode(settings, origin.toLowerCase()) : undefined
+    effectiveMode: origin ? effectiveMode(settings, origin.toLowerCase()) : undefined,
+    effectiveSemanticProvider: origin ? effectiveSemanticProvider(settings, origin.toLowerCase()) : undefined
   } satisfies SettingsSnapshot;
   return { success: true, data: snapshot } satisfies RuntimeResponse<SettingsSnapshot>;
 }
 
 async function handleSettingsSet(payload: SettingsUpdatePayload): Promise<RuntimeResponse<{ settings: RuntimeSettings }>> {
-  const update: Partial<{ mode: Mode; overrides: SettingsUpdatePayload['overrides']; semanticEndpoint: string }> = {};
+  const update: StoredSettingsUpdate = {};
   if (payload.mode) update.mode = payload.mode;
   if (payload.overrides) update.overrides = payload.overrides;
   if (payload.semantic && Object.prototype.hasOwnProperty.call(payload.semantic, 'endpoint')) {
     update.semanticEndpoint = (payload.semantic?.endpoint ?? '').trim();
   }
+  if (payload.semantic?.provider) update.semanticProvider = payload.semantic.provider;
+  if (payload.consentPolicy) update.consentPolicy = payload.consentPolicy;
   const nextSettings = await saveStoredSettings(update);
 
   if (payload.semantic && Object.prototype.hasOwnProperty.call(payload.semantic, 'apiKey')) {
@@ -438,6 +609,31 @@ async function handleTemplateDelete(id: string): Promise<RuntimeResponse<Templat
   return { success: true, data: { templates } } satisfies RuntimeResponse<TemplateDeleteResult>;
 }
 
+async function handleAttachmentList(): Promise<RuntimeResponse<AttachmentListResult>> {
+  await requireUnlockedKey();
+  const attachments = await listAttachmentMetas();
+  return { success: true, data: { attachments } } satisfies RuntimeResponse<AttachmentListResult>;
+}
+
+async function handleAttachmentSave(payload: AttachmentSavePayload): Promise<RuntimeResponse<AttachmentMutationResult>> {
+  const key = await requireUnlockedKey();
+  const { attachment, attachments } = await saveAttachmentWithKey(payload, key);
+  return { success: true, data: { attachment, attachments } } satisfies RuntimeResponse<AttachmentMutationResult>;
+}
+
+async function handleAttachmentDelete(id: string): Promise<RuntimeResponse<AttachmentDeleteResult>> {
+  await requireUnlockedKey();
+  await removeAttachmentRecord(id);
+  const attachments = await listAttachmentMetas();
+  return { success: true, data: { attachments } } satisfies RuntimeResponse<AttachmentDeleteResult>;
+}
+
+async function handleAttachmentGet(refs: string[]): Promise<RuntimeResponse<AttachmentGetResult>> {
+  const key = await requireUnlockedKey();
+  const result = await readAttachmentFiles(Array.isArray(refs) ? refs.map(String) : [], key);
+  return { success: true, data: result } satisfies RuntimeResponse<AttachmentGetResult>;
+}
+
 async function handleUnlock(passphrase: string): Promise<RuntimeResponse<UnlockResult>> {
   const result = await unlockWithPassphrase(passphrase);
   notifyTemplatesUpdated();
@@ -456,6 +652,163 @@ async function handlePassphraseChange(payload: PassphraseChangePayload): Promise
   return { success: true, data: null } satisfies RuntimeResponse<null>;
 }
 
+function senderTab(sender: chrome.runtime.MessageSender): number {
+  const tabId = sender.tab?.id;
+  if (tabId == null) throw new WorkerError('NO_TAB', 'Frame messages must come from a tab.');
+  return tabId;
+}
+
+// A cross-origin frame's scan goes to the top frame of its tab, which merges it
+async function handleFrameScan(
+  token: string,
+  scan: ScanResult | null,
+  sender: chrome.runtime.MessageSender
+): Promise<RuntimeResponse<null>> {
+  const tabId = senderTab(sender);
+  const frameId = sender.frameId ?? 0;
+  if (frameId === 0) throw new WorkerError('TOP_FRAME', 'The top frame does not report its scan.');
+  const report: FrameMessage = { type: 'FRAME_SCAN_REPORT', frameId, token, scan };
+  chrome.tabs.sendMessage(tabId, report, { frameId: 0 }, () => {
+    // the top frame may not be listening yet; the frame reports again on its next scan
+    void chrome.runtime.lastError;
+  });
+  return { success: true, data: null } satisfies RuntimeResponse<null>;
+}
+
+// The top frame fills a field of a frame it cannot reach
+async function handleFrameFill(
+  frameId: number,
+  command: FrameFillCommand,
+  sender: chrome.runtime.MessageSender
+): Promise<RuntimeResponse<FrameFillResult>> {
+  const tabId = senderTab(sender);
+  const request: FrameMessage = { type: 'FRAME_FILL_RUN', command };
+  const result = await new Promise<FrameFillResult>((resolve, reject) => {
+    chrome.tabs.sendMessage(tabId, request, { frameId }, (response: FrameFillResult | undefined) => {
+      if (handleRuntimeError(reject)) return;
+      resolve(response ?? { found: false, changed: false, message: 'No response from frame' });
+    });
+  });
+  return { success: true, data: result } satisfies RuntimeResponse<FrameFillResult>;
+}
+
+async function handleFrameFillCancel(frameId: number, fillId: string, sender: chrome.runtime.MessageSender): Promise<RuntimeResponse<null>> {
+  const tabId = senderTab(sender);
+  const request: FrameMessage = { type: 'FRAME_FILL_ABORT', fillId };
+  chrome.tabs.sendMessage(tabId, request, { frameId }, () => {
+    // the frame may have finished, or gone away
+    void chrome.runtime.lastError;
+  });
+  return { success: true, data: null } satisfies RuntimeResponse<null>;
+}
+
+// Custom elements keep their value accessors in the page's world, out of the content script's reach.
+// Injecting there takes a host permission for the page: the manifest's own hosts, or an origin the
+// user granted from the popup (optional_host_permissions)
+function hostPermissionPattern(url: string | undefined): string | null {
+  try {
+    const parsed = new URL(url ?? '');
+    return parsed.protocol === 'https:' || parsed.protocol === 'http:' ? `${parsed.origin}/*` : null;
+  } catch {
+    return null;
+  }
+}
+
+function injectFaceBridge(target: chrome.scripting.InjectionTarget): Promise<unknown> {
+  return chrome.scripting.executeScript({
+    target,
+    world: 'MAIN',
+    func: installFaceBridge,
+    args: [FACE_REQUEST_EVENT, FACE_RESPONSE_EVENT]
+  });
+}
+
+async function handleMainWorldBridge(sender: chrome.runtime.MessageSender): Promise<RuntimeResponse<null>> {
+  const tabId = senderTab(sender);
+  const pattern = hostPermissionPattern(sender.url);
+  if (!pattern || !(await chrome.permissions.contains({ origins: [pattern] }))) {
+    throw new WorkerError('NO_HOST_PERMISSION', 'Page access is not granted for this site; allow it from the toolbar popup.');
+  }
+  await injectFaceBridge({ tabId, frameIds: [sender.frameId ?? 0] });
+  return { success: true, data: null } satisfies RuntimeResponse<null>;
+}
+
+type WizardSessions = Record<string, WizardSession>;
+
+async function readWizardSessions(): Promise<WizardSessions> {
+  return (await storageSessionGet<WizardSessions>(WIZARD_SESSIONS_STORAGE_KEY)) ?? {};
+}
+
+async function writeWizardSession(tabId: number, session: WizardSession | null): Promise<void> {
+  const sessions = await readWizardSessions();
+  if (session) sessions[tabId] = session;
+  else if (tabId in sessions) delete sessions[tabId];
+  else return;
+  await storageSessionSet(WIZARD_SESSIONS_STORAGE_KEY, sessions);
+}
+
+async function handleWizardStart(
+  templateId: string,
+  profileId: string,
+  origin: string,
+  sender: chrome.runtime.MessageSender
+): Promise<RuntimeResponse<WizardSession>> {
+  const tabId = senderTab(sender);
+  const profile = SCENARIO_PROFILES[profileId];
+  if (!profile) throw new WorkerError('UNKNOWN_PROFILE', `No scenario profile "${profileId}".`);
+  const session: WizardSession = {
+    tabId,
+    origin,
+    templateId,
+    profileId,
+    startedAt: Date.now(),
+    filledKeys: [],
+    requiredKeys: [...profile.required],
+    remainingKeys: [...profile.required],
+    steps: []
+  };
+  await writeWizardSession(tabId, session);
+  return { success: true, data: session } satisfies RuntimeResponse<WizardSession>;
+}
+
+async function handleWizardGet(sender: chrome.runtime.MessageSender): Promise<RuntimeResponse<WizardSession | null>> {
+  const tabId = senderTab(sender);
+  const sessions = await readWizardSessions();
+  return { success: true, data: sessions[tabId] ?? null } satisfies RuntimeResponse<WizardSession | null>;
+}
+
+// A refill of the same URL joins its last step instead of adding one. The step that leaves no
+// required key missing completes the session: it is returned once more and dropped.
+async function handleWizardStep(
+  url: string,
+  filledKeys: string[],
+  sender: chrome.runtime.MessageSender
+): Promise<RuntimeResponse<WizardSession>> {
+  const tabId = senderTab(sender);
+  const current = (await readWizardSessions())[tabId];
+  if (!current) throw new WorkerError('NO_WIZARD', 'No wizard session for this tab.');
+  const filled = Array.from(new Set([...current.filledKeys, ...filledKeys]));
+  const last = current.steps[current.steps.length - 1];
+  const steps =
+    last && last.url === url
+      ? [...current.steps.slice(0, -1), { ...last, at: Date.now(), filledKeys: Array.from(new Set([...last.filledKeys, ...filledKeys])) }]
+      : [...current.steps, { url, at: Date.now(), filledKeys }];
+  const session: WizardSession = {
+    ...current,
+    filledKeys: filled,
+    remainingKeys: current.requiredKeys.filter((key) => !filled.includes(key)),
+    steps
+  };
+  if (session.remainingKeys.length === 0) session.completedAt = Date.now();
+  await writeWizardSession(tabId, session.completedAt ? null : session);
+  return { success: true, data: session } satisfies RuntimeResponse<WizardSession>;
+}
+
+async function handleWizardEnd(sender: chrome.runtime.MessageSender): Promise<RuntimeResponse<null>> {
+  await writeWizardSession(senderTab(sender), null);
+  return { success: true, data: null } satisfies RuntimeResponse<null>;
+}
+
 function notifyTemplatesUpdated(): void {
   try {
     chrome.runtime.sendMessage({ type: 'AIAF_TEMPLATES_UPDATED' }, () => {
@@ -496,7 +849,24 @@ chrome.runtime.onInstalled.addListener(() => {
   })();
 });
 
-chrome.runtime.onMessage.addListener((rawMessage: unknown, _sender, sendResponse) => {
+chrome.tabs.onRemoved.addListener((tabId) => {
+  void writeWizardSession(tabId, null).catch(() => undefined);
+});
+
+// An origin granted from the popup reaches the pages already open on it; the bridge ignores frames
+// that have it, and frames of other origins are left out by the injection itself
+chrome.permissions.onAdded.addListener((permissions) => {
+  const origins = permissions.origins ?? [];
+  if (!origins.length) return;
+  chrome.tabs.query({ url: origins }, (tabs) => {
+    if (chrome.runtime.lastError) return;
+    for (const tab of tabs ?? []) {
+      if (tab.id != null) void injectFaceBridge({ tabId: tab.id, allFrames: true }).catch(() => undefined);
+    }
+  });
+});
+
+chrome.runtime.onMessage.addListener((rawMessage: unknown, sender, sendResponse) => {
   const messageType = (rawMessage as { type?: string } | undefined)?.type;
   if (messageType === 'PING') {
     sendResponse({ type: 'PONG' });
@@ -546,11 +916,71 @@ chrome.runtime.onMessage.addListener((rawMessage: unknown, _sender, sendResponse
           respond(sendResponse, response);
           return;
         }
+        case 'ATTACHMENT_LIST': {
+          const response = await handleAttachmentList();
+          respond(sendResponse, response);
+          return;
+        }
+        case 'ATTACHMENT_SAVE': {
+          const response = await handleAttachmentSave(message.payload);
+          respond(sendResponse, response);
+          return;
+        }
+        case 'ATTACHMENT_DELETE': {
+          const response = await handleAttachmentDelete(message.id);
+          respond(sendResponse, response);
+          return;
+        }
+        case 'ATTACHMENT_GET': {
+          const response = await handleAttachmentGet(message.refs);
+          respond(sendResponse, response);
+          return;
+        }
         case 'PASSPHRASE_CHANGE': {
           const response = await handlePassphraseChange(message.payload);
           respond(sendResponse, response);
           return;
         }
+        case 'FRAME_SCAN': {
+          const response = await handleFrameScan(message.token, message.scan, sender);
+          respond(sendResponse, response);
+          return;
+        }
+        case 'FRAME_FILL': {
+          const response = await handleFrameFill(message.frameId, message.command, sender);
+          respond(sendResponse, response);
+          return;
+        }
+        case 'FRAME_FILL_CANCEL': {
+          const response = await handleFrameFillCancel(message.frameId, message.fillId, sender);
+          respond(sendResponse, response);
+          return;
+        }
+        case 'MAIN_WORLD_BRIDGE': {
+          const response = await handleMainWorldBridge(sender);
+          respond(sendResponse, response);
+          return;
+        }
+        case 'WIZARD_START': {
+          const response = await handleWizardStart(message.templateId, message.profileId, message.origin, sender);
+          respond(sendResponse, response);
+          return;
+        }
+        case 'WIZARD_GET': {
+          const response = await handleWizardGet(sender);
+          respond(sendResponse, response);
+          return;
+        }
+        case 'WIZARD_STEP': {
+          const response = await handleWizardStep(message.url, message.filledKeys, sender);
+          respond(sendResponse, response);
+          return;
+        }
+        case 'WIZARD_END': {
+          const response = await handleWizardEnd(sender);
+          respond(sendResponse, response);
+          return;
+        }
         default:
           sendResponse({ success: false, error: `Unhandled message type: ${message.type}` });
       }
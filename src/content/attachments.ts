@@ -0,0 +1,25 @@
+// Content-side access to stored attachments: the background worker decrypts them and the
+// files are rebuilt here so they can be put into <input type=file>.
+
+import { sendRuntimeMessage, type AttachmentGetResult } from '../core/messages';
+import { decodeBytes } from '../core/storage/crypto';
+import { parseAttachmentRefs } from '../lib/attachments';
+
+export interface LoadedAttachments {
+  files: File[];
+  missing: string[]; // references no stored attachment matches
+}
+
+// Files named by a template value ("cv.pdf, cover-letter.pdf" or attachment ids)
+export async function loadAttachmentFiles(value: unknown): Promise<LoadedAttachments> {
+  const refs = parseAttachmentRefs(value);
+  if (refs.length === 0) return { files: [], missing: [] };
+  const response = await sendRuntimeMessage<AttachmentGetResult>({ type: 'ATTACHMENT_GET', refs });
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to load attachments');
+  }
+  const files = response.data.files.map(
+    (f) => new File([decodeBytes(f.data)], f.filename, { type: f.mimeType, lastModified: f.updatedAt })
+  );
+  return { files, missing: response.data.missing };
+}
@@ -0,0 +1,178 @@
+/*
+  Form-associated custom elements and closed shadow roots
+  - Lit, Shoelace and Salesforce Lightning controls are custom elements with `static formAssociated`
+    and ElementInternals: the element itself is the control, its inner <input> is presentation
+  - ElementInternals is private to the component. What shows from outside: the element is listed in
+    `form.elements`, and it matches `:valid` / `:invalid` like any submittable control
+  - Closed shadow roots are opened through chrome.dom.openOrClosedShadowRoot where available
+  - The component's `value` / `checked` accessors live in the page's world. A bridge injected there
+    by the worker (mainWorldBridge.ts) reads and writes them on a synchronous DOM event round trip;
+    without it the `value` attribute is written instead, which Lit-style components observe
+*/
+
+import type { FillOptions, FillResult } from './filler';
+import { FACE_REQUEST_EVENT, FACE_RESPONSE_EVENT } from './mainWorldBridge';
+import { sendRuntimeMessage } from '../core/messages';
+
+type ShadowHost = HTMLElement & { shadowRoot?: ShadowRoot | null };
+
+// Open roots directly, closed ones through chrome.dom (content scripts only)
+export function shadowRootOf(el: Element): ShadowRoot | null {
+  const open = (el as ShadowHost).shadowRoot ?? null;
+  if (open || !(el instanceof HTMLElement)) return open;
+  try {
+    const dom = (globalThis as { chrome?: { dom?: { openOrClosedShadowRoot?: (el: HTMLElement) => ShadowRoot | null } } }).chrome?.dom;
+    return dom?.openOrClosedShadowRoot?.(el) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+function isCustomElementName(el: Element): boolean {
+  return el.localName.includes('-');
+}
+
+function listedInForm(el: Element): boolean {
+  const form = el.closest('form');
+  return !!form && Array.from(form.elements).includes(el);
+}
+
+function isSubmittable(el: Element): boolean {
+  try {
+    return el.matches(':valid, :invalid');
+  } catch {
+    return false;
+  }
+}
+
+export function isFormAssociatedCustomElement(el: Element): boolean {
+  return el instanceof HTMLElement && isCustomElementName(el) && (listedInForm(el) || isSubmittable(el));
+}
+
+// Form-associated custom elements of a root, or of a subtree of it: submittable custom elements
+// and those its forms list. A subtree includes its own top element.
+export function listFormAssociatedElements(scope: Document | ShadowRoot | Element): HTMLElement[] {
+  const found = new Set<HTMLElement>();
+  const root = scope.getRootNode();
+  const inScope = (el: Element) => el.getRootNode() === root && (scope === root || scope.contains(el));
+  try {
+    if (scope instanceof Element && isFormAssociatedCustomElement(scope)) found.add(scope as HTMLElement);
+    for (const el of Array.from(scope.querySelectorAll(':valid, :invalid'))) {
+      if (el instanceof HTMLElement && isCustomElementName(el)) found.add(el);
+    }
+    for (const form of Array.from(scope.querySelectorAll('form'))) {
+      for (const el of Array.from(form.elements)) {
+        if (el instanceof HTMLElement && isCustomElementName(el) && inScope(el)) found.add(el);
+      }
+    }
+  } catch {
+    // ignore
+  }
+  return Array.from(found);
+}
+
+// <sl-checkbox>, <lightning-input type="toggle"> and the like hold `checked`, everything else `value`
+export function isCheckableCustomElement(el: HTMLElement): boolean {
+  return /checkbox|switch|toggle/i.test(`${el.localName} ${el.getAttribute('type') ?? ''}`);
+}
+
+let bridgeRequested = false;
+let bridgeRefusal: string | null = null;
+
+// Ask the worker to put the bridge into this frame's page world; once per frame. Pages the extension
+// has no host permission for are refused and keep the attribute fallback, until the user grants the
+// origin from the popup and the worker injects the bridge into its open tabs
+export function ensureMainWorldBridge(): void {
+  if (bridgeRequested) return;
+  bridgeRequested = true;
+  sendRuntimeMessage({ type: 'MAIN_WORLD_BRIDGE' })
+    .then((response) => {
+      bridgeRefusal = response.success ? null : response.error ?? 'The bridge was not injected.';
+    })
+    .catch((error: unknown) => {
+      bridgeRefusal = error instanceof Error ? error.message : 'The bridge was not injected.';
+    });
+}
+
+export interface MainWorldBridgeStatus {
+  requested: boolean;
+  // answers on this frame's document, however it got there
+  installed: boolean;
+  refusal: string | null;
+}
+
+export function mainWorldBridgeStatus(): MainWorldBridgeStatus {
+  const installed = askBridge(document.documentElement, { op: 'read', prop: 'value' }) !== null;
+  return { requested: bridgeRequested, installed, refusal: installed ? null : bridgeRefusal };
+}
+
+interface BridgeReply {
+  ok: boolean;
+  value?: string | boolean | null;
+}
+
+// One request to the bridge; null when no bridge answered (not injected, or the element sits in a
+// closed shadow root the page world cannot see into)
+function askBridge(el: HTMLElement, request: { op: 'read' | 'write'; prop: 'value' | 'checked'; value?: unknown }): BridgeReply | null {
+  let reply: BridgeReply | null = null;
+  const onResponse = (event: Event) => {
+    const detail = (event as CustomEvent<unknown>).detail;
+    if (typeof detail !== 'string') return;
+    try {
+      reply = JSON.parse(detail) as BridgeReply;
+    } catch {
+      reply = null;
+    }
+  };
+  el.addEventListener(FACE_RESPONSE_EVENT, onResponse);
+  try {
+    el.dispatchEvent(new CustomEvent(FACE_REQUEST_EVENT, { bubbles: true, composed: true, detail: JSON.stringify(request) }));
+  } finally {
+    el.removeEventListener(FACE_RESPONSE_EVENT, onResponse);
+  }
+  return reply;
+}
+
+function propFor(value: unknown): 'value' | 'checked' {
+  return typeof value === 'boolean' ? 'checked' : 'value';
+}
+
+export function readCustomElementValue(el: HTMLElement, prop: 'value' | 'checked' = 'value'): unknown {
+  const reply = askBridge(el, { op: 'read', prop });
+  if (reply?.ok) return reply.value ?? null;
+  return prop === 'checked' ? el.hasAttribute('checked') : el.getAttribute('value') ?? '';
+}
+
+function fire(el: HTMLElement, type: string): void {
+  try {
+    el.dispatchEvent(new Event(type, { bubbles: true, composed: true }));
+  } catch {
+    // ignore
+  }
+}
+
+// Without the bridge: reflected attributes, then the events a user's edit would send
+function writeAttribute(el: HTMLElement, prop: 'value' | 'checked', value: unknown): void {
+  if (prop === 'checked') el.toggleAttribute('checked', value === true);
+  else el.setAttribute('value', String(value ?? ''));
+  fire(el, 'input');
+  fire(el, 'change');
+}
+
+// Fill a form-associated custom element through its public property
+export function fillCustomElement(el: HTMLElement, value: unknown, options: FillOptions = {}): FillResult {
+  const prop = propFor(value);
+  const next = prop === 'checked' ? value : Array.isArray(value) ? value.join(', ') : String(value ?? '');
+  const before = readCustomElementValue(el, prop);
+  try {
+    el.focus({ preventScroll: true });
+  } catch {
+    // ignore
+  }
+  const reply = askBridge(el, { op: 'write', prop, value: next });
+  if (!reply?.ok) writeAttribute(el, prop, next);
+  if (options.blurAfter) el.blur();
+  const after = reply?.ok ? reply.value ?? null : readCustomElementValue(el, prop);
+  const via = reply?.ok ? `${prop} property` : `${prop} attribute`;
+  return { changed: before !== after, message: `${el.localName} filled via its ${via}` };
+}
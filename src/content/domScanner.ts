@@ -1,17 +1,42 @@
 /*
   DOM Scanner for AIAutoFill
-  - Traverses regular DOM, open Shadow DOM, and same-origin iframes
-  - Extracts candidate form controls: input/select/textarea/contenteditable/custom ARIA textboxes
+  - Traverses regular DOM, open and closed Shadow DOM (customElements.ts), and same-origin iframes
+  - Extracts candidate form controls: input/select/textarea/contenteditable/custom ARIA textboxes,
+    and form-associated custom elements as one control each (their inner inputs are skipped)
+  - Models each radio group (same name, or role="radiogroup") as one candidate with its choices
   - Computes accessible names from aria-labelledby, aria-label, labels, placeholders, titles, and nearby text
   - Records attributes and geometry context
-  - Sets up MutationObservers with throttled rescans
+  - Sets up MutationObservers with throttled rescans of the mutated subtrees, patching the previous
+    scan and reporting a delta; whole-document rescans remain as a periodic consistency check
 */
 
+import { autofillSection, parseAutocomplete } from '../lib/autocomplete';
+import { isCustomRadioGroup, radioChoices, radioGroupMembers } from './radioGroups';
+import {
+  ensureMainWorldBridge,
+  isFormAssociatedCustomElement,
+  listFormAssociatedElements,
+  shadowRootOf
+} from './customElements';
+
 export interface AccessibleName {
   value: string | null;
   sources: string[]; // e.g., ['aria-labelledby', 'label[for]', 'placeholder']
 }
 
+export interface CandidateOption {
+  value: string;
+  label: string;
+  checked: boolean;
+  disabled: boolean;
+}
+
+export interface CandidateLink {
+  text: string;
+  href: string;
+  inLabel: boolean; // inside the control's own <label>
+}
+
 export interface Rect {
   top: number;
   left: number;
@@ -25,6 +50,8 @@ export interface Candidate {
   id: string; // stable identity derived from element signature + location
   path: string; // css path inside its root (Document or ShadowRoot)
   framePath: string[]; // css selectors for iframe elements from top-level down to this root
+  frameId?: number; // cross-origin frame that reported the candidate; framePath is then inside that frame (frames.ts)
+  shadowPath?: string[]; // css paths of the shadow hosts from its frame's document down to its root
   rootType: 'document' | 'shadow-root' | 'iframe';
 
   tagName: string;
@@ -42,6 +69,14 @@ export interface Candidate {
   viewportRect: Rect; // rect relative to top-level window viewport
   accessibleName: AccessibleName;
   description?: string | null; // from aria-describedby if present
+  lang?: string | null; // nearest lang attribute (element, form, shadow hosts, document)
+  autofillSection?: string | null; // `section-*` and shipping/billing tokens of autocomplete
+  inCaptcha?: boolean; // inside a captcha widget (reCAPTCHA, hCaptcha, Turnstile...)
+  // Radio groups only: the choices, in document order. The group is one candidate, carried by its
+  // first rendered radio (or the role="radiogroup" element) and named after the group's label.
+  options?: CandidateOption[];
+  // Checkboxes only: links in the box's label or row ("I accept the [terms]"), for consent.ts
+  links?: CandidateLink[];
 
   stableElementId: string;
   robustSelector: string;
@@ -58,6 +93,7 @@ export interface FormGroup {
   source: FormGroupSource;
   fieldCount: number;
   candidateIds: string[];
+  sections: string[]; // distinct autofill sections inside the group, matched separately
   framePath: string[];
   rootType: Candidate['rootType'];
   outlineRect: Rect;
@@ -68,6 +104,7 @@ interface CandidateContext {
   candidate: Candidate;
   root: Document | ShadowRoot;
   frameChain: Element[];
+  shadowChain: Element[];
 }
 
 interface GroupAccumulator {
@@ -80,16 +117,30 @@ interface GroupAccumulator {
   candidates: CandidateContext[];
 }
 
+// Candidate ids that changed since the previous scan
+export interface ScanDelta {
+  added: string[];
+  removed: string[];
+  // same id, different field description or form group
+  changed: string[];
+}
+
 export interface ScanResult {
   version: number;
   candidates: Candidate[];
   formGroups: FormGroup[];
   scannedAt: number;
   durationMs: number;
+  incremental?: boolean; // only the subtrees touched by mutations were rescanned
+  delta?: ScanDelta; // absent on the first scan
+  // candidates whose field had no box on an earlier scan (collapsed accordion, inactive tab,
+  // conditional section) and has shown since
+  revealed?: string[];
 }
 
 export interface DomScannerOptions {
   throttleMs?: number; // default 320ms
+  fullScanIntervalMs?: number; // default 15s; whole-document consistency rescan after mutations
   onCandidates?: (result: ScanResult) => void;
 }
 
@@ -99,6 +150,7 @@ export interface DomScannerController {
 }
 
 const DEFAULT_THROTTLE_MS = 320;
+const DEFAULT_FULL_SCAN_INTERVAL_MS = 15000;
 
 const CANDIDATE_SELECTOR = [
   // native controls
@@ -110,7 +162,9 @@ const CANDIDATE_SELECTOR = [
   // common ARIA roles used for custom text inputs
   '[role="textbox"]',
   '[role="searchbox"]',
-  '[role="combobox"]'
+  '[role="combobox"]',
+  // custom radio groups (native radios are grouped by name)
+  '[role="radiogroup"]'
 ].join(',');
 
 const ELEMENT_SIGNATURE_ATTRS = [
@@ -129,6 +183,18 @@ const ELEMENT_SIGNATURE_ATTRS = [
   'data-qa-id'
 ];
 
+// Captcha vendor widgets and the usual hand-rolled captcha wrappers
+const CAPTCHA_CONTAINER_SELECTOR = [
+  '.g-recaptcha',
+  '.h-captcha',
+  '.cf-turnstile',
+  '.frc-captcha',
+  '[data-sitekey]',
+  '[data-hcaptcha-widget-id]',
+  '[class*="captcha" i]',
+  '[id*="captcha" i]'
+].join(', ');
+
 const FORM_GROUP_LABEL_ATTRS = [
   'aria-label',
   'data-form-label',
@@ -143,6 +209,7 @@ const SUBMIT_SELECTOR = 'button[type="submit"],input[type="submit"],input[type="
 const HEADING_SELECTOR = 'h1,h2,h3,h4,h5,h6,[role="heading"],.form-title,.section-title,.heading,.title';
 const GROUP_LIKE_CLASS_SELECTOR = '.form-group,.field-group,.form-section,.form-block,.form-panel,.field-section,.auth-form,.login-form';
 const MAX_ANCESTOR_DEPTH = 24;
+const MAX_NEARBY_LINKS = 5;
 
 const STRUCTURAL_GROUP_DEFS: Array<{ selector: string; source: FormGroupSource; fallback: string }> = [
   { selector: 'form', source: 'form', fallback: 'Form' },
@@ -159,6 +226,9 @@ let submitPresenceCache = new WeakMap<Element, boolean>();
 let headingCache = new WeakMap<Element, string | null>();
 let actionTextCache = new WeakMap<Element, string | null>();
 
+// form controls a scan skipped for having no box, collected for startDomScanner to watch
+let concealedSink: Element[] = [];
+
 const elementIdentityMap = new WeakMap<Element, string>();
 let elementIdentityCounter = 1;
 
@@ -175,7 +245,8 @@ function isFormControl(el: Element): boolean {
   if (el.hasAttribute('contenteditable')) return true;
   const role = el.getAttribute('role');
   if (role && /^(textbox|searchbox|combobox)$/i.test(role)) return true;
-  return false;
+  if (role && role.toLowerCase() === 'radiogroup') return isCustomRadioGroup(el);
+  return isFormAssociatedCustomElement(el);
 }
 
 function isDisabled(el: Element): boolean {
@@ -437,6 +508,70 @@ function findNearbyText(el: Element): string | null {
   return null;
 }
 
+function commonAncestor(elements: Element[]): Element | null {
+  let node: Element | null = elements[0]?.parentElement ?? null;
+  while (node && !elements.every((e) => node!.contains(e))) node = node.parentElement;
+  return node;
+}
+
+// Text in the group's container that belongs to no choice ("Gender" ahead of the radios)
+function groupIntroText(container: Element, members: Element[]): string | null {
+  for (const node of Array.from(container.childNodes)) {
+    if (node instanceof Element && members.some((m) => node.contains(m) || m.contains(node))) return null;
+    // a choice's own <label for=...>
+    if (node instanceof HTMLLabelElement && node.control && members.includes(node.control)) continue;
+    const text = (node instanceof Element ? getInnerTextSafe(node) : node.textContent || '').replace(/\s+/g, ' ').trim();
+    if (text) return text.length <= 80 ? text : null;
+  }
+  return null;
+}
+
+// A radio group is named by its radiogroup or fieldset, or the text ahead of it; the radios' own
+// labels name the choices
+function computeRadioGroupName(el: Element, members: HTMLElement[]): AccessibleName {
+  const container = isCustomRadioGroup(el) ? el : commonAncestor(members);
+  if (!container) return { value: null, sources: [] };
+  const group = container.closest('[role="radiogroup"]');
+  if (group) {
+    const val = getLabelFromAriaLabelledby(group) || group.getAttribute('aria-label')?.trim();
+    if (val) return { value: val, sources: ['radiogroup'] };
+  }
+  const legend = container.closest('fieldset')?.querySelector('legend');
+  const legendText = legend ? getInnerTextSafe(legend).trim() : '';
+  if (legendText) return { value: legendText, sources: ['legend'] };
+  const intro = groupIntroText(container, members);
+  if (intro) return { value: intro, sources: ['group-text'] };
+  const nearby = findNearbyText(container);
+  if (nearby && nearby.trim()) return { value: nearby.trim(), sources: ['nearby'] };
+  return { value: null, sources: [] };
+}
+
+// Links in a checkbox's label and in the ancestors that hold no other control (its row)
+function collectNearbyLinks(el: Element): CandidateLink[] {
+  const labels: Element[] = el instanceof HTMLInputElement ? Array.from(el.labels ?? []) : [];
+  const scopes = [...labels];
+  let row = el.parentElement;
+  for (let depth = 0; row && depth < 3; depth++) {
+    if (row.querySelectorAll('input, select, textarea').length > 1) break;
+    scopes.push(row);
+    row = row.parentElement;
+  }
+  const seen = new Set<Element>();
+  const out: CandidateLink[] = [];
+  for (const scope of scopes) {
+    for (const link of Array.from(scope.querySelectorAll<HTMLAnchorElement>('a[href]'))) {
+      if (seen.has(link) || out.length >= MAX_NEARBY_LINKS) continue;
+      seen.add(link);
+      out.push({
+        text: getInnerTextSafe(link).replace(/\s+/g, ' ').trim(),
+        href: link.getAttribute('href') || '',
+        inLabel: labels.some((label) => label.contains(link))
+      });
+    }
+  }
+  return out;
+}
+
 function computeAccessibleName(el: Element): AccessibleName {
   const sources: string[] = [];
 
@@ -462,6 +597,13 @@ function computeAccessibleName(el: Element): AccessibleName {
     return { value: labelForOrWrap, sources };
   }
 
+  // Shoelace and Lightning controls render their label from a `label` attribute
+  const labelAttr = el.localName.includes('-') ? el.getAttribute('label') : null;
+  if (labelAttr && labelAttr.trim()) {
+    sources.push('label-attribute');
+    return { value: labelAttr.trim(), sources };
+  }
+
   const placeholder = (el as HTMLElement).getAttribute('placeholder');
   if (placeholder && placeholder.trim()) {
     sources.push('placeholder');
@@ -500,6 +642,18 @@ function getDescriptionFromAriaDescribedby(el: Element): string | null {
   return parts.length ? parts.join(' ') : null;
 }
 
+function getInheritedLang(el: Element): string | null {
+  let current: Element | null = el;
+  while (current) {
+    const holder: Element | null = current.closest('[lang]');
+    const lang = holder?.getAttribute('lang')?.trim();
+    if (lang) return lang;
+    const root = current.getRootNode();
+    current = root instanceof ShadowRoot ? root.host : null;
+  }
+  return null;
+}
+
 function getLabelFromAriaLabelledby(el: Element): string | null {
   const attr = el.getAttribute('aria-labelledby');
   if (!attr) return null;
@@ -932,6 +1086,7 @@ function finaliseFormGroups(contexts: CandidateContext[]): { candidates: Candida
       source: acc.source,
       fieldCount,
       candidateIds: acc.candidates.map((item) => item.candidate.id),
+      sections: collectSections(acc.candidates),
       framePath: acc.framePath,
       rootType: acc.rootType,
       outlineRect
@@ -958,39 +1113,55 @@ function finaliseFormGroups(contexts: CandidateContext[]): { candidates: Candida
   return { candidates, groups };
 }
 
-function buildCandidate(el: Element, root: Document | ShadowRoot, frameChain: Element[]): CandidateContext | null {
+function collectSections(contexts: CandidateContext[]): string[] {
+  const sections = new Set<string>();
+  for (const ctx of contexts) {
+    if (ctx.candidate.autofillSection) sections.add(ctx.candidate.autofillSection);
+  }
+  return Array.from(sections);
+}
+
+function buildCandidate(
+  el: Element,
+  root: Document | ShadowRoot,
+  frameChain: Element[],
+  shadowChain: Element[] = []
+): CandidateContext | null {
   if (!isFormControl(el)) return null;
 
-  const disabled = isDisabled(el);
+  const isRadio = el instanceof HTMLInputElement && el.type === 'radio';
+  const radioMembers = isRadio || isCustomRadioGroup(el) ? radioGroupMembers(el) : [];
+  const isGroup = radioMembers.length > 1 || (!isRadio && radioMembers.length > 0);
+  // The other radios of a group are covered by its first rendered one
+  if (isRadio && isGroup && radioMembers.find(hasBox) !== el) return null;
+
+  const disabled = isGroup ? radioMembers.every(isDisabled) : isDisabled(el);
   const hiddenAttr = isHiddenByAttr(el);
   const hasRect = hasBox(el);
 
   // skip non-rendered elements entirely
   if (!hasRect) return null;
 
-  const viewportRect = getViewportRect(el, frameChain);
-  const accessibleName = computeAccessibleName(el);
+  const accessibleName = isGroup ? computeRadioGroupName(el, radioMembers) : computeAccessibleName(el);
   const role = el.getAttribute('role');
   const isContentEditable = el.hasAttribute('contenteditable');
   const tagName = el.tagName.toLowerCase();
-  const type = tagName === 'input' ? (el as HTMLInputElement).type || 'text' : null;
+  const formAssociated = isFormAssociatedCustomElement(el);
+  // <sl-input type="email"> says what it takes like an <input>
+  const type = tagName === 'input' ? (el as HTMLInputElement).type || 'text' : formAssociated ? el.getAttribute('type') : null;
   const isNative = tagName === 'input' || tagName === 'select' || tagName === 'textarea';
-  const isCustomControl = !isNative && (isContentEditable || (role ? /^(textbox|searchbox|combobox)$/i.test(role) : false));
+  const isCustomControl =
+    !isNative && (formAssociated || isContentEditable || (role ? /^(textbox|searchbox|combobox|radiogroup)$/i.test(role) : false));
 
-  const path = getCssPath(el);
-  const framePath = frameChain.map((f) => getCssPath(f));
-  const frameSignature = frameSignatureFromPath(framePath);
-  const stableElementId = getStableElementId(el);
+  const location = elementLocation(el, frameChain, shadowChain);
   const signature = attributeSignature(el);
-  const robustSelector = buildRobustSelector(el, path);
-  const idSegments = [frameSignature, robustSelector, stableElementId];
-  const id = idSegments.join('||');
 
   const attributes: Record<string, string | null | undefined> = {
     id: (el as HTMLElement).id || null,
     name: (el as HTMLElement).getAttribute('name'),
     type,
     placeholder: (el as HTMLElement).getAttribute('placeholder'),
+    pattern: (el as HTMLElement).getAttribute('pattern'),
     autocomplete: (el as HTMLElement).getAttribute('autocomplete'),
     role,
     'aria-label': el.getAttribute('aria-label'),
@@ -1012,9 +1183,7 @@ function buildCandidate(el: Element, root: Document | ShadowRoot, frameChain: El
     : (root instanceof ShadowRoot ? 'shadow-root' : 'document');
 
   const candidate: Candidate = {
-    id,
-    path,
-    framePath,
+    ...location,
     rootType,
     tagName,
     type,
@@ -1025,11 +1194,15 @@ function buildCandidate(el: Element, root: Document | ShadowRoot, frameChain: El
     classes,
     disabled,
     hidden: hiddenAttr,
-    viewportRect,
     accessibleName,
     description: getDescriptionFromAriaDescribedby(el),
-    stableElementId,
-    robustSelector,
+    lang: getInheritedLang(el),
+    autofillSection: autofillSection(parseAutocomplete(attributes.autocomplete)),
+    inCaptcha: !!el.closest(CAPTCHA_CONTAINER_SELECTOR),
+    ...(isGroup
+      ? { options: radioChoices(el).map(({ value, label, checked, disabled }) => ({ value, label, checked, disabled })) }
+      : {}),
+    ...(type === 'checkbox' ? { links: collectNearbyLinks(el) } : {}),
     formGroupId: '__pending__',
     formGroupLabel: null
   };
@@ -1038,18 +1211,43 @@ function buildCandidate(el: Element, root: Document | ShadowRoot, frameChain: El
     element: el,
     candidate,
     root,
-    frameChain
+    frameChain,
+    shadowChain
+  };
+}
+
+type CandidateLocation = Pick<
+  Candidate,
+  'id' | 'path' | 'framePath' | 'shadowPath' | 'viewportRect' | 'stableElementId' | 'robustSelector'
+>;
+
+// The fields of a candidate that follow from where its element sits; siblings inserted before it
+// change its path, and with it its id
+function elementLocation(el: Element, frameChain: Element[], shadowChain: Element[]): CandidateLocation {
+  const path = getCssPath(el);
+  const framePath = frameChain.map((f) => getCssPath(f));
+  const shadowPath = shadowChain.map((h) => getCssPath(h));
+  const stableElementId = getStableElementId(el);
+  const robustSelector = buildRobustSelector(el, path);
+  const id = [frameSignatureFromPath(framePath), robustSelector, stableElementId].join('||');
+  return {
+    id,
+    path,
+    framePath,
+    ...(shadowPath.length ? { shadowPath } : {}),
+    viewportRect: getViewportRect(el, frameChain),
+    stableElementId,
+    robustSelector
   };
 }
 
-function listShadowHosts(root: Document | ShadowRoot): Element[] {
-  // Scan all elements and pick those with open shadow roots
+function listShadowHosts(root: ParentNode): Element[] {
+  // Scan all elements and pick those with shadow roots, open or closed
   const out: Element[] = [];
   try {
     const all = root.querySelectorAll('*');
     for (const el of Array.from(all)) {
-      const host = el as HTMLElement & { shadowRoot?: ShadowRoot | null };
-      if (host.shadowRoot) out.push(host);
+      if (shadowRootOf(el)) out.push(el);
     }
   } catch {
     // ignore
@@ -1057,7 +1255,8 @@ function listShadowHosts(root: Document | ShadowRoot): Element[] {
   return out;
 }
 
-function listSameOriginFrames(root: Document | ShadowRoot): HTMLIFrameElement[] {
+// Cross-origin frames scan themselves and report to the top frame (frames.ts)
+function listSameOriginFrames(root: ParentNode): HTMLIFrameElement[] {
   // Find only <iframe> elements; <frame> is deprecated and omitted for simplicity
   const frames: HTMLIFrameElement[] = [];
   let iframeNodes: NodeListOf<Element>;
@@ -1079,24 +1278,33 @@ function listSameOriginFrames(root: Document | ShadowRoot): HTMLIFrameElement[]
   return frames;
 }
 
+// `scope` narrows the scan to one subtree of the root, for incremental scans
 function scanRoot(
   root: Document | ShadowRoot,
   frameChain: Element[],
   contexts: CandidateContext[],
-  seenKeys: Set<string>
+  seenKeys: Set<string>,
+  shadowChain: Element[] = [],
+  scope: Document | ShadowRoot | Element = root
 ) {
   // 1) candidates within this root
-  let nodes: NodeListOf<Element> | null = null;
+  let nodes: Element[] | null = null;
+  const formAssociated = listFormAssociatedElements(scope);
+  if (formAssociated.length) ensureMainWorldBridge();
   try {
-    nodes = root.querySelectorAll(CANDIDATE_SELECTOR);
+    const self = scope instanceof Element && scope.matches(CANDIDATE_SELECTOR) ? [scope] : [];
+    nodes = [...self, ...Array.from(scope.querySelectorAll(CANDIDATE_SELECTOR)), ...formAssociated];
   } catch {
     nodes = null;
   }
 
   if (nodes) {
-    for (const el of Array.from(nodes)) {
-      const context = buildCandidate(el, root, frameChain);
-      if (!context) continue;
+    for (const el of nodes) {
+      const context = buildCandidate(el, root, frameChain, shadowChain);
+      if (!context) {
+        if (isFormControl(el) && !hasBox(el)) concealedSink.push(el);
+        continue;
+      }
       const candidateId = context.candidate.id;
       if (seenKeys.has(candidateId)) continue;
       seenKeys.add(candidateId);
@@ -1104,16 +1312,18 @@ function scanRoot(
     }
   }
 
-  // 2) recurse into shadow roots
-  const shadowHosts = listShadowHosts(root);
+  // 2) recurse into shadow roots; a form-associated custom element is filled as a whole, its
+  // inner inputs are its rendering
+  const shadowHosts = listShadowHosts(scope);
+  if (scope instanceof Element && shadowRootOf(scope)) shadowHosts.unshift(scope);
   for (const host of shadowHosts) {
-    const hostEl = host as HTMLElement & { shadowRoot?: ShadowRoot | null };
-    const sr = hostEl.shadowRoot ?? null;
-    if (sr) scanRoot(sr, frameChain, contexts, seenKeys);
+    if (isFormAssociatedCustomElement(host)) continue;
+    const sr = shadowRootOf(host);
+    if (sr) scanRoot(sr, frameChain, contexts, seenKeys, [...shadowChain, host]);
   }
 
   // 3) recurse into same-origin iframes
-  const frames = listSameOriginFrames(root);
+  const frames = listSameOriginFrames(scope);
   for (const iframe of frames) {
     try {
       const doc = iframe.contentDocument;
@@ -1149,53 +1359,183 @@ function invalidateElementTree(node: Node): void {
   }
 }
 
-function mutationsAffectCandidates(records: MutationRecord[]): boolean {
-  let shouldTrigger = false;
+interface MutationImpact {
+  affected: boolean;
+  // subtrees to rescan: added nodes, and elements whose attributes or text changed. Removed
+  // candidates need no rescan, they drop out as disconnected.
+  roots: Element[];
+}
+
+function mutationImpact(records: MutationRecord[]): MutationImpact {
+  let affected = false;
+  const roots: Element[] = [];
   for (const record of records) {
     if (record.type === 'childList') {
       for (const removed of Array.from(record.removedNodes)) {
         invalidateElementTree(removed);
-        if (!shouldTrigger && nodeContainsCandidate(removed)) {
-          shouldTrigger = true;
+        if (!affected && nodeContainsCandidate(removed)) {
+          affected = true;
         }
       }
-      if (!shouldTrigger) {
-        for (const added of Array.from(record.addedNodes)) {
-          if (nodeContainsCandidate(added)) {
-            shouldTrigger = true;
-            break;
-          }
-        }
-      }
-      if (!shouldTrigger) {
-        for (const removed of Array.from(record.removedNodes)) {
-          if (nodeContainsCandidate(removed)) {
-            shouldTrigger = true;
-            break;
-          }
+      for (const added of Array.from(record.addedNodes)) {
+        if (added instanceof Element && nodeContainsCandidate(added)) {
+          affected = true;
+          roots.push(added);
         }
       }
     } else if (record.type === 'attributes') {
       const target = record.target;
       if (target instanceof Element) {
         if (isFormControl(target) || nodeContainsCandidate(target)) {
-          shouldTrigger = true;
+          affected = true;
+          roots.push(target);
         } else if (record.attributeName && FORM_GROUP_LABEL_ATTRS.includes(record.attributeName)) {
-          shouldTrigger = true;
+          affected = true;
+          roots.push(target);
         }
       }
     } else if (record.type === 'characterData') {
       const parent = record.target.parentElement;
       if (parent && nodeContainsCandidate(parent)) {
-        shouldTrigger = true;
+        affected = true;
+        roots.push(parent);
       }
     }
-    if (shouldTrigger) {
-      // continue loop to allow cleanup on remaining records
+  }
+  return { affected, roots };
+}
+
+// Shadow roots and documents of same-origin frames come from another realm, so no instanceof
+function hostOfRoot(root: Node): Element | null {
+  return root.nodeType === Node.DOCUMENT_FRAGMENT_NODE ? (root as ShadowRoot).host ?? null : null;
+}
+
+function frameOfDocument(root: Node): Element | null {
+  if (root.nodeType !== Node.DOCUMENT_NODE) return null;
+  try {
+    return (root as Document).defaultView?.frameElement ?? null;
+  } catch {
+    return null;
+  }
+}
+
+// Whether `node` lies inside `ancestor`, through shadow hosts and same-origin frames
+function isWithin(node: Element, ancestor: Element): boolean {
+  let current: Element | null = node;
+  while (current) {
+    if (ancestor.contains(current)) return true;
+    const root = current.getRootNode();
+    current = hostOfRoot(root) ?? frameOfDocument(root);
+  }
+  return false;
+}
+
+// Frame and shadow host chains of an element, as scanRoot passes them down; null when the
+// scanner does not look there (inside a form-associated custom element, detached)
+function chainsOf(el: Element): { root: Document | ShadowRoot; frameChain: Element[]; shadowChain: Element[] } | null {
+  const shadowChain: Element[] = [];
+  const frameChain: Element[] = [];
+  let root: Document | ShadowRoot | null = null;
+  let current: Element = el;
+  for (;;) {
+    const node = current.getRootNode();
+    const host = hostOfRoot(node);
+    if (host) {
+      if (isFormAssociatedCustomElement(host)) return null;
+      if (!frameChain.length) shadowChain.unshift(host);
+      root = root ?? (node as ShadowRoot);
+      current = host;
       continue;
     }
+    if (node.nodeType !== Node.DOCUMENT_NODE) return null;
+    root = root ?? (node as Document);
+    if (node === document) return { root, frameChain, shadowChain };
+    const frame = frameOfDocument(node);
+    if (!frame) return null;
+    frameChain.unshift(frame);
+    current = frame;
   }
-  return shouldTrigger;
+}
+
+function isAttached(ctx: CandidateContext): boolean {
+  return ctx.element.isConnected && ctx.frameChain.every((frame) => frame.isConnected);
+}
+
+// Cached container facts around a changed subtree no longer hold
+function forgetCachedAncestry(el: Element): void {
+  for (const node of collectAncestry(el)) {
+    submitPresenceCache.delete(node);
+    headingCache.delete(node);
+    actionTextCache.delete(node);
+  }
+}
+
+// Subtrees an incremental scan cannot take on; the whole document is scanned instead
+function needsFullScan(root: Element): boolean {
+  const tag = root.localName;
+  return tag === 'html' || tag === 'body' || tag === 'head' || tag === 'iframe' || !!root.querySelector('iframe');
+}
+
+const MAX_INCREMENTAL_ROOTS = 64;
+const MAX_CONCEALED_WATCHED = 500;
+
+// Rescan only the given subtrees: candidates elsewhere keep their names, labels and links from
+// the previous scan and only have their location (path, id, rect) refreshed
+function rescanSubtrees(previous: CandidateContext[], dirty: Element[]): { contexts: CandidateContext[]; rebuilt: Set<string> } | null {
+  const connected = dirty.filter((el) => el.isConnected);
+  const roots = connected.filter((el) => !connected.some((other) => other !== el && isWithin(el, other)));
+  if (roots.length > MAX_INCREMENTAL_ROOTS || roots.some(needsFullScan)) return null;
+  for (const root of roots) forgetCachedAncestry(root);
+
+  const contexts: CandidateContext[] = [];
+  const seenKeys = new Set<string>();
+  for (const ctx of previous) {
+    if (!isAttached(ctx) || roots.some((root) => isWithin(ctx.element, root))) continue;
+    const candidate = { ...ctx.candidate, ...elementLocation(ctx.element, ctx.frameChain, ctx.shadowChain) };
+    if (seenKeys.has(candidate.id)) continue;
+    seenKeys.add(candidate.id);
+    contexts.push({ ...ctx, candidate });
+  }
+
+  const kept = contexts.length;
+  for (const root of roots) {
+    const chains = chainsOf(root);
+    if (!chains) continue;
+    scanRoot(chains.root, chains.frameChain, contexts, seenKeys, chains.shadowChain, root);
+  }
+  return { contexts, rebuilt: new Set(contexts.slice(kept).map((ctx) => ctx.candidate.id)) };
+}
+
+// What a candidate says about its field, without where it sits on screen
+function candidateFingerprint(candidate: Candidate): string {
+  return JSON.stringify({ ...candidate, viewportRect: null });
+}
+
+function diffCandidates(previous: Map<string, Candidate>, next: Candidate[], rebuilt: Set<string> | null): ScanDelta {
+  const delta: ScanDelta = { added: [], removed: [], changed: [] };
+  const nextIds = new Set<string>();
+  for (const candidate of next) {
+    nextIds.add(candidate.id);
+    const before = previous.get(candidate.id);
+    if (!before) {
+      delta.added.push(candidate.id);
+      continue;
+    }
+    // candidates an incremental scan kept can only have moved to another form group
+    const changed =
+      rebuilt && !rebuilt.has(candidate.id)
+        ? before.formGroupId !== candidate.formGroupId || before.formGroupLabel !== candidate.formGroupLabel
+        : candidateFingerprint(before) !== candidateFingerprint(candidate);
+    if (changed) delta.changed.push(candidate.id);
+  }
+  for (const id of previous.keys()) {
+    if (!nextIds.has(id)) delta.removed.push(id);
+  }
+  return delta;
+}
+
+function groupsSignature(groups: FormGroup[]): string {
+  return groups.map((group) => `${group.id}:${group.label}:${group.candidateIds.join(',')}`).join('|');
 }
 
 function nowTs(): number {
@@ -1243,30 +1583,139 @@ export function startDomScanner(options: DomScannerOptions = {}): DomScannerCont
   const observedRoots = new WeakSet<Document | ShadowRoot>();
   let scanVersion = 0;
 
-  const runScan = () => {
-    const start = nowHighRes();
+  // Mutations only rescan the subtrees they touched and patch the previous scan. The whole
+  // document is scanned first, on rescanNow, when a mutation reaches too far (body, iframes), and
+  // every fullScanIntervalMs after mutations, to catch what subtree scans miss (labels linked
+  // from elsewhere, radios leaving a group).
+  let contexts: CandidateContext[] = [];
+  let previous: Map<string, Candidate> | null = null;
+  let previousGroups = '';
+  const dirtyRoots = new Set<Element>();
+  let fullScanDue = true;
+  let mutatedSinceFullScan = false;
+  // rescanNow publishes even an unchanged scan
+  let publishUnchanged = true;
+
+  // Concealed controls are watched until they get a box; a box appearing without any mutation
+  // (a CSS :checked reveal, <details> opening) makes the control's subtree dirty
+  const concealed = new Set<Element>();
+  const onConcealedShown = (targets: Element[]) => {
+    let shown = false;
+    for (const el of targets) {
+      if (!concealed.has(el) || !hasBox(el)) continue;
+      dirtyRoots.add(el);
+      shown = true;
+    }
+    if (shown) throttler.schedule();
+  };
+  const resizeObserver =
+    typeof ResizeObserver !== 'undefined'
+      ? new ResizeObserver((entries) => onConcealedShown(entries.map((entry) => entry.target)))
+      : null;
+  // content-visibility and clipping ancestors can show a control without resizing it
+  const intersectionObserver =
+    typeof IntersectionObserver !== 'undefined'
+      ? new IntersectionObserver((entries) =>
+          onConcealedShown(entries.filter((entry) => entry.isIntersecting).map((entry) => entry.target))
+        )
+      : null;
+  const watchConcealed = (el: Element) => {
+    if (concealed.has(el) || concealed.size >= MAX_CONCEALED_WATCHED) return;
+    concealed.add(el);
+    resizeObserver?.observe(el);
+    intersectionObserver?.observe(el);
+  };
+  const unwatchConcealed = (el: Element) => {
+    concealed.delete(el);
+    resizeObserver?.unobserve(el);
+    intersectionObserver?.unobserve(el);
+  };
+
+  // Controls this scan found that were concealed before, and the concealed controls it found
+  const trackConcealed = (found: CandidateContext[], scanned: (el: Element) => boolean): string[] => {
+    const revealed: string[] = [];
+    for (const ctx of found) {
+      if (!concealed.has(ctx.element)) continue;
+      unwatchConcealed(ctx.element);
+      revealed.push(ctx.candidate.id);
+    }
+    let rescan = false;
+    for (const el of Array.from(concealed)) {
+      if (!el.isConnected) unwatchConcealed(el);
+      else if (!hasBox(el)) continue;
+      // shown but no candidate of its own, like the other radios of a group
+      else if (scanned(el)) unwatchConcealed(el);
+      else {
+        dirtyRoots.add(el);
+        rescan = true;
+      }
+    }
+    for (const el of concealedSink) watchConcealed(el);
+    concealedSink = [];
+    if (rescan) throttler.schedule();
+    return revealed;
+  };
+
+  const resetCaches = () => {
     submitPresenceCache = new WeakMap<Element, boolean>();
     headingCache = new WeakMap<Element, string | null>();
     actionTextCache = new WeakMap<Element, string | null>();
+  };
 
-    const contexts: CandidateContext[] = [];
-    const seenKeys = new Set<string>();
-    scanRoot(document, [], contexts, seenKeys);
+  const runScan = () => {
+    const start = nowHighRes();
+    const dirty = Array.from(dirtyRoots);
+    dirtyRoots.clear();
+    concealedSink = [];
+
+    let next: CandidateContext[] | null = null;
+    let rebuilt: Set<string> | null = null;
+    if (!fullScanDue && previous) {
+      const patched = rescanSubtrees(contexts, dirty);
+      if (patched) {
+        next = patched.contexts;
+        rebuilt = patched.rebuilt;
+      }
+    }
+    if (!next) {
+      resetCaches();
+      next = [];
+      scanRoot(document, [], next, new Set<string>());
+      rebuilt = null;
+      fullScanDue = false;
+      mutatedSinceFullScan = false;
+    }
 
-    const { candidates, groups } = finaliseFormGroups(contexts);
+    const revealed = trackConcealed(next, (el) => !rebuilt || dirty.some((root) => isWithin(el, root)));
+    const { candidates, groups } = finaliseFormGroups(next);
     candidates.sort(
       (a, b) =>
         a.viewportRect.top - b.viewportRect.top ||
         a.viewportRect.left - b.viewportRect.left ||
         a.stableElementId.localeCompare(b.stableElementId)
     );
+    const delta = previous ? diffCandidates(previous, candidates, rebuilt) : undefined;
+    const groupSignature = groupsSignature(groups);
+    contexts = next;
+    const unchanged =
+      !!delta && !delta.added.length && !delta.removed.length && !delta.changed.length && groupSignature === previousGroups;
+    previous = new Map(candidates.map((cand) => [cand.id, cand]));
+    previousGroups = groupSignature;
+    // mutations that changed no candidate are not worth a new version
+    const publish = !unchanged || revealed.length > 0 || publishUnchanged;
+    publishUnchanged = false;
+    if (!publish) return;
+
     const durationMs = Math.max(0, Number((nowHighRes() - start).toFixed(3)));
     const result: ScanResult = {
       version: ++scanVersion,
       candidates,
       formGroups: groups,
       scannedAt: nowTs(),
-      durationMs
+      durationMs,
+      ...(rebuilt ? { incremental: true } : {}),
+      ...(delta ? { delta } : {}),
+      ...(revealed.length ? { revealed } : {})
     };
     if (options.onCandidates) options.onCandidates(result);
   };
@@ -1278,7 +1727,10 @@ export function startDomScanner(options: DomScannerOptions = {}): DomScannerCont
     observedRoots.add(root);
 
     const obs = new MutationObserver((records) => {
-      if (mutationsAffectCandidates(records)) {
+      const impact = mutationImpact(records);
+      if (impact.affected) {
+        for (const root of impact.roots) dirtyRoots.add(root);
+        mutatedSinceFullScan = true;
         throttler.schedule();
       }
     });
@@ -1324,8 +1776,7 @@ export function startDomScanner(options: DomScannerOptions = {}): DomScannerCont
     }
 
     for (const host of listShadowHosts(root)) {
-      const hostEl = host as HTMLElement & { shadowRoot?: ShadowRoot | null };
-      const sr = hostEl.shadowRoot ?? null;
+      const sr = shadowRootOf(host);
       if (sr) observeRoot(sr);
     }
     for (const frame of listSameOriginFrames(root)) {
@@ -1344,8 +1795,7 @@ export function startDomScanner(options: DomScannerOptions = {}): DomScannerCont
     try {
       observeRoot(document);
       for (const host of listShadowHosts(document)) {
-        const hostEl = host as HTMLElement & { shadowRoot?: ShadowRoot | null };
-        const sr = hostEl.shadowRoot ?? null;
+        const sr = shadowRootOf(host);
         if (sr) observeRoot(sr);
       }
       for (const frame of listSameOriginFrames(document)) {
@@ -1357,6 +1807,12 @@ export function startDomScanner(options: DomScannerOptions = {}): DomScannerCont
     }
   }, Math.max(2000, throttleMs * 2));
 
+  const consistencyCheck = window.setInterval(() => {
+    if (!mutatedSinceFullScan) return;
+    fullScanDue = true;
+    throttler.schedule();
+  }, Math.max(throttleMs * 4, options.fullScanIntervalMs ?? DEFAULT_FULL_SCAN_INTERVAL_MS));
+
   throttler.flush();
 
   return {
@@ -1369,9 +1825,17 @@ export function startDomScanner(options: DomScannerOptions = {}): DomScannerCont
         }
       }
       observers.length = 0;
+      resizeObserver?.disconnect();
+      intersectionObserver?.disconnect();
+      concealed.clear();
       window.clearInterval(periodicCheck);
+      window.clearInterval(consistencyCheck);
       scanVersion = 0;
     },
-    rescanNow: () => throttler.flush()
+    rescanNow: () => {
+      fullScanDue = true;
+      publishUnchanged = true;
+      throttler.flush();
+    }
   };
 }
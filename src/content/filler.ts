@@ -3,22 +3,44 @@
   - Set values using native property descriptors (value/checked/selected)
   - Dispatch input/change/blur and keyboard events
   - Adapters for React/Vue/Angular controlled components
-  - Handles text inputs, textarea, contenteditable, select, radio, checkbox
+  - Handles text inputs, textarea, contenteditable, select, radio, checkbox, file
+  - Radio groups (native or role="radiogroup") pick the choice whose value or label matches
+  - Custom dropdowns and comboboxes go through widget drivers (widgetDrivers.ts, async path only)
+  - Rich-text editors (TinyMCE, CKEditor 5, Quill, Draft.js, ProseMirror) go through adapters (richTextEditors.ts)
   - Attempts to support masked inputs by simulating typing
+  - Async human-paced typing (fillElementAsync) with composition events and cancellation
 */
 
+import { matchesAccept } from '../lib/attachments';
+import { resolveSelectOption, type OptionMatch, type SelectOptionLike } from '../lib/selectOptions';
+import { isCustomRadioGroup, isRadioGroup, radioChoices } from './radioGroups';
+import { detectRichTextEditor, fillRichText, fillRichTextAsync, type RichTextEditorName } from './richTextEditors';
+import { acceptsTypedText, detectWidget, fillWidget, restoreWidget, type WidgetDriverName } from './widgetDrivers';
+import { fillCustomElement, isCheckableCustomElement, isFormAssociatedCustomElement } from './customElements';
+
 export type Framework = 'auto' | 'react' | 'vue' | 'angular' | 'none';
 
 export interface FillOptions {
   framework?: Framework;
   simulateTyping?: boolean; // prefer typing for mask-aware inputs
-  typingDelayMs?: number; // for async typing (not used; events dispatched synchronously)
+  typingDelayMs?: number; // per-character delay of the async typing path (fillElementAsync), default 30
+  typingJitter?: number; // random +/- share of typingDelayMs [0..1], default 0.35
+  signal?: AbortSignal; // cancels async typing; the field gets its previous value back
+  widgetTimeoutMs?: number; // how long a custom dropdown gets to render its options, default 1500
   blurAfter?: boolean;
 }
 
 export interface FillResult {
   changed: boolean;
   message?: string;
+  // async typing was aborted through FillOptions.signal
+  cancelled?: boolean;
+  // <select>, radio groups and custom dropdowns: the options picked for the value and why
+  selected?: OptionMatch[];
+  // custom dropdowns: the widget driver that committed the selection
+  driver?: WidgetDriverName;
+  // rich-text editors: the adapter that inserted the text
+  editor?: RichTextEditorName;
 }
 
 function isHTMLElement(el: Element): el is HTMLElement {
@@ -87,14 +109,25 @@ function createInputEvent(
   }
 }
 
+function keyCodeFor(key: string): { code: string; keyCode: number } {
+  if (key === 'Process') return { code: '', keyCode: 229 };
+  if (key === 'Backspace') return { code: 'Backspace', keyCode: 8 };
+  if (/^[a-z]$/i.test(key)) return { code: `Key${key.toUpperCase()}`, keyCode: key.toUpperCase().charCodeAt(0) };
+  if (/^[0-9]$/.test(key)) return { code: `Digit${key}`, keyCode: key.charCodeAt(0) };
+  if (key === ' ') return { code: 'Space', keyCode: 32 };
+  return { code: key.length === 1 ? '' : key, keyCode: key.length === 1 ? key.charCodeAt(0) : 0 };
+}
+
 function createKeyboardEvent(type: 'keydown' | 'keypress' | 'keyup', key: string): KeyboardEvent {
+  const { code, keyCode } = keyCodeFor(key);
   const init: KeyboardEventInit = {
     bubbles: true,
     cancelable: true,
     key,
-    code: key.length === 1 ? `Key${key.toUpperCase()}` : key,
-    charCode: key.length === 1 ? key.charCodeAt(0) : 0,
-    keyCode: key.length === 1 ? key.toUpperCase().charCodeAt(0) : 0
+    code,
+    shiftKey: key.length === 1 && key !== key.toLowerCase(),
+    charCode: type === 'keypress' && key.length === 1 ? key.charCodeAt(0) : 0,
+    keyCode: type === 'keypress' && key.length === 1 ? key.charCodeAt(0) : keyCode
   };
   try {
     return new KeyboardEvent(type, init);
@@ -192,6 +225,151 @@ export function setTextLikeValue(el: HTMLInputElement | HTMLTextAreaElement, val
   return { changed: before !== el.value };
 }
 
+const DEFAULT_TYPING_DELAY_MS = 30;
+const DEFAULT_TYPING_JITTER = 0.35;
+
+// Scripts typed through an IME: each character arrives as a composition
+const IME_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
+function createCompositionEvent(type: 'compositionstart' | 'compositionupdate' | 'compositionend', data: string): Event {
+  try {
+    return new CompositionEvent(type, { bubbles: true, cancelable: type === 'compositionstart', data });
+  } catch {
+    return new Event(type, { bubbles: true });
+  }
+}
+
+function typingPause(options: FillOptions): Promise<void> {
+  const base = Math.max(0, options.typingDelayMs ?? DEFAULT_TYPING_DELAY_MS);
+  const jitter = Math.min(1, Math.max(0, options.typingJitter ?? DEFAULT_TYPING_JITTER));
+  const ms = base * (1 + (Math.random() * 2 - 1) * jitter);
+  return new Promise((resolve) => {
+    if (options.signal?.aborted) return resolve();
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    options.signal?.addEventListener('abort', done, { once: true });
+  });
+}
+
+// Insert text at the caret (replacing the selection) like the browser would; email/number
+// inputs have no selection API, so text is appended there
+function insertAtCaret(
+  el: HTMLInputElement | HTMLTextAreaElement,
+  setter: ((this: unknown, v: unknown) => void) | null,
+  text: string
+): void {
+  let start: number | null = null;
+  let end: number | null = null;
+  try {
+    start = el.selectionStart;
+    end = el.selectionEnd;
+  } catch {
+    // selection not supported for this input type
+  }
+  const current = el.value;
+  const from = start ?? current.length;
+  const to = end ?? current.length;
+  const next = current.slice(0, from) + text + current.slice(to);
+  if (setter) setter.call(el, next);
+  else el.value = next;
+  try {
+    el.setSelectionRange(from + text.length, from + text.length);
+  } catch {
+    // ignore
+  }
+}
+
+function clearByTyping(el: HTMLInputElement | HTMLTextAreaElement, setter: ((this: unknown, v: unknown) => void) | null): void {
+  if (!el.value) return;
+  try {
+    el.setSelectionRange(0, el.value.length);
+  } catch {
+    // ignore
+  }
+  dispatch(el, createKeyboardEvent('keydown', 'Backspace'));
+  const before = createInputEvent('beforeinput', { inputType: 'deleteContentBackward', data: null });
+  dispatch(el, before);
+  if (!before.defaultPrevented) {
+    if (setter) setter.call(el, '');
+    else el.value = '';
+    dispatch(el, createInputEvent('input', { inputType: 'deleteContentBackward', data: null }));
+  }
+  dispatch(el, createKeyboardEvent('keyup', 'Backspace'));
+}
+
+function typeCharacter(el: HTMLInputElement | HTMLTextAreaElement, setter: ((this: unknown, v: unknown) => void) | null, ch: string): void {
+  if (IME_SCRIPT.test(ch)) {
+    dispatch(el, createKeyboardEvent('keydown', 'Process'));
+    dispatch(el, createCompositionEvent('compositionstart', ''));
+    dispatch(el, createCompositionEvent('compositionupdate', ch));
+    dispatch(el, createInputEvent('beforeinput', { inputType: 'insertCompositionText', data: ch, cancelable: false }));
+    insertAtCaret(el, setter, ch);
+    dispatch(el, createInputEvent('input', { inputType: 'insertCompositionText', data: ch, isComposing: true }));
+    dispatch(el, createCompositionEvent('compositionend', ch));
+    dispatch(el, createKeyboardEvent('keyup', 'Process'));
+    return;
+  }
+  const keydown = createKeyboardEvent('keydown', ch);
+  dispatch(el, keydown);
+  if (keydown.defaultPrevented) {
+    dispatch(el, createKeyboardEvent('keyup', ch));
+    return;
+  }
+  dispatch(el, createKeyboardEvent('keypress', ch));
+  const before = createInputEvent('beforeinput', { inputType: 'insertText', data: ch });
+  dispatch(el, before);
+  // A mask that cancels beforeinput inserts (or rejects) the character itself
+  if (!before.defaultPrevented) {
+    insertAtCaret(el, setter, ch);
+    dispatch(el, createInputEvent('input', { inputType: 'insertText', data: ch }));
+  }
+  dispatch(el, createKeyboardEvent('keyup', ch));
+}
+
+// Type a value character by character with a human cadence. Each character gets the full
+// keydown/keypress/beforeinput/input/keyup sequence (composition events for CJK and Hangul),
+// so mask libraries (Cleave, IMask, react-number-format) format it as they would for a user.
+// Aborting through options.signal stops typing and puts the previous value back.
+export async function typeTextLikeValue(
+  el: HTMLInputElement | HTMLTextAreaElement,
+  value: string,
+  options: FillOptions = {}
+): Promise<FillResult> {
+  if (el.readOnly || el.disabled) return { changed: false, message: 'readonly or disabled' };
+  const framework = effectiveFramework(el, options);
+  const setter = getPropertySetter(el, 'value');
+  const before = el.value;
+
+  focusIfNeeded(el);
+  clearByTyping(el, setter);
+
+  for (const ch of Array.from(value)) {
+    if (options.signal?.aborted) break;
+    focusIfNeeded(el);
+    typeCharacter(el, setter, ch);
+    await typingPause(options);
+  }
+
+  if (options.signal?.aborted) {
+    if (setter) setter.call(el, before);
+    else el.value = before;
+    dispatch(el, createInputEvent('input'));
+    return { changed: false, message: 'typing cancelled', cancelled: true };
+  }
+
+  if (framework === 'angular' || framework === 'none' || options.blurAfter) {
+    dispatch(el, createInputEvent('change'));
+  }
+  blurIfRequested(el, options);
+
+  const message = el.value !== value ? `typed "${value}", field shows "${el.value}"` : undefined;
+  return { changed: before !== el.value, ...(message ? { message } : {}) };
+}
+
 export function setContentEditableValue(el: HTMLElement, value: string, options: FillOptions = {}): FillResult {
   if (!el.isContentEditable) return { changed: false, message: 'not contenteditable' };
   const before = el.innerText;
@@ -290,35 +468,106 @@ export function setRadio(el: HTMLInputElement, options: FillOptions = {}): FillR
   return { changed: before !== el.checked };
 }
 
+// Check the radio of `el`'s group whose value or label matches `value`. An empty value clears a
+// native group, which is how undo restores a group nothing was checked in.
+export function setRadioGroup(el: HTMLElement, value: string, options: FillOptions = {}): FillResult {
+  const choices = radioChoices(el);
+  if (choices.length === 0) return { changed: false, message: 'not a radio group' };
+  if (!value.trim()) {
+    let changed = false;
+    for (const choice of choices) {
+      if (!(choice.element instanceof HTMLInputElement) || !choice.checked) continue;
+      const setter = getPropertySetter(choice.element, 'checked');
+      if (setter) setter.call(choice.element, false);
+      else choice.element.checked = false;
+      dispatch(choice.element, createInputEvent('change'));
+      changed = true;
+    }
+    return { changed };
+  }
+
+  const match = resolveSelectOption(
+    value,
+    choices.map((c) => ({ value: c.value, text: c.label, disabled: c.disabled }))
+  );
+  if (!match) return { changed: false, message: `no choice matches "${value}"` };
+  const target = choices[match.index];
+  if (target.element instanceof HTMLInputElement) {
+    const res = setRadio(target.element, options);
+    return { ...res, message: `selected ${describeOption(match)}`, selected: [match] };
+  }
+
+  // role="radio": the widget checks itself on click and reports it through aria-checked
+  focusIfNeeded(target.element);
+  target.element.click();
+  if (target.element.getAttribute('aria-checked') !== 'true') {
+    dispatch(target.element, createKeyboardEvent('keydown', ' '));
+    dispatch(target.element, createKeyboardEvent('keyup', ' '));
+  }
+  blurIfRequested(target.element, options);
+  const checked = target.element.getAttribute('aria-checked') === 'true';
+  return {
+    changed: checked && !target.checked,
+    message: checked ? `selected ${describeOption(match)}` : `${describeOption(match)} did not take the click`,
+    selected: checked ? [match] : undefined
+  };
+}
+
+export function selectOptionLikes(el: HTMLSelectElement): SelectOptionLike[] {
+  return Array.from(el.options).map((opt) => ({
+    value: opt.value,
+    text: opt.text,
+    label: opt.getAttribute('label') ?? undefined,
+    disabled: opt.disabled
+  }));
+}
+
+function describeOption(match: OptionMatch): string {
+  return `"${match.text || match.value}" (${match.reason}, ${match.confidence.toFixed(2)})`;
+}
+
 export function setSelectValue(el: HTMLSelectElement, value: string | string[], options: FillOptions = {}): FillResult {
   if (el.disabled) return { changed: false, message: 'disabled' };
 
   const isMultiple = el.multiple;
   const values = Array.isArray(value) ? value.map(String) : [String(value)];
-  const setter = getPropertySetter(el, 'value');
-  const before = Array.from(el.selectedOptions).map((o) => o.value);
+  const available = selectOptionLikes(el);
+  const matches: OptionMatch[] = [];
+  const unmatched: string[] = [];
+  for (const v of isMultiple ? values : values.slice(0, 1)) {
+    const match = resolveSelectOption(v, available);
+    if (match) matches.push(match);
+    else unmatched.push(v);
+  }
+  if (matches.length === 0) {
+    return { changed: false, message: `no option matches ${unmatched.map((v) => `"${v}"`).join(', ')}` };
+  }
+
+  const setSelected = (opt: HTMLOptionElement, sel: boolean) => {
+    const s = getPropertySetter(opt, 'selected');
+    if (s) s.call(opt, sel);
+    else opt.selected = sel;
+  };
   let changed = false;
 
   if (isMultiple) {
-    const setSelected = (opt: HTMLOptionElement, sel: boolean) => {
-      const s = getPropertySetter(opt, 'selected');
-      if (s) s.call(opt, sel);
-      else opt.selected = sel;
-    };
-    const optionsList = Array.from(el.options);
-    const wanted = new Set(values);
-    for (const opt of optionsList) {
-      const shouldSel = wanted.has(opt.value);
+    const wanted = new Set(matches.map((m) => m.index));
+    Array.from(el.options).forEach((opt, index) => {
+      const shouldSel = wanted.has(index);
       if (opt.selected !== shouldSel) {
         setSelected(opt, shouldSel);
         changed = true;
       }
-    }
+    });
   } else {
-    const val = values[0] ?? '';
-    if (setter) setter.call(el, val);
-    else el.value = val;
-    changed = before[0] !== el.value;
+    const beforeIndex = el.selectedIndex;
+    const target = matches[0];
+    const setter = getPropertySetter(el, 'value');
+    if (setter) setter.call(el, target.value);
+    else el.value = target.value;
+    // Several options may share a value; make sure the resolved one is selected
+    if (el.selectedIndex !== target.index) setSelected(el.options[target.index], true);
+    changed = beforeIndex !== el.selectedIndex;
   }
 
   // React listens on change for select
@@ -327,32 +576,105 @@ export function setSelectValue(el: HTMLSelectElement, value: string | string[],
 
   blurIfRequested(el, options);
 
-  return { changed };
+  const message = [
+    `selected ${matches.map(describeOption).join(', ')}`,
+    unmatched.length ? `no option matches ${unmatched.map((v) => `"${v}"`).join(', ')}` : ''
+  ]
+    .filter(Boolean)
+    .join('; ');
+  return { changed, message, selected: matches };
+}
+
+// Put files into <input type=file> through a DataTransfer. Files the `accept` attribute rules out
+// are skipped, and a single-file input takes the first remaining one.
+export function setFileInputValue(el: HTMLInputElement, files: File[], options: FillOptions = {}): FillResult {
+  if (el.disabled) return { changed: false, message: 'disabled' };
+  const accepted = files.filter((f) => matchesAccept(f, el.accept));
+  const chosen = el.multiple ? accepted : accepted.slice(0, 1);
+  if (files.length > 0 && chosen.length === 0) {
+    return { changed: false, message: `no attachment matches accept="${el.accept}"` };
+  }
+  const before = Array.from(el.files || []).map((f) => `${f.name}:${f.size}`).join('|');
+  const transfer = new DataTransfer();
+  for (const file of chosen) transfer.items.add(file);
+  el.files = transfer.files;
+
+  dispatch(el, createInputEvent('input'));
+  dispatch(el, createInputEvent('change'));
+  blurIfRequested(el, options);
+
+  const after = chosen.map((f) => `${f.name}:${f.size}`).join('|');
+  const skipped = files.length - chosen.length;
+  return {
+    changed: before !== after,
+    message: skipped > 0 ? `attached ${chosen.length}, skipped ${skipped} (accept/multiple)` : undefined
+  };
+}
+
+// Material UI / Ant Design wrappers often use underlying input element
+function resolveInputLike(el: HTMLElement): HTMLElement {
+  if (isInput(el) || isTextArea(el) || isSelect(el)) return el;
+  // MUI InputBase>input
+  const input = el.querySelector('input, textarea, select');
+  if (input && input instanceof HTMLElement) return input;
+  return el;
+}
+
+// common masked input detection heuristics
+function looksMasked(el: HTMLInputElement, options: FillOptions): boolean {
+  return (
+    !!options.simulateTyping ||
+    /mask|inputmask|cleave|numberformat/i.test([el.placeholder, el.name, el.className].filter(Boolean).join(' ')) ||
+    // mask placeholders such as '__/__/____' or '(___) ___-____'
+    /_{2,}/.test(el.placeholder)
+  );
+}
+
+// Stored strings such as "no" or "false" mean unchecked, not any non-empty string
+function checkedFromValue(value: unknown): boolean {
+  if (typeof value === 'string') return !/^\s*(|false|no|off|0|unchecked)\s*$/i.test(value);
+  return Boolean(value);
+}
+
+function fillFaceElement(el: HTMLElement, value: unknown, options: FillOptions): FillResult {
+  return fillCustomElement(el, isCheckableCustomElement(el) ? checkedFromValue(value) : value, options);
 }
 
 export function fillElement(el: Element, value: unknown, options: FillOptions = {}): FillResult {
   if (!isHTMLElement(el)) return { changed: false, message: 'not an HTMLElement' };
 
-  // Material UI / Ant Design wrappers often use underlying input element
-  const inputLike = ((): HTMLElement | null => {
-    if (isInput(el) || isTextArea(el) || isSelect(el)) return el;
-    // MUI InputBase>input
-    const input = el.querySelector('input, textarea, select');
-    if (input && input instanceof HTMLElement) return input;
-    return el;
-  })();
+  // Form-associated custom elements take the value on the element, not on the inputs they render
+  if (isFormAssociatedCustomElement(el)) return fillFaceElement(el, value, options);
+
+  // Custom dropdowns commit through their popup, which needs the async path; typing into them
+  // leaves a query that is never picked
+  const widget = detectWidget(el);
+  if (widget && !acceptsTypedText(widget)) {
+    return { changed: false, message: `${widget.driver.name} dropdown is filled through fillElementAsync` };
+  }
+
+  if (isCustomRadioGroup(el)) return setRadioGroup(el, String(value ?? ''), options);
+
+  const editor = detectRichTextEditor(el);
+  if (editor) return fillRichText(editor, String(value ?? ''), options);
+
+  const inputLike = resolveInputLike(el);
 
   if (isInput(inputLike)) {
     const type = inputLike.type.toLowerCase();
-    if (type === 'checkbox') return setCheckbox(inputLike, Boolean(value), options);
-    if (type === 'radio') return setRadio(inputLike, options);
-    // common masked input detection heuristics
-    const looksMasked =
-      !!options.simulateTyping ||
-      /mask|inputmask|cleave|numberformat/i.test(
-        [inputLike.placeholder, inputLike.name, inputLike.className].filter(Boolean).join(' ')
-      );
-    return setTextLikeValue(inputLike, String(value ?? ''), { ...options, simulateTyping: looksMasked });
+    if (type === 'checkbox') return setCheckbox(inputLike, checkedFromValue(value), options);
+    if (type === 'radio') {
+      // true/false keeps the old meaning for a lone radio: check this one
+      if (typeof value === 'boolean' || !isRadioGroup(inputLike)) return setRadio(inputLike, options);
+      return setRadioGroup(inputLike, String(value ?? ''), options);
+    }
+    if (type === 'file') {
+      // File inputs take File objects only; attachment references are resolved by the caller
+      const files = (Array.isArray(value) ? value : [value]).filter((v): v is File => v instanceof File);
+      if (files.length === 0 && value != null && !Array.isArray(value)) return { changed: false, message: 'file inputs take File objects' };
+      return setFileInputValue(inputLike, files, options);
+    }
+    return setTextLikeValue(inputLike, String(value ?? ''), { ...options, simulateTyping: looksMasked(inputLike, options) });
   }
 
   if (isTextArea(inputLike)) {
@@ -368,7 +690,8 @@ export function fillElement(el: Element, value: unknown, options: FillOptions =
   }
 
   // ARIA role based textboxes
-  const role = inputLike.getAttribute('role');
+  // the contenteditable guard above narrows inputLike to never, though any element can carry a role
+  const role = (inputLike as HTMLElement).getAttribute('role');
   if (role && /^(textbox|searchbox|combobox)$/i.test(role)) {
     return setContentEditableValue(inputLike, String(value ?? ''), options);
   }
@@ -376,6 +699,40 @@ export function fillElement(el: Element, value: unknown, options: FillOptions =
   return { changed: false, message: 'unsupported element' };
 }
 
+// Like fillElement, but text fields that want typing (masked inputs, or simulateTyping) are typed
+// asynchronously at FillOptions.typingDelayMs instead of in one synchronous burst, and custom
+// dropdowns are driven through their popup
+export async function fillElementAsync(el: Element, value: unknown, options: FillOptions = {}): Promise<FillResult> {
+  if (!isHTMLElement(el)) return { changed: false, message: 'not an HTMLElement' };
+  if (isFormAssociatedCustomElement(el)) return fillFaceElement(el, value, options);
+  const widget = detectWidget(el);
+  if (widget) {
+    const res = await fillWidget(widget, value, options);
+    if (res) return res;
+  }
+  const editor = detectRichTextEditor(el);
+  if (editor) return fillRichTextAsync(editor, String(value ?? ''), options);
+  const inputLike = resolveInputLike(el);
+  const typeable =
+    (isInput(inputLike) && !/^(checkbox|radio|file)$/i.test(inputLike.type) && looksMasked(inputLike, options)) ||
+    (isTextArea(inputLike) && !!options.simulateTyping);
+  if (typeable) {
+    return typeTextLikeValue(inputLike as HTMLInputElement | HTMLTextAreaElement, String(value ?? ''), options);
+  }
+  return fillElement(el, value, options);
+}
+
+// Put back what a field held before a fill (undo). Custom dropdowns are emptied and re-picked
+// through their driver, since fillElement refuses them; other fields are written like a fill.
+export async function restoreElementAsync(el: Element, value: unknown, options: FillOptions = {}): Promise<FillResult> {
+  const widget = isHTMLElement(el) && !isFormAssociatedCustomElement(el) ? detectWidget(el) : null;
+  if (widget && !acceptsTypedText(widget)) {
+    const values = (Array.isArray(value) ? value : [value]).map((v) => String(v ?? '').trim()).filter(Boolean);
+    return restoreWidget(widget, values, options);
+  }
+  return fillElement(el, value, options);
+}
+
 // Convenience helpers to fill by label text where possible
 export function findCandidateByLabelText(root: ParentNode, text: string): HTMLElement | null {
   text = text.trim().toLowerCase();
@@ -408,10 +765,14 @@ export function findCandidateByLabelText(root: ParentNode, text: string): HTMLEl
 try {
   (window as unknown as Record<string, unknown>).__AIAutoFill__ = {
     fillElement,
+    fillElementAsync,
     setTextLikeValue,
+    typeTextLikeValue,
     setSelectValue,
     setCheckbox,
     setRadio,
+    setRadioGroup,
+    setFileInputValue,
     detectFramework
   };
 } catch {
@@ -0,0 +1,103 @@
+/*
+  Frame agent: the content script of every frame below the top one (frames.ts)
+  - Relays offset hellos from its own child frames up to its parent
+  - A frame its parent cannot reach scans itself, reports each scan to the top frame through the
+    worker, and runs the fills the top frame routes back to it
+  - Only frames that have (or later get) form controls start reporting; ad, analytics and embed
+    frames keep to the relay. The scanner loads when reporting starts, the fill state on the first fill.
+*/
+
+import type { ScanResult } from './domScanner';
+import { createFrameToken, isReachableFromParent, isTopFrame, listenForFrameHellos, postFrameHello } from './frames';
+import { sendRuntimeMessage, type FrameMessage } from '../core/messages';
+
+// Anything the scanner could report: native controls, editable regions, ARIA widgets and
+// form-associated custom elements (submittable, so :valid / :invalid). Controls only inside shadow
+// roots do not count until one of these shows in the document.
+const FORM_CONTROL_SELECTOR = [
+  'input:not([type="hidden"])',
+  'select',
+  'textarea',
+  '[contenteditable]:not([contenteditable="false"])',
+  '[role="textbox"]',
+  '[role="combobox"]',
+  ':is(:valid, :invalid):not(button, fieldset, form, input, object, output, select, textarea)'
+].join(', ');
+
+function hasFormControls(): boolean {
+  try {
+    return document.querySelector(FORM_CONTROL_SELECTOR) !== null;
+  } catch {
+    return false;
+  }
+}
+
+// Calls `start` once the frame has a form control, right away or when one is added
+function whenFormControlsAppear(start: () => void): void {
+  if (hasFormControls()) {
+    start();
+    return;
+  }
+  const observer = new MutationObserver(() => {
+    if (!hasFormControls()) return;
+    observer.disconnect();
+    start();
+  });
+  observer.observe(document.documentElement, { childList: true, subtree: true });
+  window.addEventListener('pagehide', () => observer.disconnect(), { once: true });
+}
+
+function reportScan(token: string, scan: ScanResult | null): void {
+  sendRuntimeMessage({ type: 'FRAME_SCAN', token, scan }).catch(() => undefined);
+}
+
+async function startReporting(): Promise<void> {
+  const [{ startDomScanner }, { ensureOverlayStyles }] = await Promise.all([import('./domScanner'), import('./ui/styles')]);
+  const token = createFrameToken();
+  let lastScan: ScanResult | null = null;
+  // fills in progress, by the top frame's fill id, until they finish or are cancelled
+  const running = new Map<string, AbortController>();
+  // highlights of filled fields
+  ensureOverlayStyles();
+
+  const scanner = startDomScanner({
+    onCandidates: (result) => {
+      lastScan = result;
+      reportScan(token, result);
+      postFrameHello(token);
+    }
+  });
+
+  chrome.runtime.onMessage.addListener((msg: FrameMessage | undefined, _sender, sendResponse) => {
+    if (msg?.type === 'FRAME_FILL_ABORT') {
+      running.get(msg.fillId)?.abort();
+      return;
+    }
+    if (msg?.type !== 'FRAME_FILL_RUN') return;
+    const { command } = msg;
+    const controller = new AbortController();
+    running.set(command.fillId, controller);
+    void import('./ui/state')
+      .then(({ runFrameFill }) => runFrameFill(command, lastScan?.candidates ?? [], controller.signal))
+      .catch((error: unknown) => ({ found: false, changed: false, message: error instanceof Error ? error.message : String(error) }))
+      .then((result) => {
+        running.delete(command.fillId);
+        sendResponse(result);
+      });
+    return true;
+  });
+
+  window.addEventListener(
+    'pagehide',
+    () => {
+      scanner.stop();
+      reportScan(token, null);
+    },
+    { once: true }
+  );
+}
+
+if (!isTopFrame()) {
+  listenForFrameHellos();
+  if (!isReachableFromParent()) whenFormControlsAppear(() => void startReporting());
+}
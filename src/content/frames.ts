@@ -0,0 +1,287 @@
+/*
+  Cross-origin frames
+  - The content script's frame agent runs in every frame. A frame its parent can reach (same origin)
+    is scanned by the parent's scanner; a frame it cannot reach scans itself once it has form
+    controls and reports the result
+  - Reports travel through the worker, which knows the sender's frameId and hands them to the top frame
+  - The top frame's coordinator merges its own scan with the reports: candidate and group ids get a
+    `frame-<frameId>::` prefix, candidates carry `frameId`, rects move by the frame's offset
+  - Offsets: a reporting frame posts a hello with its token to its parent; each frame on the way up
+    adds the offset of the <iframe> the hello came through, and the top frame keeps the last <iframe>
+    so the offset follows scrolling
+  - Hellos are only taken from the windows of this document's own child frames, and are posted to
+    the parent's origin where the browser tells it (location.ancestorOrigins)
+  - Fills and undos of a merged candidate go back to its frame through the worker (FRAME_FILL); a
+    cancelled fill sends FRAME_FILL_CANCEL after it, and the frame stops typing
+*/
+
+import type { Candidate, FormGroup, Rect, ScanDelta, ScanResult } from './domScanner';
+import { sendRuntimeMessage, type FrameFillCommand, type FrameFillResult } from '../core/messages';
+
+const HELLO_SOURCE = 'aiaf-frame-hello';
+
+interface FrameHello {
+  source: typeof HELLO_SOURCE;
+  token: string;
+  // offset of the reporting frame's viewport inside the frame the hello was posted to
+  top: number;
+  left: number;
+}
+
+interface FrameOffset {
+  // <iframe> of the top document the hello came through
+  iframe: HTMLIFrameElement | null;
+  // offset below that <iframe>, for frames nested deeper
+  top: number;
+  left: number;
+}
+
+interface FrameReport {
+  token: string;
+  scan: ScanResult;
+}
+
+export function isTopFrame(): boolean {
+  return window === window.top;
+}
+
+// Whether the parent frame's scanner can reach this frame's document
+export function isReachableFromParent(): boolean {
+  if (isTopFrame()) return true;
+  try {
+    return Boolean(window.parent.document);
+  } catch {
+    return false;
+  }
+}
+
+export function createFrameToken(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+function isFrameHello(data: unknown): data is FrameHello {
+  const hello = data as Partial<FrameHello> | null;
+  return (
+    !!hello &&
+    hello.source === HELLO_SOURCE &&
+    typeof hello.token === 'string' &&
+    typeof hello.top === 'number' &&
+    typeof hello.left === 'number'
+  );
+}
+
+// Whether a message came from one of this document's child frames, not from elsewhere in the page
+// or another window that holds a reference to it
+function isChildFrameWindow(source: MessageEventSource | null): boolean {
+  if (!source) return false;
+  for (let i = 0; i < window.frames.length; i++) {
+    if (window.frames[i] === source) return true;
+  }
+  return false;
+}
+
+// The <iframe> element of a child frame; null for frames inside shadow roots
+function iframeOfWindow(source: MessageEventSource | null): HTMLIFrameElement | null {
+  if (!source) return null;
+  for (const iframe of Array.from(document.querySelectorAll('iframe'))) {
+    if (iframe.contentWindow === source) return iframe;
+  }
+  return null;
+}
+
+// '*' when the parent's origin is unknown or opaque (sandboxed frames)
+function parentOrigin(): string {
+  const origin = window.location.ancestorOrigins?.[0];
+  return origin && origin !== 'null' ? origin : '*';
+}
+
+// Viewport offset of an <iframe>'s content: its box plus its border
+function iframeContentOffset(iframe: HTMLIFrameElement): { top: number; left: number } {
+  const rect = iframe.getBoundingClientRect();
+  return { top: rect.top + iframe.clientTop, left: rect.left + iframe.clientLeft };
+}
+
+export function postFrameHello(token: string): void {
+  const hello: FrameHello = { source: HELLO_SOURCE, token, top: 0, left: 0 };
+  try {
+    window.parent.postMessage(hello, parentOrigin());
+  } catch {
+    // ignore
+  }
+}
+
+// Hellos from child frames: frames below the top add their <iframe>'s offset and pass them up,
+// the top frame hands them to `onHello` with the <iframe> they came through
+export function listenForFrameHellos(onHello?: (hello: FrameHello, iframe: HTMLIFrameElement | null) => void): () => void {
+  const handler = (event: MessageEvent) => {
+    if (!isFrameHello(event.data) || !isChildFrameWindow(event.source)) return;
+    const iframe = iframeOfWindow(event.source);
+    if (onHello) {
+      onHello(event.data, iframe);
+      return;
+    }
+    if (isTopFrame()) return;
+    const offset = iframe ? iframeContentOffset(iframe) : { top: 0, left: 0 };
+    const hello: FrameHello = {
+      ...event.data,
+      top: event.data.top + offset.top,
+      left: event.data.left + offset.left
+    };
+    try {
+      window.parent.postMessage(hello, parentOrigin());
+    } catch {
+      // ignore
+    }
+  };
+  window.addEventListener('message', handler);
+  return () => window.removeEventListener('message', handler);
+}
+
+// Coordinator (top frame only)
+const reports = new Map<number, FrameReport>();
+const offsets = new Map<string, FrameOffset>();
+let localScan: ScanResult | null = null;
+let mergedVersion = 0;
+let onMerged: ((result: ScanResult) => void) | null = null;
+let stopHellos: (() => void) | null = null;
+
+const ID_PREFIX = /^frame-\d+::/;
+
+function prefixed(frameId: number, id: string): string {
+  return `frame-${frameId}::${id}`;
+}
+
+// The candidate's id in its own frame's scan
+export function remoteCandidateId(cand: Candidate): string {
+  return cand.id.replace(ID_PREFIX, '');
+}
+
+function frameOffset(token: string): { top: number; left: number } {
+  const offset = offsets.get(token);
+  if (!offset) return { top: 0, left: 0 };
+  const outer = offset.iframe?.isConnected ? iframeContentOffset(offset.iframe) : { top: 0, left: 0 };
+  return { top: outer.top + offset.top, left: outer.left + offset.left };
+}
+
+function moveRect(rect: Rect, by: { top: number; left: number }): Rect {
+  return {
+    ...rect,
+    top: rect.top + by.top,
+    bottom: rect.bottom + by.top,
+    left: rect.left + by.left,
+    right: rect.right + by.left
+  };
+}
+
+// Viewport rect of a merged candidate of a cross-origin frame, with the frame's current offset
+export function frameViewportRect(cand: Candidate): Rect | null {
+  if (cand.frameId == null) return null;
+  const report = reports.get(cand.frameId);
+  const own = report?.scan.candidates.find((c) => c.id === remoteCandidateId(cand));
+  return own ? moveRect(own.viewportRect, frameOffset(report!.token)) : null;
+}
+
+function mergeReport(frameId: number, report: FrameReport): { candidates: Candidate[]; formGroups: FormGroup[] } {
+  const by = frameOffset(report.token);
+  const candidates = report.scan.candidates.map((cand) => ({
+    ...cand,
+    id: prefixed(frameId, cand.id),
+    formGroupId: prefixed(frameId, cand.formGroupId),
+    frameId,
+    viewportRect: moveRect(cand.viewportRect, by)
+  }));
+  const formGroups = report.scan.formGroups.map((group) => ({
+    ...group,
+    id: prefixed(frameId, group.id),
+    candidateIds: group.candidateIds.map((id) => prefixed(frameId, id)),
+    outlineRect: moveRect(group.outlineRect, by)
+  }));
+  return { candidates, formGroups };
+}
+
+// `delta` is the local scan's, when it is what changed; a frame's report publishes without one.
+// `revealed` belongs to the scan that triggered the publish, local or reported.
+function publish(delta?: ScanDelta, revealed?: string[]): void {
+  if (!onMerged || !localScan) return;
+  const merged: ScanResult = {
+    ...localScan,
+    version: ++mergedVersion,
+    candidates: [...localScan.candidates],
+    formGroups: [...localScan.formGroups],
+    incremental: delta ? localScan.incremental : undefined,
+    delta,
+    revealed
+  };
+  for (const [frameId, report] of reports) {
+    const part = mergeReport(frameId, report);
+    merged.candidates.push(...part.candidates);
+    merged.formGroups.push(...part.formGroups);
+  }
+  onMerged(merged);
+}
+
+export function startFrameCoordinator(publishMerged: (result: ScanResult) => void): () => void {
+  onMerged = publishMerged;
+  stopHellos?.();
+  stopHellos = listenForFrameHellos((hello, iframe) => {
+    const known = offsets.get(hello.token);
+    offsets.set(hello.token, { iframe, top: hello.top, left: hello.left });
+    // the first hello of a frame may arrive after its report
+    if (!known && Array.from(reports.values()).some((r) => r.token === hello.token)) publish();
+  });
+  return () => {
+    stopHellos?.();
+    stopHellos = null;
+    onMerged = null;
+    reports.clear();
+    offsets.clear();
+    localScan = null;
+  };
+}
+
+// The top frame's own scan
+export function mergeLocalScan(result: ScanResult): void {
+  localScan = result;
+  publish(result.delta, result.revealed);
+}
+
+export function receiveFrameReport(frameId: number, token: string, scan: ScanResult | null): void {
+  const previous = reports.get(frameId);
+  if (previous && previous.token !== token) offsets.delete(previous.token);
+  if (scan) reports.set(frameId, { token, scan });
+  else {
+    reports.delete(frameId);
+    offsets.delete(token);
+  }
+  publish(undefined, scan?.revealed?.map((id) => prefixed(frameId, id)));
+}
+
+// Fill a merged candidate in the frame that reported it. Aborting `signal` stops the frame's typing.
+export async function sendFrameFill(
+  cand: Candidate,
+  value: unknown,
+  highlight: FrameFillCommand['highlight'],
+  signal?: AbortSignal
+): Promise<FrameFillResult> {
+  const frameId = cand.frameId;
+  if (frameId == null) return { found: false, changed: false, message: 'not a frame field' };
+  if (signal?.aborted) return { found: false, changed: false, message: 'fill cancelled', cancelled: true };
+  const fillId = createFrameToken();
+  const cancel = () => {
+    sendRuntimeMessage({ type: 'FRAME_FILL_CANCEL', frameId, fillId }).catch(() => undefined);
+  };
+  signal?.addEventListener('abort', cancel, { once: true });
+  try {
+    const res = await sendRuntimeMessage<FrameFillResult>({
+      type: 'FRAME_FILL',
+      frameId,
+      command: { candidateId: remoteCandidateId(cand), fillId, value, highlight }
+    });
+    if (!res.success || !res.data) return { found: false, changed: false, message: res.error || 'frame did not answer' };
+    return res.data;
+  } catch (error) {
+    return { found: false, changed: false, message: error instanceof Error ? error.message : String(error) };
+  } finally {
+    signal?.removeEventListener('abort', cancel);
+  }
+}
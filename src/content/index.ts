@@ -1,4 +1,7 @@
-import { startDomScanner, type Candidate, type DomScannerController } from './domScanner';
+import { startDomScanner, type Candidate, type DomScannerController, type ScanResult } from './domScanner';
+import { mergeLocalScan, receiveFrameReport, startFrameCoordinator } from './frames';
+import { resumeWizard, startWizard, startWizardSessions } from './wizard';
+import { mainWorldBridgeStatus } from './customElements';
 import App from './ui/App.svelte';
 import {
   keys,
@@ -7,31 +10,52 @@ import {
   recomputeBatch,
   applyAll,
   undoAll,
+  undoStep,
+  redoStep,
+  fillHistory,
+  planFill,
+  commitPlan,
+  revealedFills,
+  fillRevealedFields,
   batch,
-  readCandidateValue,
+  readTemplateValue,
   candidatesView,
   getElementForCandidate,
   scan as scanStore,
   isApplied,
+  appliedKeys,
+  wizardSession,
+  completedWizard,
   templatesStore,
   sessionUnlocked,
   effectiveMode as effectiveModeStore,
   runtimeSettings,
   semanticEndpoint,
+  type FillPlanCommit,
+  type FillStep,
   type KeyConfig
 } from './ui/state';
-import { DEFAULT_KEYS, DEFAULT_VALUES, SYNONYMS_OVERLAY } from './ui/keys';
-import type { SemanticConfig } from '../lib/semantic';
-import { sendRuntimeMessage, type SettingsSnapshot, type TemplateListResult } from '../core/messages';
+import { DEFAULT_KEYS, DEFAULT_KEY_PATHS, DEFAULT_VALUES, SYNONYMS_OVERLAY } from './ui/keys';
+import { migrateTemplateValues, ontologyKeysFor, scopedOntologyEntries } from '../lib/ontologyRegistry';
+import { COMPOSITE_MULTI_FIELD_KEYS, deriveCompositeValues } from '../lib/composite';
+import type { SemanticConfig, SemanticProviderKind } from '../lib/semantic';
+import {
+  sendRuntimeMessage,
+  type FrameMessage,
+  type SettingsSnapshot,
+  type TemplateListResult
+} from '../core/messages';
 import { SETTINGS_STORAGE_KEY } from '../core/storage/keys';
 import {
   normaliseRuntimeSettings,
   effectiveMode,
+  effectiveSemanticProvider,
   type RuntimeSettings,
   type TemplateModel,
   type Mode
 } from '../core/model/schemas';
-import type { BatchMatchResult, MatchResult } from '../lib/fieldMatcher';
+import { bestMatchForKey, type BatchMatchResult, type MatchResult } from '../lib/fieldMatcher';
+import { createCorpusEntry } from '../lib/evaluation';
 import { get } from 'svelte/store';
 
 console.info('AIAutoFill content script loaded');
@@ -81,6 +105,7 @@ interface ExtensionSettings {
   effectiveMode: Mode;
   unlocked: boolean;
   semanticEndpoint: string;
+  semanticProvider: SemanticProviderKind;
 }
 
 let cachedRuntime: RuntimeSettings | null = null;
@@ -119,7 +144,8 @@ function extensionSettingsFrom(
     semanticMatching: !offlineMode,
     effectiveMode: mode,
     unlocked,
-    semanticEndpoint: runtime.semanticEndpoint
+    semanticEndpoint: runtime.semanticEndpoint,
+    semanticProvider: effectiveSemanticProvider(runtime, currentOrigin)
   };
 }
 
@@ -163,7 +189,9 @@ async function loadSettings(): Promise<ExtensionSettings> {
       runtime = normaliseRuntimeSettings({
         mode: snap.mode,
         overrides: snap.overrides,
-        semanticEndpoint: snap.semanticEndpoint
+        semanticEndpoint: snap.semanticEndpoint,
+        semanticProvider: snap.semanticProvider,
+        consentPolicy: snap.consentPolicy
       });
       unlocked = Boolean(snap.unlocked);
       if (unlocked) {
@@ -212,12 +240,17 @@ async function refreshTemplates(): Promise<void> {
 }
 
 function computeSemanticConfig(settings: ExtensionSettings): SemanticConfig | undefined {
-  if (!envSemanticEnabled) return undefined;
-  if (!embeddingsUrl) return undefined;
   if (settings.offlineMode) return undefined;
   if (!settings.semanticMatching) return undefined;
+  // The on-device provider needs no endpoint, so it does not depend on the build-time flag
+  if (settings.semanticProvider === 'local') {
+    return { enabled: true, provider: 'local', weight: semanticWeight };
+  }
+  if (!envSemanticEnabled) return undefined;
+  if (!embeddingsUrl) return undefined;
   return {
     enabled: true,
+    provider: 'remote',
     apiUrl: embeddingsUrl,
     model: embeddingsModel,
     batchSize: embeddingsBatchSize,
@@ -228,23 +261,44 @@ function computeSemanticConfig(settings: ExtensionSettings): SemanticConfig | un
   };
 }
 
-function matcherConfig(): { synonyms: typeof SYNONYMS_OVERLAY; semantic?: SemanticConfig } {
-  return { synonyms: SYNONYMS_OVERLAY, semantic: semanticCfg };
+function matcherConfig(): { synonyms: typeof SYNONYMS_OVERLAY; multiFieldKeys: string[]; semantic?: SemanticConfig } {
+  return { synonyms: SYNONYMS_OVERLAY, multiFieldKeys: COMPOSITE_MULTI_FIELD_KEYS, semantic: semanticCfg };
 }
 
 function buildKeyConfigs(values: Record<string, unknown> | undefined, fallbackToDefaults: boolean): KeyConfig[] {
-  return DEFAULT_KEYS.map((ontologyKey) => {
-    const hasOverride = values ? Object.prototype.hasOwnProperty.call(values, ontologyKey.key) : false;
-    if (hasOverride && values) {
-      return { key: ontologyKey, value: values[ontologyKey.key] };
+  // Template values may still use legacy keys (e.g. `contact.email`, `email`); the matcher keys on canonical paths
+  const resolved = values ? deriveCompositeValues(migrateTemplateValues(values).values) : undefined;
+  const extraKeys = resolved
+    ? ontologyKeysFor(Object.keys(resolved)).filter((k) => !DEFAULT_KEY_PATHS.includes(k.key))
+    : [];
+  const ontologyKeys = [...DEFAULT_KEYS, ...extraKeys];
+  return ontologyKeys.map((ontologyKey): KeyConfig => {
+    const scopedValues = resolved ? scopedValuesFor(ontologyKey.key, resolved) : undefined;
+    const scoped = scopedValues ? { scopedValues } : {};
+    const hasOverride = resolved ? Object.prototype.hasOwnProperty.call(resolved, ontologyKey.key) : false;
+    if (hasOverride && resolved) {
+      return { key: ontologyKey, value: resolved[ontologyKey.key] as KeyConfig['value'], ...scoped };
     }
     if (fallbackToDefaults) {
-      return { key: ontologyKey, value: DEFAULT_VALUES[ontologyKey.key] };
+      return { key: ontologyKey, value: DEFAULT_VALUES[ontologyKey.key] as KeyConfig['value'], ...scoped };
     }
-    return { key: ontologyKey, value: undefined };
+    return { key: ontologyKey, value: undefined, ...scoped };
   });
 }
 
+// Scoped template values of a key (`billingAddress.city` for `address.city`), keyed by autocomplete scope
+function scopedValuesFor(key: string, values: Record<string, unknown>): KeyConfig['scopedValues'] | undefined {
+  const out: NonNullable<KeyConfig['scopedValues']> = {};
+  let found = false;
+  for (const entry of scopedOntologyEntries(key)) {
+    const value = values[entry.path];
+    if (value == null || !entry.scope) continue;
+    out[entry.scope] = value as KeyConfig['value'];
+    found = true;
+  }
+  return found ? out : undefined;
+}
+
 function templateValues(settings: ExtensionSettings): Record<string, unknown> | undefined {
   const template = findTemplate(settings, settings.quickFillTemplateId || settings.quickExtractTemplateId);
   return template?.values;
@@ -263,6 +317,8 @@ function applySettings(settings: ExtensionSettings): void {
   keys.set(configs);
   void recomputeBatch(matcherConfig());
   refreshHighlights();
+  // a wizard step waits for the session's template, which arrives with the unlocked templates
+  void resumeWizard();
 }
 
 async function initialiseSettings(): Promise<void> {
@@ -288,6 +344,12 @@ const initialConfigs = buildKeyConfigs(undefined, true);
 keys.set(initialConfigs);
 void recomputeBatch(matcherConfig());
 
+// Cross-origin frames report their own scans; the page's view is this frame's scan merged with theirs
+const stopFrameCoordinator = startFrameCoordinator((merged) => {
+  updateScan(merged, matcherConfig());
+  refreshHighlights();
+});
+
 const scanner = startDomScanner({
   onCandidates: (result) => {
     const count = result.candidates.length;
@@ -303,14 +365,24 @@ const scanner = startDomScanner({
       result.durationMs
     );
     const w = window as unknown as Record<string, unknown>;
-    w.__AIAutoFill_lastScan__ = result;
+    w.__AIAutoFill_lastScan__ = withCorpusExport(result);
 
-    // feed into UI state and refresh highlights
-    updateScan(result, matcherConfig());
-    refreshHighlights();
+    // feed into UI state (merged with cross-origin frames) and refresh highlights
+    mergeLocalScan(result);
+    void resumeWizard();
   }
 });
 
+// Fill a step of the tab's wizard session from its template
+async function fillWizardTemplate(templateId: string): Promise<string[] | null> {
+  const template = cachedTemplates.find((t) => t.id === templateId);
+  if (!template || !get(scanStore)?.candidates.length) return null;
+  await applyTemplate(template.values);
+  return appliedKeys();
+}
+
+const stopWizardSessions = startWizardSessions(fillWizardTemplate, () => scanner.rescanNow());
+
 let overlayDestroyed = false;
 const destroyOverlay = () => {
   if (overlayDestroyed) return;
@@ -320,6 +392,8 @@ const destroyOverlay = () => {
   } catch (error) {
     console.warn('[AIAutoFill] error stopping scanner', error);
   }
+  stopFrameCoordinator();
+  stopWizardSessions();
   try {
     app.$destroy();
   } catch (error) {
@@ -347,7 +421,7 @@ async function applyTemplate(values: Record<string, unknown> | undefined): Promi
   const configs = buildKeyConfigs(values, false);
   keys.set(configs);
   await recomputeBatch(matcherConfig());
-  const applied = applyAll();
+  const applied = await applyAll();
   refreshHighlights();
   return applied;
 }
@@ -356,10 +430,8 @@ function bestMatches(): Map<string, MatchResult> {
   const out = new Map<string, MatchResult>();
   const currentBatch: BatchMatchResult | null = get(batch);
   if (!currentBatch) return out;
-  const entries = Object.entries(currentBatch.byKey || {});
-  for (const [key, list] of entries) {
-    if (!Array.isArray(list) || list.length === 0) continue;
-    const best = list[0];
+  for (const key of Object.keys(currentBatch.byKey || {})) {
+    const best = bestMatchForKey(currentBatch, key);
     if (!best || best.tier === 'reject') continue;
     out.set(key, best);
   }
@@ -371,7 +443,7 @@ function extractCurrentValues(): Record<string, unknown> {
   if (matches.size === 0) return {};
   const result: Record<string, unknown> = {};
   for (const [key, match] of matches.entries()) {
-    const value = readCandidateValue(match.candidate);
+    const value = readTemplateValue(match.candidate, key);
     if (value == null) continue;
     if (typeof value === 'string' && value.trim().length === 0) continue;
     result[key] = value;
@@ -386,6 +458,12 @@ chrome.runtime.onMessage.addListener((msg, _sender, sendResponse) => {
     return;
   }
 
+  if (msg?.type === 'FRAME_SCAN_REPORT') {
+    const report = msg as Extract<FrameMessage, { type: 'FRAME_SCAN_REPORT' }>;
+    receiveFrameReport(report.frameId, report.token, report.scan);
+    return;
+  }
+
   if (msg?.type === 'GET_PAGE_INFO') {
     const title = document.title;
     const w = window as unknown as { __AIAutoFill_lastScan__?: { candidates?: Candidate[] } };
@@ -438,15 +516,44 @@ interface TestCandidateStatus {
   status: string | null;
   applied: boolean;
   highlight: string | null;
+  verification: string | null;
+}
+
+interface TestPlanRow {
+  id: string;
+  key: string | null;
+  current: string;
+  proposed: string | null;
+  skip: string | null;
 }
 
-function scanMetricsSnapshot(): { scannedAt: number; candidateCount: number; durationMs: number } | null {
+interface TestPlanCommit {
+  filled: string[];
+  failed: string[];
+  stale: string[];
+  cancelled: boolean;
+  rolledBack: boolean;
+}
+
+interface TestFillStep {
+  label: string;
+  fields: string[];
+  undone: boolean;
+}
+
+function scanMetricsSnapshot(): {
+  scannedAt: number;
+  candidateCount: number;
+  durationMs: number;
+  incremental: boolean;
+} | null {
   const current = get(scanStore);
   if (!current) return null;
   return {
     scannedAt: current.scannedAt,
     candidateCount: current.candidates.length,
-    durationMs: current.durationMs
+    durationMs: current.durationMs,
+    incremental: Boolean(current.incremental)
   };
 }
 
@@ -480,21 +587,91 @@ function candidateStatusSummaries(): TestCandidateStatus[] {
       key: view.key?.key ?? null,
       status: view.status ?? null,
       applied: isApplied(view.candidate.id),
+      verification: view.verification?.outcome ?? null,
       highlight
     };
   });
 }
 
+function planSummary(): TestPlanRow[] {
+  return (planFill()?.rows ?? []).map((row) => ({
+    id: row.candidate.id,
+    key: row.match?.key.key ?? null,
+    current: row.currentText,
+    proposed: row.proposed === undefined ? null : row.proposedText,
+    skip: row.skip ?? null
+  }));
+}
+
+function commitSummary(res: FillPlanCommit): TestPlanCommit {
+  return { ...res, failed: res.failed.map((f) => f.id) };
+}
+
+// The plan of the selected group committed as planned: the rows without a skip reason
+async function applyPlan(): Promise<TestPlanCommit | null> {
+  const plan = planFill();
+  return plan ? commitSummary(await commitPlan(plan)) : null;
+}
+
+// Undo log, oldest step first; undone steps (still redoable) come last
+function fillHistorySummary(): TestFillStep[] {
+  const { done, undone } = get(fillHistory);
+  const summary = (undone: boolean) => (step: FillStep): TestFillStep => ({
+    label: step.label,
+    fields: step.changes.map((c) => c.label),
+    undone
+  });
+  return [...done.map(summary(false)), ...[...undone].reverse().map(summary(true))];
+}
+
+// Current scan and assignment as an evaluation corpus entry (JSON), ready to label and save
+// under tests/eval/corpus
+function exportCorpusEntry(id?: string): string {
+  const current = get(scanStore);
+  const entry = createCorpusEntry(id || location.hostname, current?.candidates ?? [], get(batch), {
+    url: location.href,
+    capturedAt: Date.now()
+  });
+  return JSON.stringify(entry, null, 2);
+}
+
+// `__AIAutoFill_lastScan__.exportCorpusEntry('my-page')` in the content-script console; not
+// enumerable, so the scan still serializes as before
+function withCorpusExport(result: ScanResult): ScanResult {
+  Object.defineProperty(result, 'exportCorpusEntry', { value: (id?: string) => exportCorpusEntry(id) });
+  return result;
+}
+
 const testApi = Object.freeze({
   applyAll: () => applyAll(),
   undoAll: () => undoAll(),
+  planFill: () => planSummary(),
+  undo: async () => (await undoStep())?.label ?? null,
+  redo: async () => (await redoStep())?.label ?? null,
+  applyPlan: () => applyPlan(),
+  getFillHistory: () => fillHistorySummary(),
+  getWizardSession: () => get(wizardSession),
+  getCompletedWizard: () => get(completedWizard),
+  // with the quick-fill template, as the panel's "Start wizard" does
+  startWizard: async (profileId: string) => {
+    const template = get(templatesStore)[0];
+    return template ? startWizard(template.id, profileId) : null;
+  },
   rescan: () => {
     scanner.rescanNow();
     return true;
   },
   getScanMetrics: () => scanMetricsSnapshot(),
   getTopMatches: () => topMatchSummaries(),
-  getCandidateStatuses: () => candidateStatusSummaries()
+  getCandidateStatuses: () => candidateStatusSummaries(),
+  getMainWorldBridge: () => mainWorldBridgeStatus(),
+  // revealed fields of a fill session offered for filling (revealPolicy 'offer')
+  getRevealedFills: () => (get(revealedFills)?.rows ?? []).map((row) => ({ id: row.candidate.id, proposed: row.proposedText })),
+  fillRevealedFields: async () => {
+    const res = await fillRevealedFields();
+    return res ? commitSummary(res) : null;
+  },
+  exportCorpusEntry: (id?: string) => exportCorpusEntry(id)
 });
 
 (window as unknown as Record<string, unknown>).__AIAutoFillTestAPI__ = testApi;
@@ -0,0 +1,44 @@
+// Injected by the worker into the page's own world (chrome.scripting, world 'MAIN'), where custom
+// elements keep their `value` / `checked` accessors; content scripts only see plain DOM properties.
+// The content script asks through a synchronous DOM event round trip (customElements.ts).
+// Runs serialized: it must not reference anything outside its body.
+
+export const FACE_REQUEST_EVENT = 'aiaf-face-request';
+export const FACE_RESPONSE_EVENT = 'aiaf-face-response';
+
+export function installFaceBridge(requestEvent: string, responseEvent: string): void {
+  const flag = '__aiafFaceBridge__';
+  const globals = window as unknown as Record<string, unknown>;
+  if (globals[flag]) return;
+  globals[flag] = true;
+  document.addEventListener(
+    requestEvent,
+    (event) => {
+      // composedPath reaches into open shadow roots, where the event target is retargeted to the host
+      const el = event.composedPath()[0] as (HTMLElement & Record<string, unknown>) | undefined;
+      const detail = (event as CustomEvent<unknown>).detail;
+      if (!el || typeof detail !== 'string') return;
+      let request: { op?: string; prop?: string; value?: unknown };
+      try {
+        request = JSON.parse(detail);
+      } catch {
+        return;
+      }
+      const prop = request.prop === 'checked' ? 'checked' : 'value';
+      const respond = (payload: unknown) =>
+        el.dispatchEvent(new CustomEvent(responseEvent, { detail: JSON.stringify(payload) }));
+      if (!(prop in el)) {
+        respond({ ok: false });
+        return;
+      }
+      if (request.op === 'write') {
+        el[prop] = request.value;
+        el.dispatchEvent(new Event('input', { bubbles: true, composed: true }));
+        el.dispatchEvent(new Event('change', { bubbles: true, composed: true }));
+      }
+      const value = el[prop];
+      respond({ ok: true, value: typeof value === 'string' || typeof value === 'boolean' ? value : value == null ? null : String(value) });
+    },
+    true
+  );
+}
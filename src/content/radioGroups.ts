@@ -0,0 +1,94 @@
+// Radio groups: the radios sharing a `name` (within one form), or the role="radio" items of a
+// custom role="radiogroup". The scanner turns a group into one candidate and the filler picks
+// the choice whose value or label matches the template value.
+
+export interface RadioChoice {
+  element: HTMLElement;
+  value: string;
+  label: string;
+  checked: boolean;
+  disabled: boolean;
+}
+
+function textOf(el: Element | null | undefined): string {
+  return ((el as HTMLElement | null)?.innerText ?? el?.textContent ?? '').replace(/\s+/g, ' ').trim();
+}
+
+function isNativeRadio(el: Element): el is HTMLInputElement {
+  return el instanceof HTMLInputElement && el.type === 'radio';
+}
+
+// A role="radiogroup" made of role="radio" items; groups of native radios are found by name instead
+export function isCustomRadioGroup(el: Element): boolean {
+  return (
+    (el.getAttribute('role') || '').toLowerCase() === 'radiogroup' &&
+    !!el.querySelector('[role="radio"]') &&
+    !el.querySelector('input[type="radio"]')
+  );
+}
+
+// Every radio in the group `el` belongs to, in document order. A radio without a name groups with
+// the nameless radios of its radiogroup or fieldset.
+export function radioGroupMembers(el: Element): HTMLElement[] {
+  if (isCustomRadioGroup(el)) return Array.from(el.querySelectorAll<HTMLElement>('[role="radio"]'));
+  if (!isNativeRadio(el)) return [];
+  const scope: ParentNode | null = el.name
+    ? el.form ?? (el.getRootNode() as Document | ShadowRoot)
+    : el.closest('[role="radiogroup"], fieldset');
+  if (!scope) return [el];
+  const radios = Array.from(scope.querySelectorAll<HTMLInputElement>('input[type="radio"]'));
+  // Outside a form, radios of other forms with the same name are a different group
+  return radios.filter((r) => r.name === el.name && (el.name ? r.form === el.form : true));
+}
+
+function labelledByText(el: Element): string {
+  const root = el.getRootNode() as Document | ShadowRoot;
+  return (el.getAttribute('aria-labelledby') || '')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((id) => textOf(root.getElementById?.(id) ?? el.ownerDocument.getElementById(id)))
+    .filter(Boolean)
+    .join(' ');
+}
+
+// Short text right after the radio ("<input type=radio> Email")
+function trailingText(el: Element): string {
+  for (let node = el.nextSibling; node; node = node.nextSibling) {
+    if (node instanceof Element && node.matches('input, select, textarea, [role="radio"]')) break;
+    const text = (node.textContent || '').replace(/\s+/g, ' ').trim();
+    if (text) return text.length <= 80 ? text : '';
+  }
+  return '';
+}
+
+export function radioChoiceLabel(el: HTMLElement): string {
+  const byAria = labelledByText(el) || el.getAttribute('aria-label')?.trim();
+  if (byAria) return byAria;
+  if (isNativeRadio(el)) {
+    const label = Array.from(el.labels ?? []).map(textOf).find(Boolean);
+    if (label) return label;
+    const trailing = trailingText(el);
+    if (trailing) return trailing;
+    return el.title?.trim() || el.value;
+  }
+  return textOf(el);
+}
+
+export function radioChoices(el: Element): RadioChoice[] {
+  return radioGroupMembers(el).map((member) => {
+    const native = isNativeRadio(member);
+    const label = radioChoiceLabel(member);
+    return {
+      element: member,
+      value: native ? member.value : member.getAttribute('data-value') ?? member.getAttribute('value') ?? label,
+      label,
+      checked: native ? member.checked : member.getAttribute('aria-checked') === 'true',
+      disabled: native ? member.disabled : member.getAttribute('aria-disabled') === 'true'
+    };
+  });
+}
+
+// Whether `el` stands for a whole group (a custom radiogroup, or a radio with siblings)
+export function isRadioGroup(el: Element): boolean {
+  return isCustomRadioGroup(el) || (isNativeRadio(el) && radioGroupMembers(el).length > 1);
+}
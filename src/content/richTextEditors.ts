@@ -0,0 +1,211 @@
+/*
+  Rich-text editor adapters
+  - Detected by the markup each editor renders: TinyMCE, CKEditor 5, Quill, Draft.js, ProseMirror / Tiptap
+  - Editors keep their own document model; writing textContent is ignored or undone on the next render
+  - Text goes in through a path the editor handles: a synthetic paste (ClipboardEvent with text/plain
+    and text/html), `beforeinput` insertText / insertParagraph, or a DOM write the editor reads back
+    (Quill's mutation observer, TinyMCE's iframe body)
+  - Each line of the value becomes a paragraph
+  - Page globals (window.tinymce, Quill instances, editor.ckeditorInstance) live in the page's world,
+    out of reach of content scripts, so detection relies on markup only
+*/
+
+import type { FillOptions, FillResult } from './filler';
+import { settleRendering } from './verification';
+
+export type RichTextEditorName = 'tinymce' | 'ckeditor5' | 'quill' | 'draftjs' | 'prosemirror';
+
+type InsertPath = 'paste' | 'beforeinput' | 'dom';
+
+interface RichTextAdapter {
+  name: RichTextEditorName;
+  // Editable root of the editor `el` belongs to (or the <textarea> it replaced)
+  detect(el: HTMLElement): HTMLElement | null;
+  // Insert paths the editor handles, tried in order until it shows the value
+  paths: InsertPath[];
+}
+
+export interface RichTextTarget {
+  adapter: RichTextAdapter;
+  root: HTMLElement;
+}
+
+function editableRoot(el: HTMLElement, selector: string): HTMLElement | null {
+  return el.closest<HTMLElement>(selector) ?? el.querySelector<HTMLElement>(selector);
+}
+
+const tinymce: RichTextAdapter = {
+  name: 'tinymce',
+  detect(el) {
+    // Classic mode: the content lives in the body of an iframe next to the hidden <textarea>
+    const body = el.ownerDocument.body;
+    if (el === body && (body.id === 'tinymce' || body.classList.contains('mce-content-body'))) return body;
+    if (el instanceof HTMLTextAreaElement && el.id) {
+      const frame = el.ownerDocument.getElementById(`${el.id}_ifr`);
+      const frameBody = frame instanceof HTMLIFrameElement ? frame.contentDocument?.body : null;
+      if (frameBody?.isContentEditable) return frameBody;
+    }
+    // Inline mode
+    return el.closest<HTMLElement>('.mce-content-body[contenteditable="true"]');
+  },
+  paths: ['paste', 'dom']
+};
+
+const ckeditor5: RichTextAdapter = {
+  name: 'ckeditor5',
+  detect: (el) => editableRoot(el, '.ck-editor__editable[contenteditable="true"]'),
+  // Its renderer reverts DOM writes
+  paths: ['paste', 'beforeinput']
+};
+
+const quill: RichTextAdapter = {
+  name: 'quill',
+  detect: (el) => editableRoot(el, '.ql-editor[contenteditable="true"]'),
+  paths: ['paste', 'dom']
+};
+
+const draftjs: RichTextAdapter = {
+  name: 'draftjs',
+  detect: (el) => editableRoot(el, '.public-DraftEditor-content[contenteditable="true"]'),
+  // DOM writes desynchronise its EditorState
+  paths: ['paste', 'beforeinput']
+};
+
+// Tiptap renders a ProseMirror view
+const prosemirror: RichTextAdapter = {
+  name: 'prosemirror',
+  detect: (el) => editableRoot(el, '.ProseMirror[contenteditable="true"]'),
+  paths: ['paste', 'dom']
+};
+
+const ADAPTERS: RichTextAdapter[] = [tinymce, ckeditor5, quill, draftjs, prosemirror];
+
+export function detectRichTextEditor(el: Element): RichTextTarget | null {
+  if (!(el instanceof HTMLElement)) return null;
+  for (const adapter of ADAPTERS) {
+    const root = adapter.detect(el);
+    if (root) return { adapter, root };
+  }
+  return null;
+}
+
+function norm(value: string): string {
+  return value.normalize('NFKC').replace(/\s+/g, ' ').trim();
+}
+
+export function readRichText(target: RichTextTarget): string {
+  return target.root.innerText;
+}
+
+function shows(target: RichTextTarget, value: string): boolean {
+  return norm(readRichText(target)) === norm(value);
+}
+
+function lines(value: string): string[] {
+  return value.replace(/\r\n?/g, '\n').split('\n');
+}
+
+// One <p> per line; empty lines stay as empty paragraphs
+function paragraphs(doc: Document, value: string): HTMLParagraphElement[] {
+  return lines(value).map((line) => {
+    const p = doc.createElement('p');
+    if (line) p.textContent = line;
+    else p.appendChild(doc.createElement('br'));
+    return p;
+  });
+}
+
+function fire(el: Element, ev: Event): boolean {
+  try {
+    return el.dispatchEvent(ev);
+  } catch {
+    return true;
+  }
+}
+
+// Select the whole content so whatever goes in replaces it
+function selectContents(root: HTMLElement): void {
+  try {
+    root.focus({ preventScroll: true });
+    const sel = root.ownerDocument.getSelection();
+    if (!sel) return;
+    const range = root.ownerDocument.createRange();
+    range.selectNodeContents(root);
+    sel.removeAllRanges();
+    sel.addRange(range);
+  } catch {
+    // ignore
+  }
+}
+
+function paste(root: HTMLElement, value: string): void {
+  const data = new DataTransfer();
+  data.setData('text/plain', value);
+  data.setData('text/html', paragraphs(root.ownerDocument, value).map((p) => p.outerHTML).join(''));
+  fire(root, new ClipboardEvent('paste', { clipboardData: data, bubbles: true, cancelable: true, composed: true }));
+}
+
+function beforeInput(root: HTMLElement, value: string): void {
+  const input = (inputType: string, data: string | null) =>
+    fire(root, new InputEvent('beforeinput', { inputType, data, bubbles: true, cancelable: true, composed: true }));
+  lines(value).forEach((line, index) => {
+    if (index > 0) input('insertParagraph', null);
+    if (line) input('insertText', line);
+  });
+}
+
+function writeDom(target: RichTextTarget, value: string): void {
+  const { root } = target;
+  root.replaceChildren(...paragraphs(root.ownerDocument, value));
+  fire(root, new InputEvent('input', { inputType: 'insertFromPaste', bubbles: true, composed: true }));
+  if (target.adapter.name !== 'tinymce') return;
+  fire(root, new KeyboardEvent('keyup', { bubbles: true }));
+  // Forms that submit before TinyMCE saves read the original <textarea>
+  const frame = root.ownerDocument.defaultView?.frameElement;
+  const textarea = frame?.id.endsWith('_ifr') ? frame.ownerDocument.getElementById(frame.id.slice(0, -4)) : null;
+  if (textarea instanceof HTMLTextAreaElement) {
+    textarea.value = root.innerHTML;
+    fire(textarea, new Event('change', { bubbles: true }));
+  }
+}
+
+function insert(target: RichTextTarget, path: InsertPath, value: string): void {
+  if (path === 'paste') paste(target.root, value);
+  else if (path === 'beforeinput') beforeInput(target.root, value);
+  else writeDom(target, value);
+}
+
+function result(target: RichTextTarget, before: string, path: InsertPath | null, options: FillOptions): FillResult {
+  const { name } = target.adapter;
+  if (options.blurAfter) target.root.blur();
+  const changed = norm(before) !== norm(readRichText(target));
+  if (!path) return { changed, message: `${name} did not take the text`, editor: name };
+  return { changed, message: `inserted into ${name} via ${path}`, editor: name };
+}
+
+// Replace the editor's content with `value`, checking after each insert path whether it stuck
+export function fillRichText(target: RichTextTarget, value: string, options: FillOptions = {}): FillResult {
+  const before = readRichText(target);
+  for (const path of target.adapter.paths) {
+    selectContents(target.root);
+    insert(target, path, value);
+    if (shows(target, value)) return result(target, before, path, options);
+  }
+  return result(target, before, null, options);
+}
+
+// Like fillRichText, but lets the editor pick up the selection and render between steps
+// (ProseMirror and Draft.js read the DOM selection on `selectionchange`)
+export async function fillRichTextAsync(target: RichTextTarget, value: string, options: FillOptions = {}): Promise<FillResult> {
+  const before = readRichText(target);
+  const win = target.root.ownerDocument.defaultView ?? window;
+  for (const path of target.adapter.paths) {
+    if (options.signal?.aborted) return { ...result(target, before, null, options), cancelled: true };
+    selectContents(target.root);
+    await settleRendering(win);
+    insert(target, path, value);
+    await settleRendering(win);
+    if (shows(target, value)) return result(target, before, path, options);
+  }
+  return result(target, before, null, options);
+}
@@ -1,5 +1,6 @@
 import type { Candidate } from './domScanner';
 import { loadEncrypted, saveEncrypted } from '../lib/secureStore';
+import { canonicalOntologyKey } from '../lib/ontologyRegistry';
 
 export interface TemplateVersion {
   name: string;
@@ -84,7 +85,8 @@ function ensurePreferenceEntry(raw: Partial<MappingPreferenceEntry> & { labelNor
   const updatedAt = typeof raw.updatedAt === 'number' && Number.isFinite(raw.updatedAt) ? raw.updatedAt : Date.now();
   return {
     labelNorm: raw.labelNorm,
-    key: raw.key,
+    // Preferences learned before the ontology registry stored legacy matcher keys
+    key: canonicalOntologyKey(raw.key),
     weight,
     label: raw.label,
     synonyms,
@@ -214,13 +216,13 @@ export function mappingPreferencesToPreferenceMap(entries: Iterable<MappingPrefe
 export function extractValuesFromPage(
   selection: Record<string, string>, // candidateId -> ontologyKey
   candidates: Candidate[],
-  reader: (cand: Candidate) => unknown
+  reader: (cand: Candidate, key: string) => unknown
 ): Record<string, unknown> {
   const values: Record<string, unknown> = {};
   for (const cand of candidates) {
     const key = selection[cand.id];
     if (!key) continue;
-    const val = reader(cand);
+    const val = reader(cand, key);
     if (val != null && val !== '') values[key] = val as unknown;
   }
   return values;
@@ -1,28 +1,28 @@
 import type { OntologyKey } from '../../lib/ontology';
+import { ONTOLOGY_SYNONYMS, ontologyKeysFor } from '../../lib/ontologyRegistry';
 
-export const DEFAULT_KEYS: OntologyKey[] = [
-  { key: 'email', label: 'Email', type: 'email', regexes: [/^[^\s@]+@[^\s@]+\.[^\s@]+$/] },
-  { key: 'phone', label: 'Phone', type: 'phone' },
-  { key: 'name', label: 'Full Name', type: 'name' },
-  { key: 'given-name', label: 'First Name', type: 'given-name' },
-  { key: 'family-name', label: 'Last Name', type: 'family-name' },
-  { key: 'organization', label: 'Organization', type: 'organization' },
-  { key: 'website-url', label: 'Website', type: 'text' },
-  { key: 'message.body', label: 'Message', type: 'text' }
+export const DEFAULT_KEY_PATHS = [
+  'contact.email',
+  'contact.phone',
+  'identity.fullName',
+  'identity.firstName',
+  'identity.lastName',
+  'organization.name',
+  'webPresence.websiteUrl',
+  'message.body'
 ];
 
+export const DEFAULT_KEYS: OntologyKey[] = ontologyKeysFor(DEFAULT_KEY_PATHS);
+
 export const DEFAULT_VALUES: Record<string, unknown> = {
-  email: 'ada@example.org',
-  phone: '+1 415-555-2671',
-  name: 'Ada Lovelace',
-  'given-name': 'Ada',
-  'family-name': 'Lovelace',
-  organization: 'Analytical Engines Inc.',
-  'website-url': 'https://example.org',
+  'contact.email': 'ada@example.org',
+  'contact.phone': '+1 415-555-2671',
+  'identity.fullName': 'Ada Lovelace',
+  'identity.firstName': 'Ada',
+  'identity.lastName': 'Lovelace',
+  'organization.name': 'Analytical Engines Inc.',
+  'webPresence.websiteUrl': 'https://example.org',
   'message.body': "Hello! I'm interested in your product. Could you share more details?"
 };
 
-export const SYNONYMS_OVERLAY: Record<string, string[]> = {
-  'website-url': ['website', 'site', 'url', 'homepage', 'web address'],
-  'message.body': ['message', 'your message', 'comments', 'inquiry', 'question']
-};
+export const SYNONYMS_OVERLAY: Record<string, string[]> = ONTOLOGY_SYNONYMS;
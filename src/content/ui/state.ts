@@ -8,16 +8,47 @@ import {
   type PreferenceMap,
   type PreferenceRecord
 } from '../../lib/ontology';
-import { computeBatchMatches, type BatchMatchResult, type MatchResult } from '../../lib/fieldMatcher';
-import { rerankWithSemantics, type SemanticConfig, logSemanticPrivacyNoticeOnce } from '../../lib/semantic';
-import { fillElement, type FillResult } from '../filler';
+import {
+  assignmentGroupOf,
+  computeBatchMatches,
+  matchesToFill,
+  type BatchMatchResult,
+  type MatchResult
+} from '../../lib/fieldMatcher';
+import { rerankWithSemantics, semanticProviderFor, type SemanticConfig, logSemanticPrivacyNoticeOnce } from '../../lib/semantic';
+import { fillElement, fillElementAsync, restoreElementAsync, selectOptionLikes, type FillOptions, type FillResult } from '../filler';
+import { isRadioGroup, radioChoices } from '../radioGroups';
+import { detectRichTextEditor, readRichText } from '../richTextEditors';
+import { acceptsTypedText, detectWidget, widgetSelection } from '../widgetDrivers';
+import { isCheckableCustomElement, isFormAssociatedCustomElement, readCustomElementValue, shadowRootOf } from '../customElements';
+import { canonicalChoice, isChoiceKey } from '../../lib/choices';
+import { deriveFillValue, type FieldHints } from '../../lib/composite';
+import { completeDate, inferDateTarget, isDateKey, readDateParts, toIsoDate, type DateParts } from '../../lib/dates';
+import { autofillScope, parseAutocomplete, type AutofillScope } from '../../lib/autocomplete';
+import { describeNegativeSignals, type NegativeSignal } from '../../lib/negativeEvidence';
+import {
+  classifyConsent,
+  DEFAULT_CONSENT_POLICY,
+  describeConsentAction,
+  describeConsentKind,
+  type ConsentAction,
+  type ConsentClassification
+} from '../../lib/consent';
+import { linkedCandidateIds } from '../../lib/confirmationPairs';
+import { loadAttachmentFiles } from '../attachments';
+import { frameViewportRect, sendFrameFill } from '../frames';
+import type { FrameFillCommand, FrameFillResult, WizardSession } from '../../core/messages';
+import { settleRendering, verifyFill, type FieldVerification, type VerificationOutcome } from '../verification';
 
-export type UIStatus = 'pending' | 'filled' | 'uncertain';
+// verified / reverted / invalid: outcome of the check that runs after a fill batch
+export type UIStatus = 'pending' | 'filled' | 'uncertain' | VerificationOutcome;
 
 export interface KeyConfig {
   key: OntologyKey;
   // value to fill for this key
   value?: string | string[] | boolean;
+  // values for fields whose autocomplete carries a scope (`billing`, `work`...), see valueForCandidate
+  scopedValues?: Partial<Record<AutofillScope, string | string[] | boolean>>;
 }
 
 export interface CandidateView {
@@ -27,10 +58,47 @@ export interface CandidateView {
   status?: UIStatus;
   hasValue?: boolean;
   applied?: boolean;
+  // why the matcher marked the field as a decoy (referral, search box...), from its top ranking
+  decoyReasons?: string[];
+  // the other field of a confirmation pair ("Email" / "Confirm email"); both fill and undo together
+  linkedWith?: string;
+  // post-fill check of an applied field, see verifyFills
+  verification?: FieldVerification;
+  // an undo that could not put the field's old value back; the field stays applied
+  restoreFailure?: string;
+}
+
+// A consent checkbox (terms, privacy, marketing) of the selected group and what the user's
+// consent policy does with it
+export interface ConsentBox {
+  candidate: Candidate;
+  classification: ConsentClassification;
+  action: ConsentAction;
+  checked: boolean;
+  // a fill that wanted to tick the box and was stopped by the policy
+  violation?: string;
+}
+
+export interface FillProgress {
+  done: number;
+  total: number;
+  // label of the field being typed
+  current: string | null;
+  // form group being filled by fillAllGroups
+  group: string | null;
 }
 
 export const overlayVisible = writable(true);
 export const panelOpen = writable(false);
+// Set while a bulk fill runs; the overlay shows it with a cancel button
+export const fillProgress = writable<FillProgress | null>(null);
+// The tab's multi-step fill session, kept by the worker across pages (wizard.ts)
+export const wizardSession = writable<WizardSession | null>(null);
+// The last session of this page that completed (every required key filled)
+export const completedWizard = writable<WizardSession | null>(null);
+// Options for every fill. Masked inputs are always typed at typingDelayMs; simulateTyping types
+// every text field (for sites that reject synchronous bursts)
+export const fillOptions = writable<FillOptions>({ typingDelayMs: 30, typingJitter: 0.35 });
 
 export const runtimeSettings = writable<RuntimeSettings | null>(null);
 export const effectiveMode = writable<Mode>('offline');
@@ -42,6 +110,13 @@ export const keys = writable<KeyConfig[]>([]);
 export const scan = writable<ScanResult | null>(null);
 export const batch = writable<BatchMatchResult | null>(null);
 export const formGroups = writable<FormGroup[]>([]);
+// by candidate id; only kept for fields that are still applied
+export const verifications = writable<Record<string, FieldVerification>>({});
+// by candidate id; why the last undo of a field left it holding the fill
+export const restoreFailures = writable<Record<string, string>>({});
+export const consentBoxes = writable<ConsentBox[]>([]);
+// by candidate id; kept until the box is ticked or the scan drops it
+const consentViolations = new Map<string, string>();
 export const selectedFormGroupId = writable<string | null>(null);
 export const hoveredFormGroupId = writable<string | null>(null);
 
@@ -134,30 +209,54 @@ function mergePreferenceSources(...sources: Array<PreferenceMap | undefined>): P
   return result;
 }
 
-export const candidatesView = derived([scan, batch, keys, selectedFormGroupId], ([$scan, $batch, $keys, $selectedGroup]) => {
-  const out: CandidateView[] = [];
-  if (!$scan || !$batch) return out;
-  const byCand = $batch.byCandidate;
-  const candidates = $selectedGroup
-    ? $scan.candidates.filter((cand) => cand.formGroupId === $selectedGroup)
-    : $scan.candidates;
-  for (const cand of candidates) {
-    const results = byCand[cand.id] || [];
-    const best = results[0];
-    const view: CandidateView = { candidate: cand };
-    if (best) {
-      view.best = best;
-      const kc = $keys.find((k) => k.key.key === best.key.key);
-      view.key = best.key;
-      view.hasValue = kc?.value != null;
-      if (best.tier === 'accept') view.status = 'pending';
-      else if (best.tier === 'consider') view.status = 'uncertain';
-      else view.status = undefined;
+export const candidatesView = derived(
+  [scan, batch, keys, selectedFormGroupId, verifications, restoreFailures],
+  ([$scan, $batch, $keys, $selectedGroup, $verifications, $restoreFailures]) => {
+    const out: CandidateView[] = [];
+    if (!$scan || !$batch) return out;
+    const byCand = $batch.byCandidate;
+    const candidates = $selectedGroup
+      ? $scan.candidates.filter((cand) => cand.formGroupId === $selectedGroup)
+      : $scan.candidates;
+    const pairs = $batch.confirmationPairs || [];
+    const confirmIds = new Set(pairs.map((p) => p.confirmId));
+    const mirrored = new Map(
+      matchesToFill($batch)
+        .filter((m) => confirmIds.has(m.candidate.id))
+        .map((m) => [m.candidate.id, m] as const)
+    );
+    for (const cand of candidates) {
+      const results = byCand[cand.id] || [];
+      // With one-to-one assignment a field shows the key that owns it, not just its top ranking;
+      // a confirmation field shows its primary's key
+      const owner = $batch.assignment?.byCandidate[cand.id];
+      const best = confirmIds.has(cand.id) ? mirrored.get(cand.id) : $batch.assignment ? owner : results[0];
+      const view: CandidateView = { candidate: cand };
+      const linkedWith = linkedCandidateIds(pairs, cand.id)[0];
+      if (linkedWith) view.linkedWith = linkedWith;
+      const penalty = results[0]?.explanation.contributions.find((c) => c.id === 'negative');
+      if (penalty && !linkedWith) view.decoyReasons = describeNegativeSignals(penalty.evidence.signals as NegativeSignal[]);
+      if (best) {
+        view.best = best;
+        const kc = $keys.find((k) => k.key.key === best.key.key);
+        view.key = best.key;
+        view.hasValue = kc ? valueForCandidate(kc, cand) != null : false;
+        if (best.tier === 'accept') view.status = 'pending';
+        else if (best.tier === 'consider') view.status = 'uncertain';
+        else view.status = undefined;
+      }
+      const verification = $verifications[cand.id];
+      if (verification && isApplied(cand.id)) {
+        view.verification = verification;
+        view.status = verification.outcome;
+      }
+      const restoreFailure = $restoreFailures[cand.id];
+      if (restoreFailure && isApplied(cand.id)) view.restoreFailure = restoreFailure;
+      out.push(view);
     }
-    out.push(view);
+    return out;
   }
-  return out;
-});
+);
 
 export function setKeys(list: KeyConfig[], cfg?: Partial<MatcherConfig> & { semantic?: SemanticConfig }) {
   keys.set(list);
@@ -228,12 +327,22 @@ export async function fillAllGroups(): Promise<number> {
   const groups = get(formGroups);
   if (!groups.length) return 0;
   const original = get(selectedFormGroupId);
+  const controller = startFill();
+  const step = beginStep('Fill all groups');
+  const filledIds: string[] = [];
   let total = 0;
-  for (const group of groups) {
-    internalSetSelectedFormGroup(group.id, { silent: true });
-    await recomputeBatch();
-    total += applyAll();
+  try {
+    for (const group of groups) {
+      if (controller.signal.aborted) break;
+      internalSetSelectedFormGroup(group.id, { silent: true });
+      await recomputeBatch();
+      total += await fillMatches(controller.signal, group.label, filledIds);
+    }
+  } finally {
+    endStep(step);
+    finishFill(controller);
   }
+  await verifyFills(filledIds);
   if (original && groups.some((g) => g.id === original)) {
     internalSetSelectedFormGroup(original, { silent: true });
   } else if (groups.length) {
@@ -258,12 +367,21 @@ export function updateScan(result: ScanResult, cfg?: Partial<MatcherConfig> & {
   ensureSelectionForScan(result);
   pruneAppliedForCurrentScan(result);
   refreshGroupHighlightPositions();
-  void recomputeBatch(cfg);
+  const revealed = result.revealed ?? [];
+  void recomputeBatch(cfg).then(() => {
+    if (revealed.length) void handleRevealedFields(revealed);
+  });
 }
 
+let lastMatcherConfig: (Partial<MatcherConfig> & { semantic?: SemanticConfig }) | undefined;
+
 export async function recomputeBatch(cfg?: Partial<MatcherConfig> & { semantic?: SemanticConfig }) {
+  // Recomputes triggered internally (group switch, learning) reuse the caller's last config
+  if (cfg) lastMatcherConfig = cfg;
+  else cfg = lastMatcherConfig;
   const s = get(scan);
   const selectedGroup = get(selectedFormGroupId);
+  refreshConsentBoxes();
   const k = get(keys).map((x) => x.key);
   if (!s || k.length === 0) {
     batch.set(null);
@@ -297,8 +415,8 @@ export async function recomputeBatch(cfg?: Partial<MatcherConfig> & { semantic?:
   const b = computeBatchMatches(k, candidates, config);
   batch.set(b);
 
-  // Optional semantic reranking (async)
-  if (config.semantic?.enabled && config.semantic.apiUrl) {
+  // Optional semantic reranking (async): remote with an endpoint, or the on-device provider
+  if (config.semantic?.enabled && semanticProviderFor(config.semantic)) {
     logSemanticPrivacyNoticeOnce(config.semantic);
     const reranked = await rerankWithSemantics(b, k, candidates, config);
     batch.set(reranked);
@@ -306,33 +424,126 @@ export async function recomputeBatch(cfg?: Partial<MatcherConfig> & { semantic?:
 }
 
 // Apply/undo manager
-interface AppliedInfo {
+// Where a filled field lives. Ids change when a rescan moves the field or the page re-mounts it,
+// so fields are found again by element identity, then by path and attribute signature.
+interface FieldLocator {
+  // cross-origin frame the field lives in, see frames.ts
+  frameId?: number;
+  stableElementId: string;
+  robustSelector: string;
+  path: string;
+  framePath: string[];
+  // shadow hosts down to the root `path` is relative to
+  shadowPath?: string[];
+}
+
+interface AppliedInfo extends FieldLocator {
   id: string;
   original: unknown;
   appliedValue: unknown;
-  path: string;
-  framePath: string[];
+  // what the field held right after the fill, before the page had a chance to react
+  filled: unknown;
+}
+
+// One field of a fill step: what it held before, and the value the fill wrote
+export interface FillChange extends FieldLocator {
+  label: string;
+  before: unknown;
+  after: unknown;
+}
+
+// An undoable step: an "Apply all", a group fill, a single apply or a consent box
+export interface FillStep {
+  id: number;
+  label: string;
+  at: number;
+  changes: FillChange[];
+}
+
+export interface FillHistory {
+  // oldest first; undo takes the last one
+  done: FillStep[];
+  undone: FillStep[];
 }
 
+const MAX_HISTORY_STEPS = 50;
+
 const applied = new Map<string, AppliedInfo>();
+export const fillHistory = writable<FillHistory>({ done: [], undone: [] });
+// the step fills are recorded into; nested applies join the outer step
+let openStep: FillStep | null = null;
+let stepCounter = 0;
 
-function resolveElementFromApplied(info: AppliedInfo): HTMLElement | null {
+function locatorOf(cand: Candidate): FieldLocator {
+  return {
+    frameId: cand.frameId,
+    stableElementId: cand.stableElementId,
+    robustSelector: cand.robustSelector,
+    path: cand.path,
+    framePath: cand.framePath,
+    shadowPath: cand.shadowPath
+  };
+}
+
+function samePath(a: string[] = [], b: string[] = []): boolean {
+  return a.length === b.length && a.every((sel, i) => sel === b[i]);
+}
+
+function sameFrame(a: FieldLocator, b: FieldLocator): boolean {
+  return a.frameId === b.frameId && samePath(a.framePath, b.framePath) && samePath(a.shadowPath, b.shadowPath);
+}
+
+// The candidate of the current scan standing for the located field
+function locateCandidate(loc: FieldLocator): Candidate | null {
+  const candidates = (get(scan)?.candidates || []).filter((c) => sameFrame(c, loc));
+  return (
+    candidates.find((c) => c.stableElementId === loc.stableElementId) ??
+    candidates.find((c) => c.robustSelector === loc.robustSelector) ??
+    null
+  );
+}
+
+function queryLocator(loc: FieldLocator): HTMLElement | null {
+  if (loc.frameId != null) return null;
   try {
     let root: Document | ShadowRoot | null = document;
-    if (info.framePath && info.framePath.length) {
-      for (const sel of info.framePath) {
+    if (loc.framePath && loc.framePath.length) {
+      for (const sel of loc.framePath) {
         const iframe = root.querySelector(sel) as HTMLIFrameElement | null;
         if (!iframe || !iframe.contentDocument) return null;
         root = iframe.contentDocument;
       }
     }
-    const el = root.querySelector(info.path);
+    root = shadowRootAlong(root, loc.shadowPath);
+    const el = root?.querySelector(loc.path);
     return el instanceof HTMLElement ? el : null;
   } catch {
     return null;
   }
 }
 
+// The shadow root at the end of a chain of host paths, each relative to the previous root
+function shadowRootAlong(root: Document | ShadowRoot, shadowPath: string[] = []): Document | ShadowRoot | null {
+  let current: Document | ShadowRoot | null = root;
+  for (const sel of shadowPath) {
+    const host: Element | null = current.querySelector(sel);
+    current = host ? shadowRootOf(host) : null;
+    if (!current) return null;
+  }
+  return current;
+}
+
+function resolveLocator(loc: FieldLocator): HTMLElement | null {
+  const cand = locateCandidate(loc);
+  return (cand && getElementForCandidate(cand)) || queryLocator(loc);
+}
+
+function resolveElementFromApplied(info: AppliedInfo): HTMLElement | null {
+  return resolveLocator(info);
+}
+
+// Applied fields follow their element to its new candidate id; fields the scan lost are dropped.
+// The fill history keeps locators, not ids, and survives rescans.
 function pruneAppliedForCurrentScan(result: ScanResult | null) {
   if (!result) {
     for (const info of applied.values()) {
@@ -342,16 +553,32 @@ function pruneAppliedForCurrentScan(result: ScanResult | null) {
     applied.clear();
     return;
   }
-  const validIds = new Set(result.candidates.map((cand) => cand.id));
-  for (const [id, info] of Array.from(applied.entries())) {
-    if (validIds.has(id)) continue;
+  // a scan with a delta names the ids it lost
+  let lost: string[];
+  if (result.delta) lost = result.delta.removed.filter((id) => applied.has(id));
+  else {
+    const validIds = new Set(result.candidates.map((cand) => cand.id));
+    lost = Array.from(applied.keys()).filter((id) => !validIds.has(id));
+  }
+  for (const id of lost) {
+    const info = applied.get(id);
+    if (!info) continue;
+    applied.delete(id);
+    const moved = locateCandidate(info);
+    if (moved && !applied.has(moved.id)) {
+      applied.set(moved.id, { ...info, ...locatorOf(moved), id: moved.id });
+      moveVerification(id, moved.id);
+      continue;
+    }
     const el = resolveElementFromApplied(info);
     if (el) setHighlight(el, undefined);
-    applied.delete(id);
+    forgetVerification(id);
   }
 }
 
+// null for fields of cross-origin frames, which only their own frame can reach
 export function getElementForCandidate(cand: Candidate): HTMLElement | null {
+  if (cand.frameId != null) return null;
   try {
     let root: Document | ShadowRoot | null = document;
     if (cand.framePath && cand.framePath.length) {
@@ -361,7 +588,8 @@ export function getElementForCandidate(cand: Candidate): HTMLElement | null {
         root = iframe.contentDocument;
       }
     }
-    const el = root.querySelector(cand.path);
+    root = shadowRootAlong(root, cand.shadowPath);
+    const el = root?.querySelector(cand.path);
     return el instanceof HTMLElement ? el : null;
   } catch {
     return null;
@@ -369,8 +597,21 @@ export function getElementForCandidate(cand: Candidate): HTMLElement | null {
 }
 
 function getOriginalValue(el: HTMLElement): unknown {
+  // A radio group holds the value of its checked choice
+  if (isRadioGroup(el)) return radioChoices(el).find((c) => c.checked)?.value ?? null;
+  // Editors keep line breaks in their paragraphs, which textContent drops
+  const editor = detectRichTextEditor(el);
+  if (editor) return readRichText(editor);
+  if (isFormAssociatedCustomElement(el)) return readCustomElementValue(el, isCheckableCustomElement(el) ? 'checked' : 'value');
+  // A custom dropdown holds the options it shows as chosen; its input only holds the search query
+  const widget = detectWidget(el);
+  if (widget && !acceptsTypedText(widget)) {
+    const shown = widgetSelection(widget);
+    return shown.length > 1 ? shown : shown[0] ?? '';
+  }
   if (el instanceof HTMLInputElement) {
     if (el.type === 'checkbox' || el.type === 'radio') return el.checked;
+    if (el.type === 'file') return Array.from(el.files || []);
     return el.value;
   }
   if (el instanceof HTMLTextAreaElement) return el.value;
@@ -387,12 +628,70 @@ export function readCandidateValue(cand: Candidate): unknown {
   return getOriginalValue(el);
 }
 
+// Date parts a field currently holds, read in the format it was filled in
+function readDateField(cand: Candidate): Partial<DateParts> {
+  const el = getElementForCandidate(cand);
+  if (!el) return {};
+  const hints = fieldHints(cand, el);
+  const target = inferDateTarget(hints);
+  // Selects may use opaque option values; fall back to the option text
+  const texts = el instanceof HTMLSelectElement ? [el.value, el.selectedOptions[0]?.text ?? ''] : [getOriginalValue(el)];
+  for (const text of texts) {
+    if (typeof text !== 'string') continue;
+    const parts = readDateParts(text, target, hints.lang);
+    if (Object.keys(parts).length > 0) return parts;
+  }
+  return {};
+}
+
+// A field's value as a template stores it under `key`: dates go back to ISO, reading every
+// day / month / year field the date is split over
+export function readTemplateValue(cand: Candidate, key: string): unknown {
+  const raw = readCandidateValue(cand);
+  // Picked files are not copied into templates; attachments are managed on the options page
+  if (Array.isArray(raw) && raw.some((v) => v instanceof File)) return null;
+  // Radio values are often opaque ("1", "on"); templates store the label, or the canonical
+  // choice for enumerated keys ('female' for "Woman")
+  const el = getElementForCandidate(cand);
+  if (el && isRadioGroup(el)) {
+    const checked = radioChoices(el).find((c) => c.checked);
+    if (!checked) return null;
+    return (isChoiceKey(key) && (canonicalChoice(key, checked.label) ?? canonicalChoice(key, checked.value))) || checked.label;
+  }
+  if (!isDateKey(key) || typeof raw !== 'string') return raw;
+  const group = assignmentGroupOf(cand);
+  const fields = [
+    cand,
+    ...matchesToFill(get(batch))
+      .filter((m) => m.key.key === key && m.candidate.id !== cand.id && assignmentGroupOf(m.candidate) === group)
+      .map((m) => m.candidate)
+  ];
+  const parts: Partial<DateParts> = {};
+  for (const field of fields) {
+    const read = readDateField(field);
+    parts.year ??= read.year;
+    parts.month ??= read.month;
+    parts.day ??= read.day;
+  }
+  const date = completeDate(parts);
+  return date ? toIsoDate(date) : raw;
+}
+
 function setHighlight(el: HTMLElement, status?: UIStatus) {
-  el.classList.remove('aiaf-highlight-pending', 'aiaf-highlight-uncertain', 'aiaf-highlight-filled');
+  el.classList.remove(
+    'aiaf-highlight-pending',
+    'aiaf-highlight-uncertain',
+    'aiaf-highlight-filled',
+    'aiaf-highlight-reverted',
+    'aiaf-highlight-invalid'
+  );
   if (!status) return;
   if (status === 'pending') el.classList.add('aiaf-highlight-pending');
   if (status === 'uncertain') el.classList.add('aiaf-highlight-uncertain');
-  if (status === 'filled') el.classList.add('aiaf-highlight-filled');
+  // a verified field looks like any other filled one
+  if (status === 'filled' || status === 'verified') el.classList.add('aiaf-highlight-filled');
+  if (status === 'reverted') el.classList.add('aiaf-highlight-reverted');
+  if (status === 'invalid') el.classList.add('aiaf-highlight-invalid');
 }
 
 const GROUP_HIGHLIGHT_PADDING = 8;
@@ -439,7 +738,9 @@ function positionHighlightElement(target: HTMLDivElement | null, rect: Rect | nu
   target.style.height = `${height}px`;
 }
 
-function computeCandidateViewportRect(cand: Candidate): Rect | null {
+// Where the field is in the top viewport, through same-origin and cross-origin frames
+export function computeCandidateViewportRect(cand: Candidate): Rect | null {
+  if (cand.frameId != null) return frameViewportRect(cand);
   const el = getElementForCandidate(cand);
   if (!el) return null;
   try {
@@ -512,7 +813,8 @@ function computeGroupViewportRect(groupId: string | null): Rect | null {
 }
 
 function applyGroupHighlight(kind: 'selected' | 'hover', groupId: string | null): void {
-  ensureGroupHighlightLayers();
+  // created on first use, so frames that only run fills (frameAgent.ts) get no layers
+  if (groupId) ensureGroupHighlightLayers();
   const rect = computeGroupViewportRect(groupId);
   if (kind === 'selected') {
     positionHighlightElement(groupHighlightSelected, rect);
@@ -544,73 +846,829 @@ hoveredFormGroupId.subscribe((id) => {
   applyGroupHighlight('hover', id);
 });
 
-export function applyCandidate(cand: Candidate, match: MatchResult, value: unknown): FillResult | null {
+function scopedValue(kc: KeyConfig, scope: AutofillScope | null): KeyConfig['value'] {
+  const scoped = scope ? kc.scopedValues?.[scope] : undefined;
+  return scoped ?? kc.value;
+}
+
+// Value a key fills into a given field: the scoped value when the field's autocomplete asks for
+// one we have (`billing postal-code`, `work email`), the key's plain value otherwise
+export function valueForCandidate(kc: KeyConfig, cand: Candidate): KeyConfig['value'] {
+  return scopedValue(kc, autofillScope(parseAutocomplete(cand.attributes?.autocomplete)));
+}
+
+// What the field says about itself: labels, autocomplete and the format hints dates need
+function fieldHints(cand: Candidate, el: Element | null): FieldHints {
+  const attrs = cand.attributes || {};
+  const hints: FieldHints = {
+    autocomplete: attrs.autocomplete,
+    texts: [cand.accessibleName?.value, attrs.placeholder, attrs['aria-label'], attrs.name, attrs.id]
+      .filter((t): t is string => typeof t === 'string' && t.length > 0),
+    inputType: cand.type || attrs.type,
+    placeholder: attrs.placeholder,
+    pattern: attrs.pattern,
+    lang: cand.lang
+  };
+  if (el instanceof HTMLInputElement && el.maxLength > 0) hints.maxLength = el.maxLength;
+  if (el instanceof HTMLSelectElement) hints.options = selectOptionLikes(el);
+  if (el && isRadioGroup(el)) {
+    hints.options = radioChoices(el).map((c) => ({ value: c.value, text: c.label, disabled: c.disabled }));
+  } else if (!el && cand.options) {
+    // a radio group of a cross-origin frame, as its scan listed it
+    hints.options = cand.options.map((o) => ({ value: o.value, text: o.label, disabled: o.disabled }));
+  }
+  return hints;
+}
+
+// Adapt a key's stored value to the field it lands in (phone parts, joined address lines, date formats)
+function fillValueFor(cand: Candidate, el: Element | null, match: MatchResult, value: unknown): unknown {
+  const scope = autofillScope(parseAutocomplete(cand.attributes?.autocomplete));
+  const values: Record<string, unknown> = {};
+  for (const kc of get(keys)) values[kc.key.key] = scopedValue(kc, scope);
+  const group = assignmentGroupOf(cand);
+  const siblings = matchesToFill(get(batch)).filter((m) => assignmentGroupOf(m.candidate) === group);
+  const siblingKeys = new Set(siblings.map((m) => m.key.key));
+  // the other fields of the same key: a split phone number's other parts
+  const siblingHints = siblings
+    .filter((m) => m.key.key === match.key.key && m.candidate.id !== cand.id)
+    .map((m) => fieldHints(m.candidate, getElementForCandidate(m.candidate)));
+  return deriveFillValue(match.key.key, value, fieldHints(cand, el), values, siblingKeys, siblingHints);
+}
+
+// Fields linked to `cand` through a confirmation pair
+function linkedCandidates(cand: Candidate): Candidate[] {
+  const ids = linkedCandidateIds(get(batch)?.confirmationPairs, cand.id);
+  if (ids.length === 0) return [];
+  return (get(scan)?.candidates || []).filter((c) => ids.includes(c.id));
+}
+
+export interface LinkOptions {
+  // also fill / undo the other field of a confirmation pair (default true)
+  linked?: boolean;
+}
+
+export interface ApplyOptions extends LinkOptions {
+  // cancels typing; a cancelled field keeps its previous value and is not recorded as applied
+  signal?: AbortSignal;
+}
+
+export async function applyCandidate(
+  cand: Candidate,
+  match: MatchResult,
+  value: unknown,
+  opts: ApplyOptions = {}
+): Promise<FillResult | null> {
+  const step = beginStep(`Apply ${candidateLabel(cand, match)}`);
+  try {
+    const res = await fillCandidate(cand, match, value, opts.signal);
+    if (res?.changed && opts.linked !== false) {
+      for (const other of linkedCandidates(cand)) {
+        if (!applied.has(other.id)) await fillCandidate(other, { ...match, candidate: other }, value, opts.signal);
+      }
+    }
+    return res;
+  } finally {
+    endStep(step);
+  }
+}
+
+// File inputs get the stored attachments the value names
+async function fillFileInput(el: HTMLInputElement, value: unknown): Promise<FillResult> {
+  try {
+    const { files, missing } = await loadAttachmentFiles(value);
+    const missingNote = missing.length ? `no stored attachment named ${missing.map((m) => `"${m}"`).join(', ')}` : '';
+    if (files.length === 0) return { changed: false, message: missingNote || 'no attachments' };
+    const res = fillElement(el, files);
+    return missingNote ? { ...res, message: [res.message, missingNote].filter(Boolean).join('; ') } : res;
+  } catch (error) {
+    return { changed: false, message: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+// `el` is null for a field of a cross-origin frame: its frame reads back `filled` and highlights it
+function markApplied(cand: Candidate, el: HTMLElement | null, original: unknown, appliedValue: unknown, filled?: unknown): void {
+  applied.set(cand.id, {
+    id: cand.id,
+    original,
+    appliedValue,
+    filled: el ? getOriginalValue(el) : filled,
+    ...locatorOf(cand)
+  });
+  forgetVerification(cand.id);
+  setRestoreFailure(cand.id, null);
+  if (el) setHighlight(el, 'filled');
+}
+
+function candidateLabel(cand: Candidate, match?: MatchResult): string {
+  return cand.accessibleName?.value || match?.key.label || match?.key.key || cand.attributes?.name || cand.path;
+}
+
+// A fill outside any step (a badge's apply) is a step of its own
+function recordApplied(
+  cand: Candidate,
+  el: HTMLElement | null,
+  original: unknown,
+  appliedValue: unknown,
+  label?: string,
+  filled?: unknown
+): void {
+  markApplied(cand, el, original, appliedValue, filled);
+  const own = beginStep(label || candidateLabel(cand));
+  openStep!.changes.push({ ...locatorOf(cand), label: label || candidateLabel(cand), before: original, after: appliedValue });
+  endStep(own);
+}
+
+// Opens a step unless one is open already; only the caller that opened it gets it back to end it
+function beginStep(label: string): FillStep | null {
+  if (openStep) return null;
+  openStep = { id: ++stepCounter, label, at: Date.now(), changes: [] };
+  return openStep;
+}
+
+// A step that filled nothing is not kept; a kept step clears the redo stack
+function endStep(step: FillStep | null): void {
+  if (!step || openStep !== step) return;
+  openStep = null;
+  if (step.changes.length === 0) return;
+  fillHistory.update((h) => ({ done: [...h.done, step].slice(-MAX_HISTORY_STEPS), undone: [] }));
+}
+
+async function fillCandidate(cand: Candidate, match: MatchResult, value: unknown, signal?: AbortSignal): Promise<FillResult | null> {
   const el = getElementForCandidate(cand);
-  if (!el) return null;
+  if (!el && cand.frameId == null) return null;
+  // Templates never tick consent boxes; the policy decides and the panel shows what was stopped
+  const consent = classifyConsent(cand);
+  if (consent) {
+    const action = consentActionFor(consent);
+    const message = `${describeConsentKind(consent.kind)} is ${describeConsentAction(action)}; not filled from ${match.key.label || match.key.key}`;
+    consentViolations.set(cand.id, message);
+    refreshConsentBoxes();
+    return { changed: false, message };
+  }
+  if (!el) return fillFrameCandidate(cand, match, fillValueFor(cand, null, match, value), signal);
   const orig = getOriginalValue(el);
-  const res = fillElement(el, value);
+  const fillValue = fillValueFor(cand, el, match, value);
+  const res = await writeField(el, fillValue, signal);
   if (res.changed) {
-    applied.set(cand.id, {
-      id: cand.id,
-      original: orig,
-      appliedValue: value,
-      path: cand.path,
-      framePath: cand.framePath
-    });
-    setHighlight(el, 'filled');
-    void import('../learning')
-      .then(({ recordAppliedMatch }) => {
-        if (typeof recordAppliedMatch === 'function') {
-          return recordAppliedMatch(match);
-        }
-        return undefined;
-      })
-      .catch(() => undefined);
+    recordApplied(cand, el, orig, fillValue, candidateLabel(cand, match));
+    learnFromApplied(match);
   }
   return res;
 }
 
-export function undoCandidate(cand: Candidate): boolean {
+// A field of a cross-origin frame is filled by its frame, which types it, checks it once its page
+// re-rendered and reports what it held
+async function fillFrameCandidate(cand: Candidate, match: MatchResult, fillValue: unknown, signal?: AbortSignal): Promise<FillResult> {
+  const reply = await sendFrameFill(cand, fillValue, 'filled', signal);
+  if (reply.changed) {
+    recordApplied(cand, null, reply.before, fillValue, candidateLabel(cand, match), reply.after);
+    if (reply.verification) verifications.update((all) => ({ ...all, [cand.id]: reply.verification! }));
+    learnFromApplied(match);
+  }
+  return { changed: reply.changed, message: reply.message, ...(reply.cancelled ? { cancelled: true } : {}) };
+}
+
+// Write an already adapted value: file inputs get stored attachments, everything else goes
+// through the filler (typed when the field asks for it)
+function writeField(el: HTMLElement, value: unknown, signal?: AbortSignal): Promise<FillResult> {
+  return el instanceof HTMLInputElement && el.type === 'file'
+    ? fillFileInput(el, value)
+    : fillElementAsync(el, value, { ...get(fillOptions), signal });
+}
+
+function learnFromApplied(match: MatchResult): void {
+  // A confirmation field only mirrors its primary; learning from it would teach its label the key
+  const mirrored = get(batch)?.confirmationPairs?.some((p) => p.confirmId === match.candidate.id);
+  if (mirrored) return;
+  void import('../learning')
+    .then(({ recordAppliedMatch }) => {
+      if (typeof recordAppliedMatch === 'function') {
+        return recordAppliedMatch(match);
+      }
+      return undefined;
+    })
+    .catch(() => undefined);
+}
+
+// Put back what a field held before it was filled, and check it reads back. A field that does
+// not (a dropdown without a way to clear it, a frame that cannot restore picked files) keeps
+// its fill and is listed in restoreFailures.
+async function restoreField(cand: Candidate | null, el: HTMLElement | null, before: unknown): Promise<boolean> {
+  let message: string | undefined;
+  let restored: boolean;
+  if (el) {
+    const res = await restoreElementAsync(el, before, get(fillOptions));
+    restored = displayValue(getOriginalValue(el)) === displayValue(before);
+    message = res.message;
+    if (restored) setHighlight(el, undefined);
+  } else if (cand?.frameId != null) {
+    const reply = await sendFrameFill(cand, before, null);
+    restored = reply.found && displayValue(reply.after) === displayValue(portableValue(before));
+    message = reply.message;
+  } else {
+    return false;
+  }
+  if (cand) setRestoreFailure(cand.id, restored ? null : `not restored to "${displayValue(before)}"${message ? `: ${message}` : ''}`);
+  return restored;
+}
+
+function setRestoreFailure(id: string, message: string | null): void {
+  const all = get(restoreFailures);
+  if (message == null && !(id in all)) return;
+  const next = { ...all };
+  if (message == null) delete next[id];
+  else next[id] = message;
+  restoreFailures.set(next);
+}
+
+// Resolves false when the field was not applied, or did not get its old value back
+export async function undoCandidate(cand: Candidate, opts: LinkOptions = {}): Promise<boolean> {
+  if (opts.linked !== false) {
+    for (const other of linkedCandidates(cand)) await undoCandidate(other, { linked: false });
+  }
   const info = applied.get(cand.id);
   if (!info) return false;
   const el = getElementForCandidate(cand);
-  if (!el) return false;
-  const res = fillElement(el, info.original as unknown);
+  if (!el && cand.frameId == null) return false;
+  if (!(await restoreField(cand, el, info.original))) return false;
   applied.delete(cand.id);
-  setHighlight(el, undefined);
-  void res; // ignore
+  forgetVerification(cand.id);
+  forgetChanges(cand);
+  if (classifyConsent(cand)) refreshConsentBoxes();
   return true;
 }
 
+// A field undone on its own leaves the steps that filled it, and nothing is left to redo
+function forgetChanges(cand: Candidate): void {
+  const h = get(fillHistory);
+  if (h.done.length === 0 && h.undone.length === 0) return;
+  const done = h.done
+    .map((step) => ({ ...step, changes: step.changes.filter((c) => locateCandidate(c)?.id !== cand.id) }))
+    .filter((step) => step.changes.length > 0);
+  fillHistory.set({ done, undone: [] });
+}
+
+function appliedIdFor(el: HTMLElement): string | null {
+  for (const info of applied.values()) {
+    if (resolveElementFromApplied(info) === el) return info.id;
+  }
+  return null;
+}
+
+// Gives fields back what they held before the changes, last filled first. Returns the changes
+// that could not be restored; fields that are gone count as restored.
+async function restoreChanges(changes: FillChange[]): Promise<FillChange[]> {
+  const failed: FillChange[] = [];
+  for (const change of [...changes].reverse()) {
+    const cand = locateCandidate(change);
+    const el = change.frameId != null ? null : resolveLocator(change);
+    if (change.frameId != null ? !cand : !el) continue;
+    if (!(await restoreField(cand, el, change.before))) {
+      failed.unshift(change);
+      continue;
+    }
+    const id = el ? appliedIdFor(el) : cand?.id;
+    if (id) {
+      applied.delete(id);
+      forgetVerification(id);
+    }
+  }
+  return failed;
+}
+
+// Undo the last fill step: its fields get back what they held before it, last filled first.
+// Fields are found through their locators, so a step still undoes after the page re-rendered.
+// Fields that could not be restored stay in the step, so undoing it again retries them; the
+// restored ones move to the redo stack.
+export async function undoStep(): Promise<FillStep | null> {
+  cancelFill();
+  const { done } = get(fillHistory);
+  const step = done[done.length - 1];
+  if (!step) return null;
+  const failed = await restoreChanges(step.changes);
+  const restored = step.changes.filter((c) => !failed.includes(c));
+  fillHistory.update((h) => ({
+    done: failed.length ? [...h.done.slice(0, -1), { ...step, changes: failed }] : h.done.slice(0, -1),
+    undone: restored.length ? [...h.undone, { ...step, changes: restored }] : h.undone
+  }));
+  refreshConsentBoxes();
+  return step;
+}
+
+// Fill the last undone step's values again, as a fill of its own: it shows progress and can be
+// cancelled. Changes a cancel did not reach stay undone.
+export async function redoStep(): Promise<FillStep | null> {
+  const { undone } = get(fillHistory);
+  const step = undone[undone.length - 1];
+  if (!step) return null;
+  const controller = startFill();
+  const redone: FillChange[] = [];
+  const pending: FillChange[] = [];
+  const filledIds: string[] = [];
+  try {
+    for (const [index, change] of step.changes.entries()) {
+      if (controller.signal.aborted) {
+        pending.push(change);
+        continue;
+      }
+      fillProgress.set({ done: index, total: step.changes.length, current: change.label, group: null });
+      const cand = locateCandidate(change);
+      if (change.frameId != null) {
+        const reply = cand ? await sendFrameFill(cand, change.after, 'filled', controller.signal) : null;
+        if (reply?.cancelled) {
+          pending.push(change);
+          continue;
+        }
+        redone.push(change);
+        if (!cand || !reply?.changed) continue;
+        markApplied(cand, null, reply.before, change.after, reply.after);
+        if (reply.verification) verifications.update((all) => ({ ...all, [cand.id]: reply.verification! }));
+        continue;
+      }
+      const el = resolveLocator(change);
+      if (!el) {
+        redone.push(change);
+        continue;
+      }
+      const orig = getOriginalValue(el);
+      const res = await writeField(el, change.after, controller.signal);
+      if (res.cancelled) {
+        pending.push(change);
+        continue;
+      }
+      redone.push(change);
+      if (!res.changed || !cand) continue;
+      markApplied(cand, el, orig, change.after);
+      filledIds.push(cand.id);
+    }
+  } finally {
+    finishFill(controller);
+  }
+  fillHistory.update((h) => {
+    const rest = h.undone.filter((s) => s !== step);
+    const kept = redone.length === step.changes.length ? step : { ...step, changes: redone };
+    return {
+      done: redone.length ? [...h.done, kept].slice(-MAX_HISTORY_STEPS) : h.done,
+      undone: pending.length ? [...rest, { ...step, changes: pending }] : rest
+    };
+  });
+  refreshConsentBoxes();
+  await verifyFills(filledIds);
+  return step;
+}
+
+// Values crossing frames go through message serialization: picked files travel as their names
+function portableValue(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map((v) => (v instanceof File ? v.name : v));
+  return value;
+}
+
+// Runs in a cross-origin frame: a fill or undo the top frame's coordinator asked for, on a field
+// of this frame's last scan. `signal` is aborted when the top frame cancels the fill; a fill is
+// verified here, since the top frame cannot read the field back.
+export async function runFrameFill(command: FrameFillCommand, candidates: Candidate[], signal?: AbortSignal): Promise<FrameFillResult> {
+  const cand = candidates.find((c) => c.id === command.candidateId);
+  const el = cand ? getElementForCandidate(cand) : null;
+  if (!el) return { found: false, changed: false, message: 'field not found in its frame' };
+  const original = getOriginalValue(el);
+  const before = portableValue(original);
+  // picked files cannot be sent back; an undo leaves a file input as it is
+  if (el instanceof HTMLInputElement && el.type === 'file' && command.highlight === null) {
+    return { found: true, changed: false, message: 'picked files are not restored across frames', before };
+  }
+  // an undo (no highlight) restores, which also empties custom dropdowns
+  const res =
+    command.highlight === null ? await restoreElementAsync(el, command.value, get(fillOptions)) : await writeField(el, command.value, signal);
+  const filled = getOriginalValue(el);
+  const result: FrameFillResult = { found: true, changed: res.changed, message: res.message, before, after: portableValue(filled) };
+  if (res.cancelled) return { ...result, cancelled: true };
+  if (command.highlight === null) {
+    setHighlight(el, undefined);
+    return result;
+  }
+  if (!res.changed) return result;
+  setHighlight(el, 'filled');
+  await settleRendering();
+  const verification = verifyFill(el, { original, filled, current: getOriginalValue(el) });
+  setHighlight(el, verification.outcome);
+  return { ...result, verification };
+}
+
 export function isApplied(id: string): boolean {
   return applied.has(id);
 }
 
-export function applyAll(): number {
+// Keys whose field on this page holds a fill
+export function appliedKeys(): string[] {
+  const keys = matchesToFill(get(batch))
+    .filter((m) => applied.has(m.candidate.id))
+    .map((m) => m.key.key);
+  return Array.from(new Set(keys));
+}
+
+function moveVerification(from: string, to: string): void {
+  const all = get(verifications);
+  if (!(from in all)) return;
+  const next = { ...all, [to]: all[from] };
+  delete next[from];
+  verifications.set(next);
+}
+
+function forgetVerification(id: string): void {
+  if (!(id in get(verifications))) return;
+  verifications.update((all) => {
+    const next = { ...all };
+    delete next[id];
+    return next;
+  });
+}
+
+// Re-read filled fields once the page has re-rendered: did the value stick, and does the page
+// accept it? Checks the given candidates, or every applied field.
+export async function verifyFills(ids?: string[]): Promise<Record<string, FieldVerification>> {
+  const infos = ids ? ids.map((id) => applied.get(id)).filter((i): i is AppliedInfo => !!i) : Array.from(applied.values());
+  if (infos.length === 0) return {};
+  await settleRendering();
+  const results: Record<string, FieldVerification> = {};
+  for (const info of infos) {
+    // undone while we waited
+    if (applied.get(info.id) !== info) continue;
+    const el = resolveElementFromApplied(info);
+    if (!el) continue;
+    const result = verifyFill(el, { original: info.original, filled: info.filled, current: getOriginalValue(el) });
+    results[info.id] = result;
+    setHighlight(el, result.outcome);
+  }
+  verifications.update((all) => ({ ...all, ...results }));
+  return results;
+}
+
+function consentActionFor(consent: ConsentClassification): ConsentAction {
+  return (get(runtimeSettings)?.consentPolicy ?? DEFAULT_CONSENT_POLICY)[consent.kind];
+}
+
+function refreshConsentBoxes(): void {
+  const s = get(scan);
+  const boxes: ConsentBox[] = [];
+  for (const cand of s ? candidatesForGroup(s.candidates, get(selectedFormGroupId)) : []) {
+    const classification = classifyConsent(cand);
+    if (!classification) continue;
+    const el = getElementForCandidate(cand);
+    const box: ConsentBox = {
+      candidate: cand,
+      classification,
+      action: consentActionFor(classification),
+      checked: el instanceof HTMLInputElement && el.checked
+    };
+    const violation = consentViolations.get(cand.id);
+    if (violation) box.violation = violation;
+    boxes.push(box);
+  }
+  if (s) {
+    const ids = new Set(s.candidates.map((c) => c.id));
+    for (const id of Array.from(consentViolations.keys())) if (!ids.has(id)) consentViolations.delete(id);
+  }
+  consentBoxes.set(boxes);
+}
+
+// Untick the boxes the policy keeps unchecked and the page pre-ticked. Returns the unticked ids.
+function enforceConsentPolicy(): string[] {
+  const out: string[] = [];
+  for (const box of get(consentBoxes)) {
+    if (box.action !== 'uncheck' || !box.checked) continue;
+    const el = getElementForCandidate(box.candidate);
+    if (!el) continue;
+    const orig = getOriginalValue(el);
+    if (!fillElement(el, false).changed) continue;
+    recordApplied(box.candidate, el, orig, false, `Uncheck ${candidateLabel(box.candidate)}`);
+    out.push(box.candidate.id);
+  }
+  if (out.length) refreshConsentBoxes();
+  return out;
+}
+
+// The user confirmed a box the policy asks about; tick it like any other fill (undo unticks it)
+export function confirmConsent(id: string): boolean {
+  const box = get(consentBoxes).find((b) => b.candidate.id === id);
+  if (!box || box.action !== 'prompt' || box.checked) return false;
+  const el = getElementForCandidate(box.candidate);
+  if (!el) return false;
+  const orig = getOriginalValue(el);
+  const res = fillElement(el, true);
+  if (res.changed) recordApplied(box.candidate, el, orig, true, `Check ${candidateLabel(box.candidate)}`);
+  consentViolations.delete(id);
+  refreshConsentBoxes();
+  return res.changed;
+}
+
+let activeFill: AbortController | null = null;
+
+// A new bulk fill (or undo) supersedes the one in progress
+function startFill(): AbortController {
+  activeFill?.abort();
+  const controller = new AbortController();
+  activeFill = controller;
+  fillProgress.set({ done: 0, total: 0, current: null, group: null });
+  return controller;
+}
+
+function finishFill(controller: AbortController) {
+  if (activeFill !== controller) return;
+  activeFill = null;
+  fillProgress.set(null);
+}
+
+// Stop the bulk fill in progress: the field being typed gets its previous value back,
+// fields already filled stay filled
+export function cancelFill(): boolean {
+  if (!activeFill) return false;
+  activeFill.abort();
+  return true;
+}
+
+async function fillMatches(signal: AbortSignal, group: string | null, filledIds: string[] = []): Promise<number> {
   const b = get(batch);
   const k = get(keys);
   if (!b) return 0;
-  let count = 0;
-  for (const one of Object.values(b.byKey)) {
-    const best = one[0];
-    if (!best) continue;
+  const jobs: Array<{ match: MatchResult; value: KeyConfig['value'] }> = [];
+  for (const best of matchesToFill(b)) {
     const kc = k.find((x) => x.key.key === best.key.key);
-    if (!kc || kc.value == null) continue;
+    const value = kc ? valueForCandidate(kc, best.candidate) : undefined;
+    if (value == null) continue;
     if (best.tier === 'reject') continue;
-    const res = applyCandidate(best.candidate, best, kc.value);
-    if (res?.changed) count++;
+    jobs.push({ match: best, value });
+  }
+  let count = 0;
+  for (const [index, { match, value }] of jobs.entries()) {
+    if (signal.aborted) break;
+    const current = match.candidate.accessibleName?.value || match.key.label || match.key.key;
+    fillProgress.set({ done: index, total: jobs.length, current, group });
+    // matchesToFill already lists both fields of a confirmation pair
+    const res = await applyCandidate(match.candidate, match, value, { linked: false, signal });
+    if (res?.changed) {
+      count++;
+      filledIds.push(match.candidate.id);
+    }
+  }
+  if (!signal.aborted) {
+    const unticked = enforceConsentPolicy();
+    count += unticked.length;
+    filledIds.push(...unticked);
   }
   return count;
 }
 
-export function undoAll(): number {
+export async function applyAll(): Promise<number> {
+  const controller = startFill();
+  const step = beginStep('Apply all');
+  const filledIds: string[] = [];
+  try {
+    return await fillMatches(controller.signal, null, filledIds);
+  } finally {
+    endStep(step);
+    finishFill(controller);
+    await verifyFills(filledIds);
+  }
+}
+
+// Dry run of applyAll for the selected group: what each field holds, what the fill would write,
+// and why a field would be left alone. Reads the page, writes nothing.
+export type FillSkipReason = 'reject' | 'no-value' | 'consent' | 'non-empty';
+
+export interface FillPlanRow {
+  candidate: Candidate;
+  // null for a consent box the policy unticks
+  match: MatchResult | null;
+  label: string;
+  keyLabel: string;
+  current: unknown;
+  proposed: unknown;
+  // display forms of current / proposed
+  currentText: string;
+  proposedText: string;
+  skip?: FillSkipReason;
+  // committed when set; starts as `!skip`, the panel toggles it
+  include: boolean;
+}
+
+export interface FillPlan {
+  group: string | null;
+  scanVersion: number;
+  createdAt: number;
+  rows: FillPlanRow[];
+}
+
+export interface FillPlanCommit {
+  filled: string[];
+  // included rows that have nothing to write (a reject or a missing value), and the row whose
+  // write failed
+  failed: Array<{ id: string; message?: string }>;
+  // included rows whose field moved or changed since the plan was made; nothing is written then
+  stale: string[];
+  cancelled: boolean;
+  // a failed write or a cancel put back what the commit had written; `filled` is empty then
+  rolledBack: boolean;
+}
+
+function displayValue(value: unknown): string {
+  if (value == null) return '';
+  if (typeof value === 'boolean') return value ? 'checked' : 'unchecked';
+  if (Array.isArray(value)) return value.map((v) => (v instanceof File ? v.name : String(v))).join(', ');
+  return String(value);
+}
+
+// A select showing its first option, unless the page marked it selected, still waits for a choice
+function isBlankField(el: HTMLElement, value: unknown): boolean {
+  if (el instanceof HTMLSelectElement && !el.multiple) {
+    return !el.value || (el.selectedIndex === 0 && !el.options[0]?.defaultSelected);
+  }
+  if (typeof value === 'boolean') return !value;
+  if (Array.isArray(value)) return value.length === 0;
+  return value == null || String(value).trim() === '';
+}
+
+function planRow(cand: Candidate, el: HTMLElement, match: MatchResult | null, proposed: unknown, skip?: FillSkipReason): FillPlanRow {
+  const current = getOriginalValue(el);
+  return {
+    candidate: cand,
+    match,
+    label: candidateLabel(cand, match ?? undefined),
+    keyLabel: match ? match.key.label || match.key.key : 'Consent policy',
+    current,
+    proposed,
+    currentText: displayValue(current),
+    proposedText: displayValue(proposed),
+    skip,
+    include: !skip
+  };
+}
+
+export function planFill(): FillPlan | null {
+  const s = get(scan);
+  const b = get(batch);
+  if (!s || !b) return null;
+  const k = get(keys);
+  const rows: FillPlanRow[] = [];
+  for (const match of matchesToFill(b)) {
+    const cand = match.candidate;
+    const el = getElementForCandidate(cand);
+    if (!el) continue;
+    const kc = k.find((x) => x.key.key === match.key.key);
+    const value = kc ? valueForCandidate(kc, cand) : undefined;
+    if (match.tier === 'reject') {
+      rows.push(planRow(cand, el, match, undefined, 'reject'));
+      continue;
+    }
+    if (value == null) {
+      rows.push(planRow(cand, el, match, undefined, 'no-value'));
+      continue;
+    }
+    if (classifyConsent(cand)) {
+      rows.push(planRow(cand, el, match, undefined, 'consent'));
+      continue;
+    }
+    const proposed = fillValueFor(cand, el, match, value);
+    rows.push(planRow(cand, el, match, proposed, isBlankField(el, getOriginalValue(el)) ? undefined : 'non-empty'));
+  }
+  for (const box of get(consentBoxes)) {
+    if (box.action !== 'uncheck' || !box.checked) continue;
+    const el = getElementForCandidate(box.candidate);
+    if (el) rows.push(planRow(box.candidate, el, null, false));
+  }
+  return { group: get(selectedFormGroupId), scanVersion: s.version, createdAt: Date.now(), rows };
+}
+
+// Write the included rows of a plan as one undo step, all or nothing. A plan whose fields moved
+// or changed since it was made is refused whole; a write that fails or a cancel stops the commit
+// and puts back what it wrote. Included rows with nothing to write are reported as failed.
+export async function commitPlan(plan: FillPlan, label = 'Apply plan'): Promise<FillPlanCommit> {
+  const out: FillPlanCommit = { filled: [], failed: [], stale: [], cancelled: false, rolledBack: false };
+  for (const row of plan.rows) {
+    if (row.include && row.proposed === undefined) {
+      out.failed.push({ id: row.candidate.id, message: `nothing to write (${row.skip ?? 'no proposed value'})` });
+    }
+  }
+  const rows = plan.rows.filter((r) => r.include && r.proposed !== undefined);
+  const targets = new Map<FillPlanRow, HTMLElement>();
+  for (const row of rows) {
+    const cand = locateCandidate(locatorOf(row.candidate));
+    const el = cand ? getElementForCandidate(cand) : null;
+    if (!el || displayValue(getOriginalValue(el)) !== row.currentText) out.stale.push(row.candidate.id);
+    else targets.set(row, el);
+  }
+  if (out.stale.length || rows.length === 0) return out;
+
+  const controller = startFill();
+  const step = beginStep(label);
+  // the step the writes are recorded into: this commit's own, or an outer one it joined
+  const recording = openStep!;
+  const recordedFrom = recording.changes.length;
+  let writeFailed = false;
+  try {
+    for (const [index, row] of rows.entries()) {
+      if (controller.signal.aborted) break;
+      fillProgress.set({ done: index, total: rows.length, current: row.label, group: null });
+      const el = targets.get(row)!;
+      const cand = locateCandidate(locatorOf(row.candidate)) ?? row.candidate;
+      // already showing it: nothing to write, nothing failed
+      if (row.currentText === row.proposedText) continue;
+      const res = await writeField(el, row.proposed, controller.signal);
+      if (!res.changed) {
+        if (res.cancelled) continue;
+        out.failed.push({ id: cand.id, message: res.message });
+        writeFailed = true;
+        break;
+      }
+      recordApplied(cand, el, row.current, row.proposed, row.label);
+      if (row.match) learnFromApplied({ ...row.match, candidate: cand });
+      out.filled.push(cand.id);
+    }
+  } finally {
+    out.cancelled = controller.signal.aborted;
+    // a commit that is rolled back never reaches the history, so the redo stack keeps its steps
+    if (!out.cancelled && !writeFailed) endStep(step);
+    else if (step && openStep === step) openStep = null;
+    finishFill(controller);
+  }
+  if (out.cancelled || writeFailed) {
+    const failed = await restoreChanges(recording.changes.splice(recordedFrom));
+    // writes that could not be put back stay undoable
+    if (failed.length && step) {
+      fillHistory.update((h) => ({ done: [...h.done, { ...step, changes: failed }].slice(-MAX_HISTORY_STEPS), undone: h.undone }));
+    } else if (failed.length) {
+      recording.changes.push(...failed);
+    }
+    refreshConsentBoxes();
+    out.filled = [];
+    out.rolledBack = true;
+    return out;
+  }
+  refreshConsentBoxes();
+  await verifyFills(out.filled);
+  return out;
+}
+
+// Fields shown after the page was filled: a collapsed "Billing address" accordion, an inactive
+// tab, a conditional "Other" input. The scanner reports them in `revealed`; within a fill session
+// (a fill on this page, or a wizard session) their fills are applied or offered per revealPolicy.
+// Wizard sessions always apply, they run unattended.
+export type RevealPolicy = 'auto' | 'offer';
+
+export const revealPolicy = writable<RevealPolicy>('offer');
+// Offered fills of revealed fields, waiting for fillRevealedFields
+export const revealedFills = writable<FillPlan | null>(null);
+
+function inFillSession(): boolean {
+  return get(fillHistory).done.length > 0 || !!get(wizardSession);
+}
+
+// Plan rows of the given fields that would be written; rejects, blanks and consent boxes stay out
+function revealedPlan(ids: string[]): FillPlan | null {
+  const plan = planFill();
+  if (!plan) return null;
+  const wanted = new Set(ids);
+  const rows = plan.rows.filter((row) => wanted.has(row.candidate.id) && !row.skip);
+  return rows.length ? { ...plan, rows } : null;
+}
+
+async function handleRevealedFields(ids: string[]): Promise<void> {
+  // before any fill, revealed fields join the next one like any other field
+  if (!inFillSession()) return;
+  const plan = revealedPlan(ids);
+  if (!plan) return;
+  // a fill already running would be cancelled by another one
+  if ((get(wizardSession) || get(revealPolicy) === 'auto') && !activeFill) {
+    await commitPlan(plan, 'Fill revealed fields');
+    return;
+  }
+  const offered = get(revealedFills)?.rows ?? [];
+  const fresh = new Set(plan.rows.map((row) => row.candidate.id));
+  revealedFills.set({ ...plan, rows: [...offered.filter((row) => !fresh.has(row.candidate.id)), ...plan.rows] });
+}
+
+// Apply the offered fills, planned again against the current page
+export async function fillRevealedFields(): Promise<FillPlanCommit | null> {
+  const offered = get(revealedFills);
+  revealedFills.set(null);
+  if (!offered) return null;
+  const ids = offered.rows.map((row) => locateCandidate(locatorOf(row.candidate))?.id).filter((id): id is string => !!id);
+  const plan = revealedPlan(ids);
+  return plan ? commitPlan(plan, 'Fill revealed fields') : null;
+}
+
+export function dismissRevealedFields(): void {
+  revealedFills.set(null);
+}
+
+export async function undoAll(): Promise<number> {
+  cancelFill();
   const s = get(scan);
   if (!s) return 0;
   const selectedGroup = get(selectedFormGroupId);
   const candidates = candidatesForGroup(s.candidates, selectedGroup);
   let count = 0;
   for (const cand of candidates) {
-    if (undoCandidate(cand)) count++;
+    if (await undoCandidate(cand, { linked: false })) count++;
   }
   return count;
 }
@@ -628,7 +1686,7 @@ export function refreshHighlights() {
     if (!el) continue;
     const applied = isApplied(cand.id);
     const view = viewById.get(cand.id);
-    const status: UIStatus | undefined = applied ? 'filled' : view?.status;
+    const status: UIStatus | undefined = applied ? view?.verification?.outcome ?? 'filled' : view?.status;
     setHighlight(el, status);
   }
 }
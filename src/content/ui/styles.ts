@@ -17,6 +17,17 @@ export function ensureOverlayStyles(): void {
     font-weight: 600; cursor: pointer; pointer-events: auto; user-select: none;
   }
   .aiaf-fab:hover { filter: brightness(1.05); }
+  .aiaf-fill-progress {
+    position: fixed; right: 76px; bottom: 28px; max-width: 320px;
+    display: flex; align-items: center; gap: 8px; padding: 6px 10px; border-radius: 16px;
+    background: #111827; color: #f9fafb; font: 12px ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, Arial;
+    box-shadow: 0 6px 16px rgba(0,0,0,0.2); pointer-events: auto;
+  }
+  .aiaf-fill-progress .text { overflow: hidden; white-space: nowrap; text-overflow: ellipsis; }
+  .aiaf-fill-progress .group { color: #9ca3af; margin-left: 4px; }
+  .aiaf-fill-progress button { background: transparent; color: #93c5fd; border: 0; cursor: pointer; font: inherit; padding: 0; }
+  .aiaf-wizard-progress .bar { flex: 0 0 48px; height: 4px; border-radius: 2px; background: #374151; overflow: hidden; }
+  .aiaf-wizard-progress .bar span { display: block; height: 100%; background: #34d399; }
 
   /* Preview Panel */
   .aiaf-panel { position: fixed; right: 20px; bottom: 80px; width: 320px; max-height: 60vh; overflow: auto;
@@ -29,6 +40,7 @@ export function ensureOverlayStyles(): void {
   .aiaf-panel .row:last-child { border-bottom: none; }
   .aiaf-panel .key { font-weight: 600; font-size: 12px; color: #111827; }
   .aiaf-panel .target { font-size: 12px; color: #374151; }
+  .aiaf-panel .hint { font-size: 11px; color: #6b7280; }
   .aiaf-panel .score { font-size: 11px; color: #6b7280; }
   .aiaf-panel button { background: #f3f4f6; border: 1px solid #e5e7eb; border-radius: 6px; padding: 4px 8px; cursor: pointer; font-size: 12px; }
   .aiaf-panel button.primary { background: #2d6cdf; color: #fff; border-color: #2d6cdf; }
@@ -44,11 +56,19 @@ export function ensureOverlayStyles(): void {
   .aiaf-badge.uncertain .dot { background: #ef4444; }
   .aiaf-badge.filled { background: #f0fdf4; color: #14532d; border: 1px solid #bbf7d0; }
   .aiaf-badge.filled .dot { background: #22c55e; }
+  .aiaf-badge.verified { background: #f0fdf4; color: #14532d; border: 1px solid #86efac; }
+  .aiaf-badge.verified .dot { background: #16a34a; }
+  .aiaf-badge.reverted { background: #fff7ed; color: #9a3412; border: 1px solid #fdba74; }
+  .aiaf-badge.reverted .dot { background: #ea580c; }
+  .aiaf-badge.invalid { background: #fef2f2; color: #991b1b; border: 1px solid #fca5a5; }
+  .aiaf-badge.invalid .dot { background: #dc2626; }
 
   /* Field highlighting */
   .aiaf-highlight-pending { outline: 2px solid rgba(245, 158, 11, 0.9); outline-offset: 2px; }
   .aiaf-highlight-uncertain { outline: 2px dashed rgba(239, 68, 68, 0.9); outline-offset: 2px; }
   .aiaf-highlight-filled { outline: 2px solid rgba(34, 197, 94, 0.9); outline-offset: 2px; }
+  .aiaf-highlight-reverted { outline: 2px dashed rgba(234, 88, 12, 0.9); outline-offset: 2px; }
+  .aiaf-highlight-invalid { outline: 2px solid rgba(220, 38, 38, 0.9); outline-offset: 2px; }
 
   /* Form group highlights */
   .aiaf-formgroup-highlight {
@@ -0,0 +1,102 @@
+// Post-fill verification: controlled React/Angular inputs may put their old value back on the
+// next render, and validators may reject what was typed. After a fill batch every filled field is
+// re-read once rendering settles and classified as verified, reverted or invalid.
+
+export type VerificationOutcome = 'verified' | 'reverted' | 'invalid';
+
+export interface FieldVerification {
+  outcome: VerificationOutcome;
+  // validation message or the error text shown next to the field
+  message?: string;
+  // where `message` came from
+  source?: 'validity' | 'aria-invalid' | 'aria-errormessage' | 'aria-describedby';
+}
+
+export interface FilledValues {
+  original: unknown; // before the fill
+  filled: unknown; // read back right after the fill
+  current: unknown; // read back now
+}
+
+// Longest wait for an animation frame; hidden tabs do not run them
+const FRAME_TIMEOUT_MS = 100;
+
+// Let frameworks re-render: a microtask (React 18 / Vue batched updates), then an animation frame
+export async function settleRendering(win: Window = window): Promise<void> {
+  await Promise.resolve();
+  await new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, FRAME_TIMEOUT_MS);
+    win.requestAnimationFrame(() => {
+      clearTimeout(timer);
+      resolve();
+    });
+  });
+}
+
+function comparable(value: unknown): string {
+  if (Array.isArray(value)) {
+    return JSON.stringify(value.map((v) => (v instanceof File ? `${v.name}:${v.size}` : v)));
+  }
+  if (typeof value === 'string') return value.trim();
+  return JSON.stringify(value ?? null);
+}
+
+function isEmpty(value: unknown): boolean {
+  return value == null || value === '' || value === false || (Array.isArray(value) && value.length === 0);
+}
+
+function text(el: Element): string {
+  return (el.textContent || '').replace(/\s+/g, ' ').trim();
+}
+
+function isShown(el: Element): boolean {
+  if (!(el instanceof HTMLElement) || el.getClientRects().length === 0) return false;
+  return getComputedStyle(el).visibility !== 'hidden';
+}
+
+function referenced(el: Element, attr: string): Element[] {
+  const scope = el.getRootNode() as Document | ShadowRoot;
+  return (el.getAttribute(attr) || '')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((id) => scope.getElementById?.(id) ?? el.ownerDocument.getElementById(id))
+    .filter((n): n is HTMLElement => !!n);
+}
+
+// Descriptions are often plain hints ("8 characters minimum"); only error-looking ones count
+function looksLikeError(el: Element): boolean {
+  const role = el.getAttribute('role');
+  if (role === 'alert' || el.getAttribute('aria-live') === 'assertive') return true;
+  return /error|invalid|danger|warning/i.test(typeof el.className === 'string' ? el.className : '');
+}
+
+// Error shown for the field, if any
+export function fieldError(el: HTMLElement): Pick<FieldVerification, 'message' | 'source'> | null {
+  const ariaInvalid = (el.getAttribute('aria-invalid') || '').toLowerCase();
+  const flagged = ariaInvalid !== '' && ariaInvalid !== 'false';
+  for (const ref of referenced(el, 'aria-errormessage')) {
+    if (isShown(ref) && text(ref)) return { message: text(ref), source: 'aria-errormessage' };
+  }
+  for (const ref of referenced(el, 'aria-describedby')) {
+    if (isShown(ref) && text(ref) && (flagged || looksLikeError(ref))) return { message: text(ref), source: 'aria-describedby' };
+  }
+  // validity rather than checkValidity(): same constraints, without firing `invalid` at the page
+  const validity = (el as HTMLInputElement).validity as ValidityState | undefined;
+  if (validity && !validity.valid) {
+    return { message: (el as HTMLInputElement).validationMessage || 'invalid value', source: 'validity' };
+  }
+  if (flagged) return { message: 'marked invalid', source: 'aria-invalid' };
+  return null;
+}
+
+export function verifyFill(el: HTMLElement, values: FilledValues): FieldVerification {
+  const { original, filled, current } = values;
+  // Reformatting ("4155552671" -> "(415) 555-2671") is fine; going back to the old value is not
+  const changedSinceFill = comparable(current) !== comparable(filled);
+  if (changedSinceFill && (comparable(current) === comparable(original) || isEmpty(current))) {
+    return { outcome: 'reverted', message: isEmpty(current) ? 'field was cleared' : 'field went back to its previous value' };
+  }
+  const error = fieldError(el);
+  if (error) return { outcome: 'invalid', ...error };
+  return { outcome: 'verified' };
+}
@@ -0,0 +1,495 @@
+/*
+  Widget drivers for custom dropdowns and comboboxes
+  - Detected by markup signature: react-select, MUI Autocomplete, Select2, then any ARIA combobox
+  - Open the popup and wait for its role="listbox" / role="option" nodes to render
+  - Pick the option for the value with the <select> rules (value, text, country names, fuzzy)
+  - Confirm with a click, or arrow keys + Enter, then read back the visible selection
+  - Undo empties the widget (clear button, or Backspace in its search input) and picks the old options again
+*/
+
+import { resolveSelectOption, type OptionMatch, type SelectOptionLike } from '../lib/selectOptions';
+import type { FillOptions, FillResult } from './filler';
+
+export type WidgetDriverName = 'react-select' | 'mui-autocomplete' | 'select2' | 'aria-listbox';
+
+interface WidgetDriver {
+  name: WidgetDriverName;
+  // Widget root when `el` is part of this driver's markup
+  detect(el: HTMLElement): HTMLElement | null;
+  // Element that takes focus, keys and typed queries
+  trigger(root: HTMLElement, el: HTMLElement): HTMLElement;
+  // Element the popup opens on, and the event that opens it
+  opener(root: HTMLElement, trigger: HTMLElement): HTMLElement;
+  openEvent: 'mousedown' | 'click';
+  // Options container of the open popup (often portalled to <body>)
+  listbox(root: HTMLElement, trigger: HTMLElement): HTMLElement | null;
+  options(listbox: HTMLElement): HTMLElement[];
+  // Text input that filters the options, when the widget has one
+  search(root: HTMLElement, trigger: HTMLElement): HTMLInputElement | null;
+  // What the widget shows as selected, one entry per chosen option
+  selection(root: HTMLElement, trigger: HTMLElement): string[];
+  // Button that empties the selection, when the widget renders one
+  clear(root: HTMLElement): HTMLElement | null;
+}
+
+export interface WidgetTarget {
+  driver: WidgetDriver;
+  root: HTMLElement;
+  trigger: HTMLElement;
+}
+
+// How long the popup gets to render its options, and the selection to show up
+const DEFAULT_WIDGET_TIMEOUT_MS = 1500;
+const SETTLE_TIMEOUT_MS = 400;
+const POLL_MS = 40;
+
+function text(el: Element | null | undefined): string {
+  return (el?.textContent || '').replace(/\s+/g, ' ').trim();
+}
+
+function norm(value: string): string {
+  return value.normalize('NFKC').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function isShown(el: Element | null | undefined): el is HTMLElement {
+  if (!(el instanceof HTMLElement) || el.getClientRects().length === 0) return false;
+  const style = getComputedStyle(el);
+  return style.visibility !== 'hidden' && style.display !== 'none';
+}
+
+function isTextInput(el: Element | null | undefined): el is HTMLInputElement {
+  return el instanceof HTMLInputElement && /^(text|search|email|tel|url|)$/i.test(el.type);
+}
+
+// Elements named by an id-reference attribute (aria-controls, aria-owns), in the same tree first
+function byIdRef(el: Element, attr: string): HTMLElement[] {
+  const ids = (el.getAttribute(attr) || '').split(/\s+/).filter(Boolean);
+  const scope = el.getRootNode() as Document | ShadowRoot;
+  const out: HTMLElement[] = [];
+  for (const id of ids) {
+    const found = scope.getElementById?.(id) ?? document.getElementById(id);
+    if (found instanceof HTMLElement) out.push(found);
+  }
+  return out;
+}
+
+// Nearest ancestor (or self) with a class token matching `pattern`
+function closestByClass(el: Element, pattern: RegExp): HTMLElement | null {
+  for (let node: Element | null = el; node; node = node.parentElement) {
+    if (node instanceof HTMLElement && Array.from(node.classList).some((c) => pattern.test(c))) return node;
+  }
+  return null;
+}
+
+function findByClass(root: ParentNode, pattern: RegExp): HTMLElement[] {
+  return Array.from(root.querySelectorAll<HTMLElement>('[class]')).filter((n) => Array.from(n.classList).some((c) => pattern.test(c)));
+}
+
+function enabledOptions(list: HTMLElement[]): HTMLElement[] {
+  return list.filter((o) => o.getAttribute('aria-disabled') !== 'true' && !o.hasAttribute('disabled'));
+}
+
+function ariaListbox(root: HTMLElement, trigger: HTMLElement): HTMLElement | null {
+  const referenced = [...byIdRef(trigger, 'aria-controls'), ...byIdRef(trigger, 'aria-owns'), ...byIdRef(root, 'aria-owns')];
+  for (const el of referenced) {
+    const box = el.matches('[role="listbox"]') ? el : el.querySelector<HTMLElement>('[role="listbox"]') ?? el;
+    if (isShown(box)) return box;
+  }
+  const inside = Array.from(root.querySelectorAll<HTMLElement>('[role="listbox"]')).find(isShown);
+  if (inside) return inside;
+  // A portalled popup without an id reference: only trust it when it is the one listbox on screen
+  if (trigger.getAttribute('aria-expanded') !== 'true') return null;
+  const open = Array.from(document.querySelectorAll<HTMLElement>('[role="listbox"]')).filter(isShown);
+  return open.length === 1 ? open[0] : null;
+}
+
+const REACT_SELECT_CONTROL = /^(css-\w+-control|[\w-]+__control)$/;
+
+const reactSelect: WidgetDriver = {
+  name: 'react-select',
+  detect(el) {
+    const control = closestByClass(el, REACT_SELECT_CONTROL);
+    if (!control?.parentElement) return null;
+    const input = el instanceof HTMLInputElement ? el : control.querySelector('input');
+    const signed =
+      /^react-select-[\w-]+-input$/.test(input?.id || '') ||
+      Array.from(control.classList).some((c) => c.startsWith('react-select__') || /^css-\w+-control$/.test(c));
+    return signed ? control.parentElement : null;
+  },
+  trigger: (root, el) => (el instanceof HTMLInputElement ? el : root.querySelector('input') ?? el),
+  opener: (root) => findByClass(root, REACT_SELECT_CONTROL)[0] ?? root,
+  openEvent: 'mousedown',
+  listbox(root, trigger) {
+    const byId = trigger.id.endsWith('-input') ? document.getElementById(trigger.id.replace(/-input$/, '-listbox')) : null;
+    if (isShown(byId)) return byId;
+    return findByClass(root, /^(css-\w+-MenuList|[\w-]+__menu-list)$/).find(isShown) ?? ariaListbox(root, trigger);
+  },
+  options: (listbox) => {
+    const byRole = Array.from(listbox.querySelectorAll<HTMLElement>('[role="option"]'));
+    const list = byRole.length ? byRole : findByClass(listbox, /^(css-\w+-option|[\w-]+__option)$/);
+    return enabledOptions(list.filter((o) => !Array.from(o.classList).some((c) => c.endsWith('--is-disabled'))));
+  },
+  search: (_root, trigger) => (isTextInput(trigger) ? trigger : null),
+  selection: (root) =>
+    findByClass(root, /^(css-\w+-singleValue|[\w-]+__single-value|css-\w+-MultiValueGeneric|[\w-]+__multi-value__label)$/).map(text),
+  // Emotion class names do not tell the clear indicator apart; Backspace removes values instead
+  clear: (root) => findByClass(root, /^[\w-]+__clear-indicator$/)[0] ?? null
+};
+
+const muiAutocomplete: WidgetDriver = {
+  name: 'mui-autocomplete',
+  detect: (el) => el.closest<HTMLElement>('.MuiAutocomplete-root'),
+  trigger: (root, el) => (el instanceof HTMLInputElement ? el : root.querySelector<HTMLInputElement>('input.MuiAutocomplete-input') ?? el),
+  opener: (_root, trigger) => trigger,
+  openEvent: 'mousedown',
+  listbox: (root, trigger) =>
+    ariaListbox(root, trigger) ??
+    Array.from(document.querySelectorAll<HTMLElement>('.MuiAutocomplete-popper .MuiAutocomplete-listbox')).find(isShown) ??
+    null,
+  options: (listbox) => enabledOptions(Array.from(listbox.querySelectorAll<HTMLElement>('[role="option"]'))),
+  search: (_root, trigger) => (isTextInput(trigger) ? trigger : null),
+  selection(root, trigger) {
+    const chips = Array.from(root.querySelectorAll('.MuiChip-label')).map(text);
+    if (chips.length) return chips;
+    return isTextInput(trigger) && trigger.value ? [trigger.value] : [];
+  },
+  clear: (root) => root.querySelector<HTMLElement>('.MuiAutocomplete-clearIndicator')
+};
+
+const select2: WidgetDriver = {
+  name: 'select2',
+  detect: (el) => el.closest<HTMLElement>('.select2-container'),
+  trigger: (root, el) => root.querySelector<HTMLElement>('.select2-selection') ?? el,
+  opener: (_root, trigger) => trigger,
+  openEvent: 'mousedown',
+  listbox: (root, trigger) =>
+    ariaListbox(root, trigger) ??
+    Array.from(document.querySelectorAll<HTMLElement>('.select2-container--open .select2-results__options')).find(isShown) ??
+    null,
+  options: (listbox) =>
+    enabledOptions(
+      Array.from(listbox.querySelectorAll<HTMLElement>('.select2-results__option')).filter(
+        (o) =>
+          o.getAttribute('role') !== 'group' &&
+          !o.classList.contains('select2-results__option--disabled') &&
+          !o.classList.contains('select2-results__message') &&
+          !o.classList.contains('loading-results')
+      )
+    ),
+  // Multi-selects search inline; single selects get a search box in the dropdown
+  search: (root) =>
+    [root, ...Array.from(document.querySelectorAll('.select2-dropdown'))]
+      .map((scope) => scope.querySelector<HTMLInputElement>('.select2-search__field'))
+      .find(isShown) ?? null,
+  selection(root) {
+    if (root.querySelector('.select2-selection__placeholder')) return [];
+    const choices = Array.from(root.querySelectorAll<HTMLElement>('.select2-selection__choice'));
+    const nodes = choices.length ? choices : Array.from(root.querySelectorAll<HTMLElement>('.select2-selection__rendered'));
+    return nodes.map((n) => n.getAttribute('title') || text(n).replace(/^×\s*/, '')).filter(Boolean);
+  },
+  // Only with allowClear; multi-selects also take Backspace in their inline search
+  clear: (root) => root.querySelector<HTMLElement>('.select2-selection__clear')
+};
+
+const genericListbox: WidgetDriver = {
+  name: 'aria-listbox',
+  detect(el) {
+    if (el instanceof HTMLSelectElement || el instanceof HTMLTextAreaElement) return null;
+    const role = (el.getAttribute('role') || '').toLowerCase();
+    const popup = (el.getAttribute('aria-haspopup') || '').toLowerCase();
+    if (role === 'combobox' || popup === 'listbox') return el;
+    return null;
+  },
+  // ARIA 1.1 comboboxes wrap their text input
+  trigger: (root, el) => (el === root && !(el instanceof HTMLInputElement) ? root.querySelector<HTMLInputElement>('input') ?? el : el),
+  opener: (_root, trigger) => trigger,
+  openEvent: 'click',
+  listbox: ariaListbox,
+  options: (listbox) => enabledOptions(Array.from(listbox.querySelectorAll<HTMLElement>('[role="option"]'))),
+  search: (_root, trigger) => (isTextInput(trigger) ? trigger : null),
+  selection(root, trigger) {
+    if (trigger instanceof HTMLInputElement) return trigger.value ? [trigger.value] : [];
+    const clone = root.cloneNode(true) as HTMLElement;
+    clone.querySelectorAll('[role="listbox"]').forEach((n) => n.remove());
+    const shown = text(clone);
+    return shown ? [shown] : [];
+  },
+  clear: () => null
+};
+
+// Library drivers first: their markup also carries role="combobox"
+const DRIVERS: WidgetDriver[] = [reactSelect, muiAutocomplete, select2, genericListbox];
+
+export function detectWidget(el: Element): WidgetTarget | null {
+  if (!(el instanceof HTMLElement)) return null;
+  for (const driver of DRIVERS) {
+    const root = driver.detect(el);
+    if (root) return { driver, root, trigger: driver.trigger(root, el) };
+  }
+  return null;
+}
+
+// Whether a plain text fill is a fair fallback: a free-text ARIA combobox (address lookups,
+// search suggestions) takes typed text; library widgets do not
+export function acceptsTypedText(target: WidgetTarget): boolean {
+  return target.driver.name === 'aria-listbox' && isTextInput(target.trigger);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function waitFor<T>(probe: () => T | null, timeoutMs: number, signal?: AbortSignal): Promise<T | null> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    if (signal?.aborted) return null;
+    const hit = probe();
+    if (hit) return hit;
+    if (Date.now() >= deadline) return null;
+    await sleep(POLL_MS);
+  }
+}
+
+function fire(el: Element, ev: Event): void {
+  try {
+    el.dispatchEvent(ev);
+  } catch {
+    // ignore
+  }
+}
+
+function mouse(el: Element, type: string): void {
+  const init: MouseEventInit = { bubbles: true, cancelable: true, composed: true, button: 0, buttons: type.endsWith('down') ? 1 : 0 };
+  if (type.startsWith('pointer')) {
+    fire(el, typeof PointerEvent === 'function' ? new PointerEvent(type, { ...init, pointerType: 'mouse', isPrimary: true }) : new MouseEvent(type, init));
+  } else {
+    fire(el, new MouseEvent(type, init));
+  }
+}
+
+function clickLike(el: Element, upTo: 'mousedown' | 'click'): void {
+  mouse(el, 'pointerdown');
+  mouse(el, 'mousedown');
+  if (upTo === 'mousedown') return;
+  mouse(el, 'pointerup');
+  mouse(el, 'mouseup');
+  mouse(el, 'click');
+}
+
+const KEY_CODES: Record<string, number> = { ArrowDown: 40, Enter: 13, Escape: 27, Backspace: 8 };
+
+function press(el: Element, key: 'ArrowDown' | 'Enter' | 'Escape' | 'Backspace'): void {
+  for (const type of ['keydown', 'keyup'] as const) {
+    // keyCode/which for jQuery-based widgets (Select2)
+    fire(el, new KeyboardEvent(type, { key, code: key, keyCode: KEY_CODES[key], which: KEY_CODES[key], bubbles: true, cancelable: true, composed: true }));
+  }
+}
+
+function focus(el: HTMLElement): void {
+  try {
+    if (document.activeElement !== el) el.focus({ preventScroll: true });
+  } catch {
+    // ignore
+  }
+}
+
+// Type a filter query the way frameworks notice it (native setter + input event)
+function setQuery(input: HTMLInputElement, query: string): void {
+  const setter = Object.getOwnPropertyDescriptor(HTMLInputElement.prototype, 'value')?.set;
+  if (setter) setter.call(input, query);
+  else input.value = query;
+  fire(input, new InputEvent('input', { bubbles: true, inputType: 'insertText', data: query }));
+  fire(input, new KeyboardEvent('keyup', { key: query.slice(-1), bubbles: true }));
+}
+
+function optionLike(o: HTMLElement): SelectOptionLike {
+  const label = text(o);
+  return { value: o.getAttribute('data-value') ?? o.getAttribute('value') ?? label, text: label };
+}
+
+function shows(target: WidgetTarget, optionText: string): boolean {
+  const wanted = norm(optionText);
+  return target.driver.selection(target.root, target.trigger).some((s) => norm(s) === wanted || norm(s).includes(wanted));
+}
+
+async function openPopup(target: WidgetTarget, timeoutMs: number, signal?: AbortSignal): Promise<HTMLElement | null> {
+  const { driver, root, trigger } = target;
+  const listbox = () => driver.listbox(root, trigger);
+  if (listbox()) return listbox();
+  focus(trigger);
+  clickLike(driver.opener(root, trigger), driver.openEvent);
+  const opened = await waitFor(listbox, timeoutMs / 2, signal);
+  if (opened || signal?.aborted) return opened;
+  // Keyboard opening works for most comboboxes that ignore synthetic mouse events
+  press(trigger, 'ArrowDown');
+  return waitFor(listbox, timeoutMs / 2, signal);
+}
+
+interface PickedOption {
+  match: OptionMatch;
+  option: HTMLElement;
+}
+
+// Option for `value` in the open popup, typing it as a filter when the list does not have it
+// (long lists, options loaded as you type)
+async function findOption(
+  target: WidgetTarget,
+  listbox: HTMLElement,
+  value: string,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<PickedOption | null> {
+  const { driver, root, trigger } = target;
+  const pick = (box: HTMLElement | null): PickedOption | null => {
+    if (!box) return null;
+    const options = driver.options(box);
+    const match = resolveSelectOption(value, options.map(optionLike));
+    return match ? { match, option: options[match.index] } : null;
+  };
+  const first = await waitFor(() => (driver.options(listbox).length ? listbox : null), timeoutMs / 2, signal);
+  const direct = pick(first);
+  if (direct || signal?.aborted) return direct;
+  const search = driver.search(root, trigger);
+  if (!search) return null;
+  setQuery(search, value);
+  return waitFor(() => pick(driver.listbox(root, trigger)), timeoutMs, signal);
+}
+
+async function commitOption(target: WidgetTarget, picked: PickedOption, signal?: AbortSignal): Promise<boolean> {
+  const { driver, root, trigger } = target;
+  // A typed query shows in the input before anything is committed, so input-based widgets also
+  // need the popup closed or the option marked selected
+  const committed = () =>
+    shows(target, picked.match.text) &&
+    (!isTextInput(trigger) || !driver.listbox(root, trigger) || picked.option.getAttribute('aria-selected') === 'true');
+  picked.option.scrollIntoView?.({ block: 'nearest' });
+  clickLike(picked.option, 'click');
+  if (await waitFor(committed, SETTLE_TIMEOUT_MS, signal)) return true;
+  if (signal?.aborted) return false;
+
+  // Keyboard fallback: walk the active option down to ours, then Enter
+  const id = picked.option.id;
+  if (!id || !driver.listbox(root, trigger)) return false;
+  const keys = driver.search(root, trigger) ?? trigger;
+  focus(keys);
+  for (let i = 0; i <= picked.match.index + 1 && keys.getAttribute('aria-activedescendant') !== id; i++) press(keys, 'ArrowDown');
+  if (keys.getAttribute('aria-activedescendant') !== id) return false;
+  press(keys, 'Enter');
+  return !!(await waitFor(committed, SETTLE_TIMEOUT_MS, signal));
+}
+
+function closePopup(target: WidgetTarget): void {
+  if (target.driver.listbox(target.root, target.trigger)) press(target.trigger, 'Escape');
+}
+
+function describeMatch(match: OptionMatch): string {
+  return `"${match.text || match.value}" (${match.reason}, ${match.confidence.toFixed(2)})`;
+}
+
+// Drive a custom dropdown to the option(s) for `value`. Resolves null when no option could be
+// picked and the widget takes free text instead (see acceptsTypedText).
+export async function fillWidget(target: WidgetTarget, value: unknown, options: FillOptions = {}): Promise<FillResult | null> {
+  const { driver, root, trigger } = target;
+  const name = driver.name;
+  if (trigger.getAttribute('aria-disabled') === 'true' || (trigger as HTMLInputElement).disabled) {
+    return { changed: false, message: 'disabled' };
+  }
+  const timeoutMs = options.widgetTimeoutMs ?? DEFAULT_WIDGET_TIMEOUT_MS;
+  const values = (Array.isArray(value) ? value : [value]).map((v) => String(v ?? '').trim()).filter(Boolean);
+  if (values.length === 0) return { changed: false, message: 'no value' };
+
+  const before = driver.selection(root, trigger).join('|');
+  const selected: OptionMatch[] = [];
+  const problems: string[] = [];
+  for (const v of values) {
+    if (options.signal?.aborted) break;
+    const listbox = await openPopup(target, timeoutMs, options.signal);
+    if (!listbox) {
+      problems.push(`${name} popup did not open`);
+      break;
+    }
+    const picked = await findOption(target, listbox, v, timeoutMs, options.signal);
+    if (!picked) {
+      problems.push(`no option matches "${v}"`);
+      closePopup(target);
+      continue;
+    }
+    // Clicking an option that is already selected would toggle it off in multi-selects
+    const already = picked.option.getAttribute('aria-selected') === 'true' && shows(target, picked.match.text);
+    if (already) closePopup(target);
+    if (already || (await commitOption(target, picked, options.signal))) {
+      selected.push(picked.match);
+    } else {
+      const shown = driver.selection(root, trigger).join(', ');
+      problems.push(`picked ${describeMatch(picked.match)}, widget shows ${shown ? `"${shown}"` : 'nothing'}`);
+      closePopup(target);
+    }
+    // Single-value widgets take the first value only
+    const multiple = listbox.getAttribute('aria-multiselectable') === 'true' || driver.selection(root, trigger).length > 1;
+    if (!multiple) break;
+  }
+  if (options.signal?.aborted) {
+    closePopup(target);
+    return { changed: before !== driver.selection(root, trigger).join('|'), cancelled: true, driver: name };
+  }
+
+  if (selected.length === 0 && acceptsTypedText(target)) return null;
+  if (options.blurAfter && document.activeElement === trigger) trigger.blur();
+
+  const changed = before !== driver.selection(root, trigger).join('|');
+  const message = [selected.length ? `selected ${selected.map(describeMatch).join(', ')} via ${name}` : '', ...problems]
+    .filter(Boolean)
+    .join('; ');
+  return selected.length ? { changed, message, selected, driver: name } : { changed, message };
+}
+
+// What the widget shows as selected, one entry per chosen option
+export function widgetSelection(target: WidgetTarget): string[] {
+  return target.driver.selection(target.root, target.trigger);
+}
+
+// Empty the widget: its clear button, else Backspace in the empty search input, which removes
+// the last chosen option in react-select, MUI and Select2 multi-selects
+async function clearSelection(target: WidgetTarget, signal?: AbortSignal): Promise<boolean> {
+  const { driver, root, trigger } = target;
+  const count = () => driver.selection(root, trigger).length;
+  if (count() === 0) return true;
+  const button = driver.clear(root);
+  if (button) {
+    clickLike(button, 'click');
+    if (await waitFor(() => count() === 0 || null, SETTLE_TIMEOUT_MS, signal)) return true;
+  }
+  const search = driver.search(root, trigger);
+  if (!search) return false;
+  focus(search);
+  for (let left = count(); left > 0 && !signal?.aborted; left = count()) {
+    if (search.value) setQuery(search, '');
+    press(search, 'Backspace');
+    if (!(await waitFor(() => count() < left || null, SETTLE_TIMEOUT_MS, signal))) break;
+  }
+  closePopup(target);
+  return count() === 0;
+}
+
+// Put a custom dropdown back to the options it showed before a fill (undo): empty it, then pick
+// them again. The result's message says what the widget shows when that did not work.
+export async function restoreWidget(target: WidgetTarget, values: string[], options: FillOptions = {}): Promise<FillResult> {
+  const { driver, root, trigger } = target;
+  const name = driver.name;
+  const shown = () => driver.selection(root, trigger);
+  const before = shown().join('|');
+  const matches = () => {
+    const now = shown();
+    return now.length === values.length && now.every((s, i) => norm(s) === norm(values[i]));
+  };
+  if (matches()) return { changed: false, message: 'already restored', driver: name };
+  if (!(await clearSelection(target, options.signal))) {
+    return { changed: before !== shown().join('|'), message: `${name} selection could not be cleared`, driver: name };
+  }
+  const picked = values.length ? await fillWidget(target, values, options) : null;
+  const changed = before !== shown().join('|');
+  if (matches()) return { changed, message: values.length ? `restored via ${name}` : `cleared via ${name}`, driver: name };
+  const now = shown().join(', ');
+  const problem = `${name} shows ${now ? `"${now}"` : 'nothing'} instead of "${values.join(', ')}"`;
+  return { changed, message: [picked?.message, problem].filter(Boolean).join('; '), driver: name };
+}
@@ -0,0 +1,137 @@
+/*
+  Wizard fill sessions
+  - Job applications and directory submissions span several pages or SPA routes. The overlay's
+    state goes with each page, so the session lives in the worker, one per tab (WIZARD_* messages)
+  - A session records the template, the scenario profile whose required keys are still missing,
+    the keys filled so far and one step per page or route
+  - Each page asks the worker for its tab's session and fills its first step on the first scan
+    with fields. SPA routes (pushState, replaceState, back/forward) are watched explicitly: a new
+    route asks for a full rescan and the scan that follows fills it as the next step
+  - Only pages of the origin the session was started on are filled
+  - The step that fills the last required key completes the session, and auto-filling stops
+*/
+
+import { get } from 'svelte/store';
+import { sendRuntimeMessage, type WizardSession } from '../core/messages';
+import { completedWizard, wizardSession } from './ui/state';
+import { settleRendering } from './verification';
+
+// Fills the page from a template and returns the keys it filled; null when it cannot fill yet
+// (template locked, no fields scanned)
+export type WizardStepFiller = (templateId: string) => Promise<string[] | null>;
+
+let fillStep: WizardStepFiller | null = null;
+// URL of the last step filled by this page
+let filledUrl: string | null = null;
+// set by a route change until the new route's step is filled
+let routePending = false;
+let filling = false;
+
+// `rescan` publishes a full scan even when nothing changed: a route may keep the form's DOM
+export function startWizardSessions(filler: WizardStepFiller, rescan: () => void): () => void {
+  fillStep = filler;
+  const stopRoutes = watchRoutes(() => {
+    routePending = true;
+    if (!get(wizardSession)) return;
+    void settleRendering().then(rescan);
+  });
+  void loadWizardSession();
+  return () => {
+    stopRoutes();
+    fillStep = null;
+    wizardSession.set(null);
+  };
+}
+
+// history.pushState / replaceState called by the page are not visible from the content script's
+// isolated world; the Navigation API reports them (currententrychange), popstate and hashchange
+// cover back/forward where it is missing
+function watchRoutes(onRoute: () => void): () => void {
+  let lastUrl = location.href;
+  const check = () => {
+    if (location.href === lastUrl) return;
+    lastUrl = location.href;
+    onRoute();
+  };
+  const navigation = (window as unknown as { navigation?: EventTarget }).navigation;
+  navigation?.addEventListener('currententrychange', check);
+  window.addEventListener('popstate', check);
+  window.addEventListener('hashchange', check);
+  return () => {
+    navigation?.removeEventListener('currententrychange', check);
+    window.removeEventListener('popstate', check);
+    window.removeEventListener('hashchange', check);
+  };
+}
+
+async function loadWizardSession(): Promise<void> {
+  try {
+    const res = await sendRuntimeMessage<WizardSession | null>({ type: 'WIZARD_GET' });
+    if (!res.success) return;
+    wizardSession.set(res.data ?? null);
+    await resumeWizard();
+  } catch {
+    // the worker may be restarting; the next page asks again
+  }
+}
+
+// Fill the page's first step, or the step of a new route; called after each scan and when
+// templates arrive. Other scans (a field appearing, a rerender) do not make a step.
+export async function resumeWizard(): Promise<void> {
+  const session = get(wizardSession);
+  if (!session || session.origin !== location.origin) return;
+  if (filledUrl !== null && !routePending) return;
+  if (filledUrl === location.href) return;
+  await fillWizardStep();
+}
+
+// Fill this page as a step of the session, also on request for steps that keep their URL
+export async function fillWizardStep(): Promise<WizardSession | null> {
+  const session = get(wizardSession);
+  if (!session || !fillStep || filling) return null;
+  filling = true;
+  try {
+    const url = location.href;
+    const filledKeys = await fillStep(session.templateId);
+    if (!filledKeys) return null;
+    filledUrl = url;
+    routePending = false;
+    const res = await sendRuntimeMessage<WizardSession>({ type: 'WIZARD_STEP', url, filledKeys });
+    if (!res.success || !res.data) return null;
+    if (res.data.completedAt) {
+      completedWizard.set(res.data);
+      wizardSession.set(null);
+    } else {
+      wizardSession.set(res.data);
+    }
+    return res.data;
+  } catch (error) {
+    console.warn('[AIAutoFill] wizard step failed', error);
+    return null;
+  } finally {
+    filling = false;
+  }
+}
+
+export async function startWizard(templateId: string, profileId: string): Promise<WizardSession | null> {
+  const res = await sendRuntimeMessage<WizardSession>({
+    type: 'WIZARD_START',
+    templateId,
+    profileId,
+    origin: location.origin
+  });
+  if (!res.success || !res.data) return null;
+  completedWizard.set(null);
+  wizardSession.set(res.data);
+  filledUrl = null;
+  routePending = false;
+  await fillWizardStep();
+  return get(wizardSession) ?? get(completedWizard);
+}
+
+export async function endWizard(): Promise<void> {
+  wizardSession.set(null);
+  filledUrl = null;
+  routePending = false;
+  await sendRuntimeMessage({ type: 'WIZARD_END' }).catch(() => undefined);
+}
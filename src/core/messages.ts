@@ -1,3 +1,8 @@
+import type { ScanResult } from '../content/domScanner';
+import type { FieldVerification } from '../content/verification';
+import type { AttachmentMeta } from '../lib/attachments';
+import type { ConsentPolicy } from '../lib/consent';
+import type { SemanticProviderKind } from '../lib/semantic';
 import type {
   Mode,
   RuntimeSettings,
@@ -10,10 +15,13 @@ export interface SettingsSnapshot {
   mode: Mode;
   overrides: SiteOverride[];
   semanticEndpoint: string;
+  semanticProvider: SemanticProviderKind;
+  consentPolicy: ConsentPolicy;
   hasPassphrase: boolean;
   unlocked: boolean;
   apiKeyConfigured: boolean;
   effectiveMode?: Mode;
+  effectiveSemanticProvider?: SemanticProviderKind;
 }
 
 export interface SettingsUpdatePayload {
@@ -22,7 +30,9 @@ export interface SettingsUpdatePayload {
   semantic?: {
     endpoint?: string;
     apiKey?: string | null;
+    provider?: SemanticProviderKind;
   };
+  consentPolicy?: Partial<ConsentPolicy>;
 }
 
 export interface SettingsSetResult {
@@ -52,11 +62,95 @@ export interface TemplateDeleteResult {
   templates: TemplateModel[];
 }
 
+export interface AttachmentSavePayload {
+  id?: string;
+  filename: string;
+  mimeType?: string;
+  data: string; // base64 file content
+}
+
+export interface AttachmentFile extends AttachmentMeta {
+  data: string; // base64 file content
+}
+
+export interface AttachmentListResult {
+  attachments: AttachmentMeta[];
+}
+
+export interface AttachmentMutationResult {
+  attachment: AttachmentMeta;
+  attachments: AttachmentMeta[];
+}
+
+export interface AttachmentDeleteResult {
+  attachments: AttachmentMeta[];
+}
+
+export interface AttachmentGetResult {
+  // in reference order; references that match nothing are listed in `missing`
+  files: AttachmentFile[];
+  missing: string[];
+}
+
 export interface PassphraseChangePayload {
   current: string;
   next: string;
 }
 
+// Fill (or undo, with the field's previous value) a field of a cross-origin frame; sent by the
+// top frame's coordinator and relayed by the worker to the frame that reported the field
+export interface FrameFillCommand {
+  candidateId: string; // id in the frame's own scan
+  fillId: string; // names the fill for FRAME_FILL_CANCEL
+  value: unknown;
+  // highlight after the write: 'filled' for a fill, null for an undo
+  highlight: 'filled' | null;
+}
+
+export interface FrameFillResult {
+  found: boolean;
+  changed: boolean;
+  message?: string;
+  // the field's value before and after the write; picked files are sent as their names
+  before?: unknown;
+  after?: unknown;
+  // typing stopped by FRAME_FILL_CANCEL; the field has its previous value back
+  cancelled?: boolean;
+  // post-fill check, run by the frame once its page has re-rendered (fills only)
+  verification?: FieldVerification;
+}
+
+// A fill of one page or SPA route of a wizard session
+export interface WizardStep {
+  url: string;
+  at: number;
+  filledKeys: string[];
+}
+
+// A multi-step fill (job application, directory submission) held by the worker for one tab,
+// so it outlives the content script of each page
+export interface WizardSession {
+  tabId: number;
+  origin: string;
+  templateId: string;
+  profileId: string;
+  startedAt: number;
+  // every key filled so far, in the order first filled
+  filledKeys: string[];
+  // required keys of the scenario profile, and those no step has filled yet
+  requiredKeys: string[];
+  remainingKeys: string[];
+  steps: WizardStep[];
+  // set by the step that filled the last required key; the worker has ended the session by then
+  completedAt?: number;
+}
+
+// Messages the worker sends to a tab's content scripts
+export type FrameMessage =
+  | { type: 'FRAME_SCAN_REPORT'; frameId: number; token: string; scan: ScanResult | null }
+  | { type: 'FRAME_FILL_RUN'; command: FrameFillCommand }
+  | { type: 'FRAME_FILL_ABORT'; fillId: string };
+
 export type RuntimeMessage =
   | { type: 'SETTINGS_GET'; origin?: string }
   | { type: 'SETTINGS_SET'; payload: SettingsUpdatePayload }
@@ -65,7 +159,24 @@ export type RuntimeMessage =
   | { type: 'TEMPLATE_LIST' }
   | { type: 'TEMPLATE_SAVE'; payload: TemplateSavePayload }
   | { type: 'TEMPLATE_DELETE'; id: string }
-  | { type: 'PASSPHRASE_CHANGE'; payload: PassphraseChangePayload };
+  | { type: 'ATTACHMENT_LIST' }
+  | { type: 'ATTACHMENT_SAVE'; payload: AttachmentSavePayload }
+  | { type: 'ATTACHMENT_DELETE'; id: string }
+  // refs are attachment ids or filenames, as written in a template's `message.attachments`
+  | { type: 'ATTACHMENT_GET'; refs: string[] }
+  | { type: 'PASSPHRASE_CHANGE'; payload: PassphraseChangePayload }
+  // from a cross-origin frame to the top frame; null when the frame goes away
+  | { type: 'FRAME_SCAN'; token: string; scan: ScanResult | null }
+  | { type: 'FRAME_FILL'; frameId: number; command: FrameFillCommand }
+  // the top frame's fill was cancelled while a frame types one of its fields
+  | { type: 'FRAME_FILL_CANCEL'; frameId: number; fillId: string }
+  // injects the custom element bridge into the sender frame's page world (mainWorldBridge.ts)
+  | { type: 'MAIN_WORLD_BRIDGE' }
+  // wizard session of the sender's tab (wizard.ts)
+  | { type: 'WIZARD_START'; templateId: string; profileId: string; origin: string }
+  | { type: 'WIZARD_GET' }
+  | { type: 'WIZARD_STEP'; url: string; filledKeys: string[] }
+  | { type: 'WIZARD_END' };
 
 export interface RuntimeResponse<T = unknown> {
   success: boolean;
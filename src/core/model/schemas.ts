@@ -1,4 +1,12 @@
 import { z } from 'zod';
+import type { CanonicalPath } from '../../lib/universal';
+import { resolveOntologyPath } from '../../lib/ontologyRegistry';
+import { normalizeDateInput } from '../../lib/dates';
+import type { SemanticProviderKind } from '../../lib/semantic';
+import { DEFAULT_CONSENT_POLICY, normaliseConsentPolicy, type ConsentPolicy } from '../../lib/consent';
+
+// Legacy information field vocabulary. Templates are now stored under canonical ontology
+// paths; these keys are still accepted on input and resolved through the ontology registry.
 
 export const informationFieldKeys = [
   'web.url',
@@ -28,8 +36,6 @@ export const informationFieldKeys = [
   'social.facebook'
 ] as const;
 
-const informationFieldSet = new Set<string>(informationFieldKeys);
-
 export type InformationFieldKey = (typeof informationFieldKeys)[number];
 
 export type Mode = 'offline' | 'semantic';
@@ -39,7 +45,7 @@ export interface TemplateFieldInput {
   value: string;
 }
 
-export type TemplateValues = Partial<Record<InformationFieldKey, string>>;
+export type TemplateValues = Partial<Record<CanonicalPath, string>>;
 
 export interface TemplateModel {
   id: string;
@@ -52,18 +58,25 @@ export interface TemplateModel {
 export interface SiteOverride {
   pattern: string;
   mode: Mode;
+  // Embedding backend for this site in semantic mode; falls back to RuntimeSettings.semanticProvider
+  provider?: SemanticProviderKind;
 }
 
 export interface RuntimeSettings {
   mode: Mode;
   overrides: SiteOverride[];
   semanticEndpoint: string;
+  semanticProvider: SemanticProviderKind;
+  // What the fill does with terms, consent and marketing checkboxes
+  consentPolicy: ConsentPolicy;
 }
 
 export const DEFAULT_RUNTIME_SETTINGS: RuntimeSettings = {
   mode: 'offline',
   overrides: [],
-  semanticEndpoint: ''
+  semanticEndpoint: '',
+  semanticProvider: 'remote',
+  consentPolicy: DEFAULT_CONSENT_POLICY
 };
 
 const templateFieldSchema = z
@@ -72,13 +85,13 @@ const templateFieldSchema = z
       .string()
       .trim()
       .min(1, 'Key is required')
-      .refine((val) => informationFieldSet.has(val), {
+      .refine((val) => resolveOntologyPath(val) !== null, {
         message: 'Unsupported field key'
       }),
     value: z.string().trim().min(1, 'Value is required')
   })
   .transform((field) => ({
-    key: field.key as InformationFieldKey,
+    key: resolveOntologyPath(field.key) as CanonicalPath,
     value: field.value
   }));
 
@@ -96,14 +109,18 @@ const templateUpsertSchema = z
 
 export type TemplateUpsert = z.infer<typeof templateUpsertSchema>;
 
-function normaliseValue(key: InformationFieldKey, value: string): string {
+function normaliseValue(key: CanonicalPath, value: string): string {
   const trimmed = value.trim();
-  if (key === 'contact.email') {
+  if (key === 'contact.email' || key === 'organization.email') {
     return trimmed.toLowerCase();
   }
-  if (key === 'identity.full_name' || key === 'identity.first_name' || key === 'identity.last_name') {
+  if (key === 'identity.fullName' || key === 'identity.firstName' || key === 'identity.lastName') {
     return trimmed.replace(/\s+/g, ' ').trim();
   }
+  if (key === 'identity.dateOfBirth') {
+    // Templates keep ISO dates; unambiguous typed dates ('31.12.1990') are converted
+    return normalizeDateInput(trimmed) ?? trimmed;
+  }
   return trimmed;
 }
 
@@ -126,10 +143,34 @@ export function normaliseTemplateInput(input: unknown): { id?: string; label: st
   };
 }
 
+const attachmentUploadSchema = z.object({
+  id: z.string().trim().min(1).optional(),
+  filename: z.string().trim().min(1, 'File name is required').max(255, 'File name is too long'),
+  mimeType: z.string().trim().optional(),
+  data: z.string().min(1, 'File is empty') // base64
+});
+
+export type AttachmentUpload = z.infer<typeof attachmentUploadSchema>;
+
+export function normaliseAttachmentInput(input: unknown): { id?: string; filename: string; mimeType: string; data: string } {
+  const parsed = attachmentUploadSchema.parse(input);
+  return {
+    id: parsed.id,
+    // Keep the base name only; browsers may report a path
+    filename: parsed.filename.split(/[\\/]/).pop()!.trim() || parsed.filename,
+    mimeType: parsed.mimeType || 'application/octet-stream',
+    data: parsed.data
+  };
+}
+
 function isMode(value: unknown): value is Mode {
   return value === 'offline' || value === 'semantic';
 }
 
+function isSemanticProvider(value: unknown): value is SemanticProviderKind {
+  return value === 'remote' || value === 'local';
+}
+
 export function normaliseOverridePattern(pattern: string): string {
   const trimmed = pattern.trim();
   if (!trimmed) return '';
@@ -159,15 +200,18 @@ export function normaliseOverrides(
     const pattern = normaliseOverridePattern((item?.pattern as string | undefined) ?? '');
     if (!pattern) continue;
     const mode: Mode = isMode(item?.mode) ? (item?.mode as Mode) : 'offline';
+    const entry: SiteOverride = isSemanticProvider(item?.provider)
+      ? { pattern, mode, provider: item?.provider }
+      : { pattern, mode };
     if (seen.has(pattern)) {
-      const index = acc.findIndex((entry) => entry.pattern === pattern);
+      const index = acc.findIndex((existing) => existing.pattern === pattern);
       if (index >= 0) {
-        acc[index] = { pattern, mode };
+        acc[index] = entry;
       }
       continue;
     }
     seen.add(pattern);
-    acc.push({ pattern, mode });
+    acc.push(entry);
   }
   return acc.sort((a, b) => a.pattern.localeCompare(b.pattern));
 }
@@ -176,9 +220,12 @@ export function normaliseRuntimeSettings(input: unknown): RuntimeSettings {
   if (!input || typeof input !== 'object') {
     return { ...DEFAULT_RUNTIME_SETTINGS };
   }
-  const candidate = input as Partial<RuntimeSettings & { overrides: unknown; semanticEndpoint: unknown }>;
+  const candidate = input as Partial<
+    RuntimeSettings & { overrides: unknown; semanticEndpoint: unknown; semanticProvider: unknown; consentPolicy: unknown }
+  >;
   const mode: Mode = isMode(candidate.mode) ? candidate.mode : 'offline';
   const semanticEndpoint = typeof candidate.semanticEndpoint === 'string' ? candidate.semanticEndpoint.trim() : '';
+  const semanticProvider = isSemanticProvider(candidate.semanticProvider) ? candidate.semanticProvider : 'remote';
   const overridesInput = Array.isArray(candidate.overrides)
     ? (candidate.overrides as Array<Partial<SiteOverride>>)
     : [];
@@ -186,22 +233,38 @@ export function normaliseRuntimeSettings(input: unknown): RuntimeSettings {
   return {
     mode,
     semanticEndpoint,
-    overrides
+    semanticProvider,
+    overrides,
+    consentPolicy: normaliseConsentPolicy(candidate.consentPolicy)
   };
 }
 
 export function mergeRuntimeSettings(
   current: RuntimeSettings,
-  update: Partial<{ mode: Mode; overrides: Array<Partial<SiteOverride>>; semanticEndpoint: string }>
+  update: Partial<{
+    mode: Mode;
+    overrides: Array<Partial<SiteOverride>>;
+    semanticEndpoint: string;
+    semanticProvider: SemanticProviderKind;
+    consentPolicy: Partial<ConsentPolicy>;
+  }>
 ): RuntimeSettings {
   const mode = isMode(update.mode) ? update.mode : current.mode;
   const endpointRaw = typeof update.semanticEndpoint === 'string' ? update.semanticEndpoint : current.semanticEndpoint;
   const semanticEndpoint = endpointRaw?.trim() ?? '';
+  const semanticProvider = isSemanticProvider(update.semanticProvider)
+    ? update.semanticProvider
+    : current.semanticProvider;
   const overrides = update.overrides ? normaliseOverrides(update.overrides) : current.overrides;
+  const consentPolicy = update.consentPolicy
+    ? normaliseConsentPolicy({ ...current.consentPolicy, ...update.consentPolicy })
+    : current.consentPolicy;
   return {
     mode,
     semanticEndpoint,
-    overrides
+    semanticProvider,
+    overrides,
+    consentPolicy
   };
 }
 
@@ -234,3 +297,16 @@ export function effectiveMode(settings: RuntimeSettings, origin: string | undefi
   }
   return settings.mode;
 }
+
+export function effectiveSemanticProvider(
+  settings: RuntimeSettings,
+  origin: string | undefined | null
+): SemanticProviderKind {
+  if (!origin) return settings.semanticProvider;
+  for (const override of settings.overrides) {
+    if (matchesOverride(override.pattern, origin)) {
+      return override.provider ?? settings.semanticProvider;
+    }
+  }
+  return settings.semanticProvider;
+}
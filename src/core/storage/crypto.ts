@@ -20,7 +20,7 @@ function toBase64(bytes: Uint8Array): string {
   return btoa(binary);
 }
 
-function fromBase64(base64: string): Uint8Array {
+function fromBase64(base64: string): Uint8Array<ArrayBuffer> {
   const binary = atob(base64);
   const bytes = new Uint8Array(binary.length);
   for (let i = 0; i < binary.length; i += 1) {
@@ -33,7 +33,7 @@ export function encodeBytes(bytes: Uint8Array): string {
   return toBase64(bytes);
 }
 
-export function decodeBytes(serialised: string): Uint8Array {
+export function decodeBytes(serialised: string): Uint8Array<ArrayBuffer> {
   return fromBase64(serialised);
 }
 
@@ -96,6 +96,35 @@ export async function decryptJson<T>(cipher: CipherPayload, key: CryptoKey): Pro
   return JSON.parse(decoded) as T;
 }
 
+export async function encryptBytes(bytes: Uint8Array<ArrayBuffer>, key: CryptoKey): Promise<CipherPayload> {
+  const iv = new Uint8Array(IV_LENGTH);
+  crypto.getRandomValues(iv);
+  const cipherBuffer = await crypto.subtle.encrypt(
+    {
+      name: 'AES-GCM',
+      iv
+    },
+    key,
+    bytes
+  );
+  return {
+    iv: toBase64(iv),
+    data: toBase64(new Uint8Array(cipherBuffer))
+  };
+}
+
+export async function decryptBytes(cipher: CipherPayload, key: CryptoKey): Promise<Uint8Array<ArrayBuffer>> {
+  const plainBuffer = await crypto.subtle.decrypt(
+    {
+      name: 'AES-GCM',
+      iv: decodeBytes(cipher.iv)
+    },
+    key,
+    decodeBytes(cipher.data)
+  );
+  return new Uint8Array(plainBuffer);
+}
+
 export async function createVerification(key: CryptoKey): Promise<CipherPayload> {
   return encryptJson(VERIFICATION_TEXT, key);
 }
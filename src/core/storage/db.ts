@@ -2,8 +2,9 @@ import { openDB, type DBSchema, type IDBPDatabase } from 'idb';
 import type { CipherPayload } from './crypto';
 
 const DB_NAME = 'aiaf.db';
-const DB_VERSION = 1;
+const DB_VERSION = 2;
 const STORE_TEMPLATES = 'templates';
+const STORE_ATTACHMENTS = 'attachments';
 
 export interface TemplateRecord {
   id: string;
@@ -13,6 +14,17 @@ export interface TemplateRecord {
   payload: CipherPayload;
 }
 
+// File name, type and size stay readable for listing; the content is encrypted
+export interface AttachmentRecord {
+  id: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  createdAt: number;
+  updatedAt: number;
+  payload: CipherPayload;
+}
+
 interface AiafDbSchema extends DBSchema {
   [STORE_TEMPLATES]: {
     key: string;
@@ -22,6 +34,13 @@ interface AiafDbSchema extends DBSchema {
       'by-label': string;
     };
   };
+  [STORE_ATTACHMENTS]: {
+    key: string;
+    value: AttachmentRecord;
+    indexes: {
+      'by-filename': string;
+    };
+  };
 }
 
 let dbPromise: Promise<IDBPDatabase<AiafDbSchema>> | null = null;
@@ -35,6 +54,10 @@ async function getDb(): Promise<IDBPDatabase<AiafDbSchema>> {
           store.createIndex('by-updatedAt', 'updatedAt');
           store.createIndex('by-label', 'label');
         }
+        if (!db.objectStoreNames.contains(STORE_ATTACHMENTS)) {
+          const store = db.createObjectStore(STORE_ATTACHMENTS, { keyPath: 'id' });
+          store.createIndex('by-filename', 'filename');
+        }
       }
     });
   }
@@ -87,3 +110,45 @@ export async function clearTemplates(): Promise<void> {
   const db = await getDb();
   await db.clear(STORE_TEMPLATES);
 }
+
+export async function readAllAttachments(): Promise<AttachmentRecord[]> {
+  const db = await getDb();
+  const records = await db.getAll(STORE_ATTACHMENTS);
+  return records.sort((a, b) => a.filename.localeCompare(b.filename, undefined, { sensitivity: 'base' }));
+}
+
+export async function readAttachment(id: string): Promise<AttachmentRecord | undefined> {
+  const db = await getDb();
+  return db.get(STORE_ATTACHMENTS, id) ?? undefined;
+}
+
+export async function writeAttachment(record: AttachmentRecord): Promise<void> {
+  const db = await getDb();
+  await db.put(STORE_ATTACHMENTS, record);
+}
+
+export async function writeAttachmentsBatch(records: AttachmentRecord[]): Promise<void> {
+  if (records.length === 0) {
+    return;
+  }
+  const db = await getDb();
+  const tx = db.transaction(STORE_ATTACHMENTS, 'readwrite');
+  try {
+    for (const record of records) {
+      await tx.store.put(record);
+    }
+    await tx.done;
+  } catch (error) {
+    try {
+      tx.abort();
+    } catch {
+      // ignore abort errors
+    }
+    throw error;
+  }
+}
+
+export async function deleteAttachment(id: string): Promise<void> {
+  const db = await getDb();
+  await db.delete(STORE_ATTACHMENTS, id);
+}
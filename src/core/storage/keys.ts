@@ -1,3 +1,5 @@
 export const SETTINGS_STORAGE_KEY = 'aiaf.settings.v2';
 export const MASTER_STORAGE_KEY = 'aiaf.master.v1';
 export const SECRETS_STORAGE_KEY = 'aiaf.secrets.v1';
+// chrome.storage.session: wizard fill sessions by tab id
+export const WIZARD_SESSIONS_STORAGE_KEY = 'aiaf.wizard.v1';
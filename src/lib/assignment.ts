@@ -0,0 +1,80 @@
+// Maximum-weight bipartite assignment (Hungarian / Kuhn-Munkres, O(n^2 m)).
+// Used by the batch matcher to give every field at most one key per form group.
+
+// Returns, for each row, the assigned column index or -1. Pairs with a gain <= 0 are never
+// reported as assigned, so callers can encode "not allowed" as 0.
+export function solveAssignment(gains: number[][]): number[] {
+  const rows = gains.length;
+  const cols = rows ? Math.max(...gains.map((r) => r.length)) : 0;
+  if (rows === 0 || cols === 0) return new Array(rows).fill(-1);
+
+  // The solver below needs rows <= cols; transpose otherwise
+  if (rows > cols) {
+    const transposed: number[][] = [];
+    for (let c = 0; c < cols; c++) {
+      transposed.push(gains.map((row) => row[c] ?? 0));
+    }
+    const byCol = solveAssignment(transposed);
+    const out = new Array<number>(rows).fill(-1);
+    byCol.forEach((r, c) => {
+      if (r >= 0) out[r] = c;
+    });
+    return out;
+  }
+
+  let maxGain = 0;
+  for (const row of gains) for (const g of row) if (g > maxGain) maxGain = g;
+  const cost = (r: number, c: number) => maxGain - Math.max(0, gains[r][c] ?? 0);
+
+  // 1-indexed potentials and matching as in the classic formulation
+  const u = new Array<number>(rows + 1).fill(0);
+  const v = new Array<number>(cols + 1).fill(0);
+  const p = new Array<number>(cols + 1).fill(0); // p[col] = row matched to col
+  const way = new Array<number>(cols + 1).fill(0);
+
+  for (let i = 1; i <= rows; i++) {
+    p[0] = i;
+    let j0 = 0;
+    const minv = new Array<number>(cols + 1).fill(Infinity);
+    const used = new Array<boolean>(cols + 1).fill(false);
+    do {
+      used[j0] = true;
+      const i0 = p[j0];
+      let delta = Infinity;
+      let j1 = 0;
+      for (let j = 1; j <= cols; j++) {
+        if (used[j]) continue;
+        const cur = cost(i0 - 1, j - 1) - u[i0] - v[j];
+        if (cur < minv[j]) {
+          minv[j] = cur;
+          way[j] = j0;
+        }
+        if (minv[j] < delta) {
+          delta = minv[j];
+          j1 = j;
+        }
+      }
+      for (let j = 0; j <= cols; j++) {
+        if (used[j]) {
+          u[p[j]] += delta;
+          v[j] -= delta;
+        } else {
+          minv[j] -= delta;
+        }
+      }
+      j0 = j1;
+    } while (p[j0] !== 0);
+    do {
+      const j1 = way[j0];
+      p[j0] = p[j1];
+      j0 = j1;
+    } while (j0);
+  }
+
+  const out = new Array<number>(rows).fill(-1);
+  for (let j = 1; j <= cols; j++) {
+    const r = p[j] - 1;
+    if (r >= 0 && (gains[r][j - 1] ?? 0) > 0) out[r] = j - 1;
+  }
+  return out;
+}
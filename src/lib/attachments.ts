@@ -0,0 +1,59 @@
+// Attachments: files stored encrypted next to templates and put into <input type=file>.
+// A template's `message.attachments` value names them by filename or id ("cv.pdf, letter.pdf").
+
+export interface AttachmentMeta {
+  id: string;
+  filename: string;
+  mimeType: string;
+  size: number; // bytes
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Largest file accepted for storage; runtime messages carry it base64-encoded
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+export function parseAttachmentRefs(value: unknown): string[] {
+  const list = Array.isArray(value) ? value : typeof value === 'string' ? value.split(/[,;\n]/) : [];
+  const out: string[] = [];
+  for (const item of list) {
+    const ref = String(item ?? '').trim();
+    if (ref && !out.includes(ref)) out.push(ref);
+  }
+  return out;
+}
+
+// Stored attachments named by `refs`, in reference order. Ids win over filenames; filenames
+// compare case-insensitively.
+export function resolveAttachmentRefs<T extends Pick<AttachmentMeta, 'id' | 'filename'>>(refs: string[], stored: T[]): T[] {
+  const out: T[] = [];
+  for (const ref of refs) {
+    const lower = ref.toLowerCase();
+    const hit = stored.find((a) => a.id === ref) ?? stored.find((a) => a.filename.toLowerCase() === lower);
+    if (hit && !out.includes(hit)) out.push(hit);
+  }
+  return out;
+}
+
+// Whether a file satisfies an `accept` attribute ('.pdf,.doc', 'image/*', 'application/pdf').
+// An empty accept takes anything.
+export function matchesAccept(file: { name: string; type: string }, accept: string | null | undefined): boolean {
+  const tokens = (accept || '')
+    .split(',')
+    .map((t) => t.trim().toLowerCase())
+    .filter(Boolean);
+  if (tokens.length === 0) return true;
+  const name = file.name.toLowerCase();
+  const type = (file.type || '').toLowerCase();
+  return tokens.some((token) => {
+    if (token.startsWith('.')) return name.endsWith(token);
+    if (token.endsWith('/*')) return type.startsWith(token.slice(0, -1));
+    return type === token;
+  });
+}
+
+export function formatByteSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
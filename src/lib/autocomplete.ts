@@ -0,0 +1,104 @@
+// Parser for the WHATWG autofill detail tokens in the `autocomplete` attribute:
+//   [section-*] [shipping|billing] [home|work|mobile|fax|pager] <field name> [webauthn]
+// The contact scope (home/work/...) is only valid before contact fields (tel*, email, impp).
+// https://html.spec.whatwg.org/multipage/form-control-infrastructure.html#autofill-detail-tokens
+
+export type AutocompleteAddressType = 'shipping' | 'billing';
+export type AutocompleteContactType = 'home' | 'work' | 'mobile' | 'fax' | 'pager';
+export type AutofillScope = AutocompleteAddressType | AutocompleteContactType;
+
+export interface ParsedAutocomplete {
+  raw: string;
+  // 'on' / 'off' when the attribute is just the on/off switch
+  mode: 'on' | 'off' | null;
+  section: string | null; // name after `section-`
+  addressType: AutocompleteAddressType | null;
+  contactType: AutocompleteContactType | null;
+  field: string | null;
+  webauthn: boolean;
+  // false when the tokens do not follow the grammar (field is still the best guess)
+  valid: boolean;
+}
+
+const FIELD_NAMES = new Set([
+  'name', 'honorific-prefix', 'given-name', 'additional-name', 'family-name', 'honorific-suffix',
+  'nickname', 'username', 'new-password', 'current-password', 'one-time-code',
+  'organization-title', 'organization', 'street-address', 'address-line1', 'address-line2',
+  'address-line3', 'address-level4', 'address-level3', 'address-level2', 'address-level1',
+  'country', 'country-name', 'postal-code', 'cc-name', 'cc-given-name', 'cc-additional-name',
+  'cc-family-name', 'cc-number', 'cc-exp', 'cc-exp-month', 'cc-exp-year', 'cc-csc', 'cc-type',
+  'transaction-currency', 'transaction-amount', 'language', 'bday', 'bday-day', 'bday-month',
+  'bday-year', 'sex', 'url', 'photo'
+]);
+
+const CONTACT_FIELD_NAMES = new Set([
+  'tel', 'tel-country-code', 'tel-national', 'tel-area-code', 'tel-local', 'tel-local-prefix',
+  'tel-local-suffix', 'tel-extension', 'email', 'impp'
+]);
+
+const CONTACT_TYPES = new Set<string>(['home', 'work', 'mobile', 'fax', 'pager']);
+
+export function parseAutocomplete(value: string | null | undefined): ParsedAutocomplete | null {
+  const raw = (value || '').trim();
+  const tokens = raw.toLowerCase().split(/\s+/).filter(Boolean);
+  if (tokens.length === 0) return null;
+  const parsed: ParsedAutocomplete = {
+    raw,
+    mode: null,
+    section: null,
+    addressType: null,
+    contactType: null,
+    field: null,
+    webauthn: false,
+    valid: true
+  };
+  if (tokens.length === 1 && (tokens[0] === 'on' || tokens[0] === 'off')) {
+    parsed.mode = tokens[0];
+    return parsed;
+  }
+
+  if (tokens[tokens.length - 1] === 'webauthn') {
+    parsed.webauthn = true;
+    tokens.pop();
+  }
+  const field = tokens.pop();
+  if (!field) {
+    parsed.valid = false;
+    return parsed;
+  }
+  parsed.field = field;
+  const isContactField = CONTACT_FIELD_NAMES.has(field);
+  if (!isContactField && !FIELD_NAMES.has(field)) parsed.valid = false;
+
+  let next = tokens.pop();
+  if (next && CONTACT_TYPES.has(next)) {
+    if (isContactField) parsed.contactType = next as AutocompleteContactType;
+    else parsed.valid = false;
+    next = tokens.pop();
+  }
+  if (next === 'shipping' || next === 'billing') {
+    parsed.addressType = next;
+    next = tokens.pop();
+  }
+  if (next && next.startsWith('section-') && next.length > 'section-'.length) {
+    parsed.section = next.slice('section-'.length);
+    next = tokens.pop();
+  }
+  if (next !== undefined || tokens.length > 0) parsed.valid = false;
+  return parsed;
+}
+
+// Scope used to pick a template sub-record (billing address, work email...)
+export function autofillScope(parsed: ParsedAutocomplete | null): AutofillScope | null {
+  if (!parsed) return null;
+  return parsed.contactType ?? parsed.addressType;
+}
+
+// Autofill section label ("section-blue shipping"), fields of different sections belong to
+// different logical forms even inside one <form>
+export function autofillSection(parsed: ParsedAutocomplete | null): string | null {
+  if (!parsed) return null;
+  const parts = [parsed.section ? `section-${parsed.section}` : null, parsed.addressType];
+  const label = parts.filter(Boolean).join(' ');
+  return label || null;
+}
@@ -0,0 +1,68 @@
+// Enumerated keys (gender, preferred contact method) store a canonical value ('female', 'sms')
+// that forms spell their own way: "F", "Woman", "Text message", "Weiblich". Options are first
+// matched as written, then through the spellings of the stored value's canonical choice.
+
+import { normalizeRegionText } from './regionCodes';
+import { resolveSelectOption, type OptionMatch, type SelectOptionLike } from './selectOptions';
+
+const CHOICE_EQUIVALENTS: Record<string, Record<string, string[]>> = {
+  'identity.gender': {
+    male: ['male', 'm', 'man', 'mr', 'masculine', 'männlich', 'mannlich', 'homme', 'masculin', 'masculino', 'hombre', 'maschio', 'uomo'],
+    female: ['female', 'f', 'w', 'woman', 'ms', 'mrs', 'feminine', 'weiblich', 'frau', 'femme', 'féminin', 'feminin', 'femenino', 'mujer', 'femmina', 'donna'],
+    'non-binary': ['non-binary', 'nonbinary', 'non binary', 'nb', 'enby', 'divers', 'd', 'diverse', 'non binaire', 'no binario'],
+    other: ['other', 'o', 'x', 'another', 'self-describe', 'self describe', 'andere', 'autre', 'otro', 'altro'],
+    'prefer-not-to-say': [
+      'prefer-not-to-say', 'prefer not to say', 'prefer not to answer', 'rather not say', 'decline to state',
+      'decline to answer', 'not specified', 'unspecified', 'keine angabe', 'ne souhaite pas répondre', 'prefiero no decirlo'
+    ]
+  },
+  'contact.preferredContactMethod': {
+    email: ['email', 'e-mail', 'mail', 'by email', 'courriel', 'correo'],
+    phone: ['phone', 'telephone', 'call', 'phone call', 'by phone', 'tel', 'voice', 'telefon', 'téléphone', 'teléfono'],
+    sms: ['sms', 'text', 'text message', 'texting', 'by text', 'mobile message'],
+    whatsapp: ['whatsapp', 'whats app', 'wa'],
+    telegram: ['telegram', 'tg'],
+    signal: ['signal']
+  }
+};
+
+export function isChoiceKey(key: string): boolean {
+  return key in CHOICE_EQUIVALENTS;
+}
+
+// The canonical choice a value spells, e.g. ('identity.gender', 'Woman') -> 'female'
+export function canonicalChoice(key: string, value: string): string | null {
+  const table = CHOICE_EQUIVALENTS[key];
+  if (!table) return null;
+  const wanted = normalizeRegionText(value);
+  if (!wanted) return null;
+  for (const [canonical, spellings] of Object.entries(table)) {
+    if (spellings.some((s) => normalizeRegionText(s) === wanted)) return canonical;
+  }
+  return null;
+}
+
+// Option for `value` among a select's or radio group's options. Exact matches win; a fuzzy
+// match only when no option spells the same choice ("Female" must not fuzzily pick "Male").
+export function resolveChoiceOption(key: string, value: string, options: SelectOptionLike[]): OptionMatch | null {
+  const direct = resolveSelectOption(value, options);
+  if (direct && direct.reason !== 'fuzzy') return direct;
+  const canonical = canonicalChoice(key, value);
+  if (canonical) {
+    for (const [index, opt] of options.entries()) {
+      if (opt.disabled) continue;
+      const texts = [opt.value, opt.text, opt.label].filter((t): t is string => !!t);
+      if (texts.some((t) => canonicalChoice(key, t) === canonical)) {
+        return { index, value: opt.value, text: opt.text, confidence: 0.9, reason: 'synonym' };
+      }
+    }
+  }
+  return direct;
+}
+
+// What to write so the filler lands on `match`: its value when that names it unambiguously,
+// otherwise its text (radio values are often all "on")
+export function choiceFillValue(match: OptionMatch, options: SelectOptionLike[]): string {
+  const unique = options.filter((o) => o.value === match.value).length === 1;
+  return match.value && match.value !== 'on' && unique ? match.value : match.text;
+}
@@ -0,0 +1,231 @@
+// Composite values: split stored values into the parts a form asks for (first/last name,
+// phone country/area code) and join split values for forms with a single field.
+
+import { parseAutocomplete } from './autocomplete';
+import { choiceFillValue, isChoiceKey, resolveChoiceOption } from './choices';
+import { formatDateForField, isDateKey } from './dates';
+import { COUNTRY_CODE } from './normalize';
+import type { SelectOptionLike } from './selectOptions';
+
+export interface NameParts {
+  first: string;
+  middle: string;
+  last: string;
+}
+
+export interface PhoneParts {
+  countryCode: string; // digits only, '' when unknown
+  areaCode: string;
+  local: string;
+  extension: string;
+}
+
+export type PhonePart =
+  | 'country-code'
+  | 'area-code'
+  | 'national'
+  | 'local'
+  | 'local-prefix'
+  | 'local-suffix'
+  | 'extension';
+
+// What the fill pipeline knows about the target field
+export interface FieldHints {
+  autocomplete?: string | null;
+  texts: string[]; // label, placeholder, name, id...
+  // What the field says about the format it expects (dates)
+  inputType?: string | null;
+  placeholder?: string | null;
+  pattern?: string | null;
+  lang?: string | null;
+  maxLength?: number | null;
+  options?: SelectOptionLike[]; // set for selects and radio groups
+}
+
+// Keys that may fill several fields of one form (a phone split over three inputs,
+// a date of birth split over day / month / year selects)
+export const COMPOSITE_MULTI_FIELD_KEYS = ['contact.phone', 'identity.dateOfBirth'];
+
+// Lower-case surname particles that belong to the last name ("Ludwig van Beethoven")
+const NAME_PARTICLES = new Set([
+  'van', 'von', 'der', 'den', 'de', 'del', 'della', 'di', 'da', 'dos', 'du', 'la', 'le', 'bin', 'ibn', 'al', 'ter', 'ten'
+]);
+
+export function splitFullName(full: string): NameParts {
+  const s = (full || '').trim().replace(/\s+/g, ' ');
+  if (!s) return { first: '', middle: '', last: '' };
+  // "Lovelace, Ada King"
+  const comma = s.indexOf(',');
+  if (comma > 0) {
+    const rest = splitFullName(s.slice(comma + 1));
+    return {
+      first: rest.first,
+      middle: [rest.middle, rest.last].filter(Boolean).join(' '),
+      last: s.slice(0, comma).trim()
+    };
+  }
+  const parts = s.split(' ');
+  if (parts.length === 1) return { first: parts[0], middle: '', last: '' };
+  let lastStart = parts.length - 1;
+  while (lastStart > 1 && NAME_PARTICLES.has(parts[lastStart - 1].toLowerCase())) lastStart--;
+  return {
+    first: parts[0],
+    middle: parts.slice(1, lastStart).join(' '),
+    last: parts.slice(lastStart).join(' ')
+  };
+}
+
+export function joinName(parts: Partial<NameParts>): string {
+  return [parts.first, parts.middle, parts.last]
+    .map((p) => (p || '').trim())
+    .filter(Boolean)
+    .join(' ');
+}
+
+const CALLING_CODES = new Set(Object.values(COUNTRY_CODE));
+
+function splitNanp(national: string): { areaCode: string; local: string } {
+  return { areaCode: national.slice(0, 3), local: national.slice(3) };
+}
+
+export function splitPhone(raw: string): PhoneParts {
+  let s = (raw || '').trim();
+  let extension = '';
+  const ext = s.match(/\s*(?:ext\.?|extension|x|#)\s*(\d+)\s*$/i);
+  if (ext) {
+    extension = ext[1];
+    s = s.slice(0, ext.index).trim();
+  }
+  const international = /^(\+|00)/.test(s);
+  const groups = s.replace(/^00/, '').split(/[^\d]+/).filter(Boolean);
+  const digits = groups.join('');
+  if (!digits) return { countryCode: '', areaCode: '', local: '', extension };
+
+  if (international) {
+    // Formatted numbers ("+44 20 7946 0958") carry their own grouping
+    if (groups.length >= 2) {
+      const [countryCode, ...rest] = groups;
+      const national = rest.join('');
+      if (countryCode === '1' && national.length === 10) return { countryCode, ...splitNanp(national), extension };
+      return { countryCode, areaCode: rest.length > 1 ? rest[0] : '', local: rest.slice(rest.length > 1 ? 1 : 0).join(''), extension };
+    }
+    if (digits.startsWith('1') && digits.length === 11) return { countryCode: '1', ...splitNanp(digits.slice(1)), extension };
+    for (const len of [3, 2, 1]) {
+      const cc = digits.slice(0, len);
+      if (CALLING_CODES.has(cc)) return { countryCode: cc, areaCode: '', local: digits.slice(len), extension };
+    }
+    return { countryCode: '', areaCode: '', local: digits, extension };
+  }
+
+  if (digits.length === 10 && (groups.length === 1 || groups[0].length === 3)) {
+    return { countryCode: '', ...splitNanp(digits), extension };
+  }
+  if (groups.length >= 2) return { countryCode: '', areaCode: groups[0], local: groups.slice(1).join(''), extension };
+  return { countryCode: '', areaCode: '', local: digits, extension };
+}
+
+export function phonePartValue(raw: string, part: PhonePart): string {
+  const p = splitPhone(raw);
+  // Split the local number as 3 + rest (NANP exchange + line); fine for most other plans
+  const prefixLen = p.local.length > 4 ? p.local.length - 4 : 0;
+  switch (part) {
+    case 'country-code':
+      return p.countryCode ? `+${p.countryCode}` : '';
+    case 'area-code':
+      return p.areaCode;
+    case 'national':
+      return `${p.areaCode}${p.local}`;
+    case 'local':
+      return p.local;
+    case 'local-prefix':
+      return p.local.slice(0, prefixLen);
+    case 'local-suffix':
+      return p.local.slice(prefixLen);
+    case 'extension':
+      return p.extension;
+  }
+}
+
+const PHONE_AUTOCOMPLETE_PARTS: Record<string, PhonePart> = {
+  'tel-country-code': 'country-code',
+  'tel-area-code': 'area-code',
+  'tel-national': 'national',
+  'tel-local': 'local',
+  'tel-local-prefix': 'local-prefix',
+  'tel-local-suffix': 'local-suffix',
+  'tel-extension': 'extension'
+};
+
+// Which part of a phone number a field wants, or null for the whole number
+export function detectPhonePart(hints: FieldHints): PhonePart | null {
+  const field = parseAutocomplete(hints.autocomplete)?.field;
+  const part = field ? PHONE_AUTOCOMPLETE_PARTS[field] : undefined;
+  if (part) return part;
+  const text = hints.texts.join(' ').toLowerCase().replace(/[_-]+/g, ' ');
+  if (/\b(country|dial(ing)?)\s*code\b|\bcc\b/.test(text)) return 'country-code';
+  if (/\barea\s*code\b/.test(text)) return 'area-code';
+  if (/\bext(ension)?\b/.test(text)) return 'extension';
+  return null;
+}
+
+// A phone field without a part of its own, next to fields that take the country or area code
+// ("Country code" / "Area code" / "Phone number"), takes the rest of the number
+function remainingPhonePart(siblingParts: ReadonlySet<PhonePart | null>): PhonePart | null {
+  if (siblingParts.has('area-code')) return 'local';
+  if (siblingParts.has('country-code')) return 'national';
+  return null;
+}
+
+function str(values: Record<string, unknown>, key: string): string {
+  const v = values[key];
+  return typeof v === 'string' ? v.trim() : '';
+}
+
+// Fill in values that can be computed from other stored values. Stored values always win.
+export function deriveCompositeValues(values: Record<string, unknown>): Record<string, unknown> {
+  const out: Record<string, unknown> = { ...values };
+  const full = str(values, 'identity.fullName');
+  if (full) {
+    const parts = splitFullName(full);
+    if (!str(values, 'identity.firstName') && parts.first) out['identity.firstName'] = parts.first;
+    if (!str(values, 'identity.middleName') && parts.middle) out['identity.middleName'] = parts.middle;
+    if (!str(values, 'identity.lastName') && parts.last) out['identity.lastName'] = parts.last;
+  } else {
+    const joined = joinName({
+      first: str(values, 'identity.firstName'),
+      middle: str(values, 'identity.middleName'),
+      last: str(values, 'identity.lastName')
+    });
+    if (joined) out['identity.fullName'] = joined;
+  }
+  return out;
+}
+
+// Value to write into one field, given the key it was matched to, which other keys the same form
+// fills, and the hints of the form's other fields matched to the same key (the other parts of a
+// split phone number). Non-string values pass through untouched.
+export function deriveFillValue(
+  key: string,
+  value: unknown,
+  hints: FieldHints,
+  values: Record<string, unknown>,
+  siblingKeys: ReadonlySet<string>,
+  siblingHints: readonly FieldHints[] = []
+): unknown {
+  if (typeof value !== 'string') return value;
+  if (key === 'contact.phone') {
+    const part = detectPhonePart(hints) ?? remainingPhonePart(new Set(siblingHints.map(detectPhonePart)));
+    return part ? phonePartValue(value, part) : value;
+  }
+  if (isDateKey(key)) return formatDateForField(value, hints);
+  if (isChoiceKey(key) && hints.options) {
+    const match = resolveChoiceOption(key, value, hints.options);
+    return match ? choiceFillValue(match, hints.options) : value;
+  }
+  if (key === 'address.street1' && !siblingKeys.has('address.street2')) {
+    // Single address line: append the second line instead of dropping it
+    const street2 = str(values, 'address.street2');
+    if (street2 && !value.includes(street2)) return `${value}, ${street2}`;
+  }
+  return value;
+}
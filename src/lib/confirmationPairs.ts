@@ -0,0 +1,105 @@
+// Confirmation pairs: "Email" + "Confirm email", "Phone" + "Re-enter phone". The confirmation
+// field never wins a key of its own (negative evidence marks it), so it is linked to its primary
+// field and filled from the same key.
+
+import type { Candidate } from '../content/domScanner';
+import { findConfirmationWording, normalizeSignalText, stripConfirmationWording } from './negativeEvidence';
+
+export type ConfirmationEvidence = 'wording' | 'name-stem' | 'label-stem' | 'adjacent' | 'type';
+
+export interface ConfirmationPair {
+  primaryId: string;
+  confirmId: string;
+  evidence: ConfirmationEvidence[];
+}
+
+// Filler words dropped before comparing labels ("Please enter your email again")
+const STOP_WORDS = new Set(['your', 'please', 'enter', 'the', 'type', 'in', 'bitte', 'ihre', 'votre', 'su', 'tu']);
+
+function labelOf(c: Candidate): string {
+  return c.accessibleName?.value || c.attributes?.placeholder || c.attributes?.['aria-label'] || '';
+}
+
+function identOf(c: Candidate): string {
+  return c.attributes?.name || c.attributes?.id || '';
+}
+
+function stem(text: string): string {
+  return text
+    .split(' ')
+    .filter((t) => t && !STOP_WORDS.has(t))
+    .join(' ');
+}
+
+function confirmationWording(c: Candidate): string | null {
+  return findConfirmationWording(labelOf(c)) ?? findConfirmationWording(identOf(c));
+}
+
+function inputKind(c: Candidate): string {
+  return `${c.tagName}:${(c.type || '').toLowerCase()}`;
+}
+
+// Pairs inside each form group. Candidates are expected in document order (as scanned);
+// each confirmation field takes the best-supported earlier field with the same control type.
+export function detectConfirmationPairs(candidates: Candidate[]): ConfirmationPair[] {
+  const groups = new Map<string, Candidate[]>();
+  for (const c of candidates) {
+    const id = `${c.formGroupId || ''}|${c.autofillSection || ''}`;
+    const list = groups.get(id) || [];
+    list.push(c);
+    groups.set(id, list);
+  }
+
+  const pairs: ConfirmationPair[] = [];
+  for (const list of groups.values()) {
+    const confirming = new Set(list.filter((c) => confirmationWording(c)).map((c) => c.id));
+    const taken = new Set<string>();
+    list.forEach((confirm, index) => {
+      if (!confirming.has(confirm.id)) return;
+      const nameStem = stem(stripConfirmationWording(identOf(confirm)));
+      const labelStem = stem(stripConfirmationWording(labelOf(confirm)));
+
+      let best: { primary: Candidate; score: number; evidence: ConfirmationEvidence[] } | null = null;
+      for (let i = index - 1; i >= 0; i--) {
+        const primary = list[i];
+        if (confirming.has(primary.id) || taken.has(primary.id)) continue;
+        if (inputKind(primary) !== inputKind(confirm)) continue;
+        const evidence: ConfirmationEvidence[] = ['wording'];
+        let score = 0;
+        if (nameStem && nameStem === stem(normalizeSignalText(identOf(primary)))) {
+          evidence.push('name-stem');
+          score += 2;
+        }
+        if (labelStem && labelStem === stem(normalizeSignalText(labelOf(primary)))) {
+          evidence.push('label-stem');
+          score += 2;
+        }
+        if (i === index - 1) {
+          evidence.push('adjacent');
+          score += 1;
+        }
+        if (confirm.type && confirm.type !== 'text') {
+          evidence.push('type');
+          score += 1;
+        }
+        // A stem match, or a bare "Confirm" right after a field of a specific type
+        if (score < 2) continue;
+        if (!best || score > best.score) best = { primary, score, evidence };
+      }
+      if (!best) return;
+      taken.add(best.primary.id);
+      pairs.push({ primaryId: best.primary.id, confirmId: confirm.id, evidence: best.evidence });
+    });
+  }
+  return pairs;
+}
+
+// Candidate ids linked to `id` through a pair (its confirmation field, or its primary)
+export function linkedCandidateIds(pairs: ConfirmationPair[] | null | undefined, id: string): string[] {
+  const out: string[] = [];
+  for (const p of pairs || []) {
+    if (p.primaryId === id) out.push(p.confirmId);
+    else if (p.confirmId === id) out.push(p.primaryId);
+  }
+  return out;
+}
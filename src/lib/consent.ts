@@ -0,0 +1,158 @@
+// Consent checkboxes: accepting terms, consenting to data processing, opting into marketing.
+// Their labels share words with template keys ("email me offers"), but only the user may tick
+// them: the matcher treats them as decoys and the fill follows the user's ConsentPolicy.
+
+import type { Candidate } from '../content/domScanner';
+import { normalizeRegionText } from './regionCodes';
+
+export type ConsentKind = 'terms' | 'consent' | 'marketing';
+
+// never: left as the page has it; uncheck: unticked when the page pre-ticks it;
+// prompt: ticked once the user confirms it in the management panel
+export type ConsentAction = 'never' | 'uncheck' | 'prompt';
+
+export type ConsentPolicy = Record<ConsentKind, ConsentAction>;
+
+export const CONSENT_KINDS: ConsentKind[] = ['terms', 'consent', 'marketing'];
+
+export const DEFAULT_CONSENT_POLICY: ConsentPolicy = {
+  terms: 'prompt',
+  consent: 'prompt',
+  marketing: 'uncheck'
+};
+
+export interface ConsentEvidence {
+  // 'label', 'name', 'id'... or 'link' for a policy link next to the box
+  source: string;
+  matched: string;
+}
+
+export interface ConsentClassification {
+  kind: ConsentKind;
+  evidence: ConsentEvidence[];
+}
+
+// Terms are matched on whole tokens of normalized text (CJK terms as substrings)
+const VOCABULARY: Record<ConsentKind, string[]> = {
+  marketing: [
+    'newsletter', 'newsletters', 'subscribe', 'marketing', 'promotional', 'promotions', 'special offers',
+    'offers', 'deals', 'mailing list', 'email updates', 'product updates', 'news and updates', 'partners',
+    'werbung', 'angebote', 'infolettre', 'offres', 'promociones', 'ofertas', 'boletin', 'メールマガジン', 'メルマガ'
+  ],
+  terms: [
+    'terms', 'terms of service', 'terms of use', 'terms and conditions', 'conditions of use', 'tos', 'eula',
+    'user agreement', 'license agreement', 'agb', 'geschaftsbedingungen', 'nutzungsbedingungen',
+    'conditions generales', 'cgu', 'cgv', 'terminos', 'condiciones', '利用規約'
+  ],
+  consent: [
+    'privacy', 'privacy policy', 'privacy notice', 'data protection', 'personal data', 'gdpr', 'consent',
+    'data processing', 'datenschutz', 'datenschutzerklarung', 'einwilligung', 'donnees personnelles',
+    'confidentialite', 'consentement', 'privacidad', 'datos personales', 'consentimiento', '個人情報', 'プライバシー'
+  ]
+};
+
+// Wording that only means consent next to a policy link ("I have read and accept the [policy]")
+const AGREEMENT_TERMS = [
+  'agree', 'accept', 'i have read', 'acknowledge', 'zustimmen', 'akzeptiere', 'einverstanden', 'gelesen',
+  'accepte', 'j accepte', 'acepto', 'he leido', '同意'
+];
+
+const CJK = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
+function findTerm(text: string, terms: string[]): string | null {
+  if (!text) return null;
+  const padded = ` ${text} `;
+  for (const term of terms) {
+    if (CJK.test(term) ? text.includes(term) : padded.includes(` ${term} `)) return term;
+  }
+  return null;
+}
+
+function normalize(text: string | null | undefined): string {
+  return normalizeRegionText((text || '').replace(/([a-z])([A-Z])/g, '$1 $2'));
+}
+
+function isCheckbox(c: Candidate): boolean {
+  const type = (c.type || c.attributes?.type || '').toLowerCase();
+  const role = (c.role || '').toLowerCase();
+  return type === 'checkbox' || role === 'checkbox' || role === 'switch';
+}
+
+function fieldTexts(c: Candidate): Array<[string, string]> {
+  const attrs = c.attributes || {};
+  const sources: Array<[string, string | null | undefined]> = [
+    ['label', c.accessibleName?.value],
+    ['aria-label', attrs['aria-label']],
+    ['title', attrs.title],
+    ['name', attrs.name],
+    ['id', attrs.id]
+  ];
+  return sources.filter((s): s is [string, string] => !!s[1]).map(([source, text]) => [source, normalize(text)]);
+}
+
+// Which policy a link points at, from its text or URL
+function linkKind(link: NonNullable<Candidate['links']>[number]): { kind: ConsentKind; matched: string } | null {
+  for (const text of [normalize(link.text), normalize(link.href)]) {
+    const terms = findTerm(text, VOCABULARY.terms);
+    if (terms) return { kind: 'terms', matched: link.text || terms };
+    const privacy = findTerm(text, VOCABULARY.consent);
+    if (privacy) return { kind: 'consent', matched: link.text || privacy };
+  }
+  return null;
+}
+
+// Marketing wording wins ("Send me offers. See our privacy policy"), then terms, then consent.
+// Without policy wording, agreement wording next to a policy link decides.
+export function classifyConsent(candidate: Candidate): ConsentClassification | null {
+  if (!isCheckbox(candidate)) return null;
+  const texts = fieldTexts(candidate);
+  for (const kind of ['marketing', 'terms', 'consent'] as ConsentKind[]) {
+    for (const [source, text] of texts) {
+      const matched = findTerm(text, VOCABULARY[kind]);
+      if (matched) return { kind, evidence: [{ source, matched }] };
+    }
+  }
+
+  const agreement = texts.map(([source, text]) => ({ source, matched: findTerm(text, AGREEMENT_TERMS) })).find((t) => t.matched);
+  for (const link of candidate.links || []) {
+    if (!agreement && !link.inLabel) continue;
+    const hit = linkKind(link);
+    if (!hit) continue;
+    const evidence: ConsentEvidence[] = [{ source: 'link', matched: hit.matched }];
+    if (agreement) evidence.unshift({ source: agreement.source, matched: agreement.matched! });
+    return { kind: hit.kind, evidence };
+  }
+  // "I agree" on its own is an agreement to something
+  if (agreement) return { kind: 'terms', evidence: [{ source: agreement.source, matched: agreement.matched! }] };
+  return null;
+}
+
+export function normaliseConsentPolicy(input: unknown): ConsentPolicy {
+  const raw = input && typeof input === 'object' ? (input as Partial<Record<ConsentKind, unknown>>) : {};
+  const policy = { ...DEFAULT_CONSENT_POLICY };
+  for (const kind of CONSENT_KINDS) {
+    const action = raw[kind];
+    if (action === 'never' || action === 'uncheck' || action === 'prompt') policy[kind] = action;
+  }
+  return policy;
+}
+
+const KIND_LABELS: Record<ConsentKind, string> = {
+  terms: 'Terms acceptance',
+  consent: 'Data-processing consent',
+  marketing: 'Marketing opt-in'
+};
+
+const ACTION_LABELS: Record<ConsentAction, string> = {
+  never: 'never checked',
+  uncheck: 'always left unchecked',
+  prompt: 'checked on confirmation'
+};
+
+export function describeConsentKind(kind: ConsentKind): string {
+  return KIND_LABELS[kind];
+}
+
+export function describeConsentAction(action: ConsentAction): string {
+  return ACTION_LABELS[action];
+}
@@ -0,0 +1,480 @@
+// Dates: templates store ISO dates (YYYY-MM-DD); forms want them as native date inputs,
+// text written in the field's format ("31.12.1990", "12/31/90") or spread over separate
+// day / month / year selects. The target format is inferred from the field itself.
+
+import { parseAutocomplete } from './autocomplete';
+import type { FieldHints } from './composite';
+import { getOntologyEntry } from './ontologyRegistry';
+import type { SelectOptionLike } from './selectOptions';
+
+export interface DateParts {
+  year: number;
+  month: number; // 1..12
+  day: number;
+}
+
+export type DatePart = 'day' | 'month' | 'year';
+
+// Where a date goes: a native input, text in a pattern ('DD.MM.YYYY') or one part of a split date
+export type DateTarget =
+  | { kind: 'native'; inputType: 'date' | 'datetime-local' | 'month' }
+  | { kind: 'pattern'; pattern: string; source: 'placeholder' | 'pattern' | 'lang' }
+  | { kind: 'part'; part: DatePart };
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})(?:$|T)/;
+const PATTERN_TOKENS = /YYYY|YY|MMMM|MMM|MM|M|DD|D/g;
+
+export function isDateKey(key: string): boolean {
+  return getOntologyEntry(key)?.type === 'date';
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function validParts(year: number, month: number, day: number): DateParts | null {
+  if (!Number.isInteger(year) || !Number.isInteger(month) || !Number.isInteger(day)) return null;
+  if (year < 1 || month < 1 || month > 12 || day < 1 || day > daysInMonth(year, month)) return null;
+  return { year, month, day };
+}
+
+// Stored value -> parts; accepts ISO dates (and ISO date-times)
+export function parseDateValue(value: string): DateParts | null {
+  const m = ISO_DATE.exec((value || '').trim());
+  return m ? validParts(Number(m[1]), Number(m[2]), Number(m[3])) : null;
+}
+
+function pad(n: number, width: number): string {
+  return String(n).padStart(width, '0');
+}
+
+export function toIsoDate(parts: DateParts): string {
+  return `${pad(parts.year, 4)}-${pad(parts.month, 2)}-${pad(parts.day, 2)}`;
+}
+
+// Two-digit years: up to next year is this century, the rest the previous one
+function expandYear(yy: number): number {
+  const now = new Date().getFullYear();
+  const century = Math.floor(now / 100) * 100;
+  return century + yy > now + 1 ? century - 100 + yy : century + yy;
+}
+
+function monthNames(lang: string | null | undefined, style: 'long' | 'short'): string[] {
+  const locales = [lang, 'en'].filter((l): l is string => !!l);
+  for (const locale of locales) {
+    try {
+      const fmt = new Intl.DateTimeFormat(locale, { month: style, timeZone: 'UTC' });
+      return Array.from({ length: 12 }, (_, i) => fmt.format(new Date(Date.UTC(2000, i, 15))));
+    } catch {
+      // unknown locale tag; try the next one
+    }
+  }
+  return [];
+}
+
+function normalizeName(text: string): string {
+  return (text || '').normalize('NFKD').replace(/\p{M}+/gu, '').toLowerCase().replace(/[.\s]+/g, '').trim();
+}
+
+// Month number for a month name in the field's language or English ('Dez', 'December')
+function monthFromName(text: string, lang: string | null | undefined): number | null {
+  const wanted = normalizeName(text);
+  if (!wanted) return null;
+  for (const locale of [lang, 'en']) {
+    for (const style of ['long', 'short'] as const) {
+      const names = monthNames(locale, style).map(normalizeName);
+      const index = names.findIndex((n) => n === wanted || (wanted.length >= 3 && n.startsWith(wanted)));
+      if (index >= 0) return index + 1;
+    }
+  }
+  return null;
+}
+
+// ---- Format inference -------------------------------------------------------
+
+type Role = DatePart | null;
+
+interface Group {
+  role: Role;
+  width: number;
+  name?: boolean; // month written as a name (MMM / MMMM)
+}
+
+const DAY_LETTERS = 'DTGД'; // day, Tag, giorno, день
+const YEAR_LETTERS = 'YAГ'; // year, año/année/anno, год
+
+// Day / month / year order of a locale ('en-US' -> month, day, year)
+function localeOrder(lang: string | null | undefined): DatePart[] {
+  const pattern = localeDatePattern(lang);
+  const order: DatePart[] = [];
+  for (const token of pattern?.match(PATTERN_TOKENS) || []) {
+    order.push(token[0] === 'Y' ? 'year' : token[0] === 'M' ? 'month' : 'day');
+  }
+  return order.length === 3 ? order : ['year', 'month', 'day'];
+}
+
+// Assign the groups nobody could place: four digits are a year, the rest follow the locale order
+function resolveRoles(groups: Group[], lang: string | null | undefined): boolean {
+  for (const g of groups) {
+    if (!g.role && g.width === 4 && !groups.some((o) => o.role === 'year')) g.role = 'year';
+  }
+  const free = localeOrder(lang).filter((part) => !groups.some((g) => g.role === part));
+  for (const g of groups) {
+    if (!g.role) g.role = free.shift() ?? null;
+  }
+  const roles = new Set(groups.map((g) => g.role));
+  return groups.length === 3 && roles.size === 3 && !roles.has(null);
+}
+
+function tokenFor(g: Group): string {
+  if (g.role === 'year') return g.width === 2 ? 'YY' : 'YYYY';
+  if (g.role === 'month') return g.name ? (g.width > 3 ? 'MMMM' : 'MMM') : g.width === 1 ? 'M' : 'MM';
+  return g.width === 1 ? 'D' : 'DD';
+}
+
+function buildPattern(groups: Group[], separators: string[]): string {
+  return groups.map((g, i) => `${tokenFor(g)}${separators[i] ?? ''}`).join('');
+}
+
+// Letter runs ('TT.MM.JJJJ', 'DD/MM/AAAA', 'ДД.ММ.ГГГГ') -> roles
+function groupsFromLetters(runs: string[]): Group[] {
+  const groups: Group[] = runs.map((run) => {
+    const letter = run[0].toUpperCase();
+    const month = letter === 'M' || letter === 'М';
+    const role: Role = month ? 'month' : DAY_LETTERS.includes(letter) ? 'day' : YEAR_LETTERS.includes(letter) ? 'year' : null;
+    return { role, width: run.length, name: month && run.length >= 3 };
+  });
+  // 'J' is the day in French (JJ/MM/AAAA) and the year in German (TT.MM.JJJJ)
+  for (const g of groups) {
+    if (g.role) continue;
+    if (groups.some((o) => o.role === 'year')) g.role = 'day';
+    else if (groups.some((o) => o.role === 'day')) g.role = 'year';
+  }
+  return groups;
+}
+
+// Example dates ('31/12/1990', '1990-12-31') -> roles by value
+function groupsFromExample(values: string[]): Group[] {
+  const groups: Group[] = values.map((v) => ({ role: v.length === 4 ? 'year' : null, width: v.length }));
+  const nums = values.map(Number);
+  const open = groups.map((g, i) => (g.role ? -1 : i)).filter((i) => i >= 0);
+  if (open.length === 2) {
+    const [a, b] = open;
+    if (nums[a] > 12) {
+      groups[a].role = 'day';
+      groups[b].role = 'month';
+    } else if (nums[b] > 12) {
+      groups[a].role = 'month';
+      groups[b].role = 'day';
+    }
+  }
+  return groups;
+}
+
+const LETTER = '[DdMmYyTtJjAaGgДдМмГг]';
+const SEPARATOR = '[./\\-\\s]+';
+const LETTER_PATTERN = new RegExp(
+  `(?<!\\p{L})(${LETTER})\\1*(${SEPARATOR})(${LETTER})\\3*(${SEPARATOR})(${LETTER})\\5*(?!\\p{L})`,
+  'u'
+);
+
+// Date format written in a placeholder or hint: 'DD/MM/YYYY', 'MM-DD-YY', 'TT.MM.JJJJ',
+// 'e.g. 31/12/1990' or a mask like '__/__/____'. Returns a pattern in D/M/Y tokens.
+export function parseDatePattern(text: string | null | undefined, lang?: string | null): string | null {
+  const s = (text || '').trim();
+  if (!s) return null;
+
+  const letters = LETTER_PATTERN.exec(s);
+  if (letters) {
+    const groups = groupsFromLetters(letters[0].split(/[./\-\s]+/));
+    if (resolveRoles(groups, lang)) return buildPattern(groups, [letters[2], letters[4]]);
+  }
+
+  const example = /(?<!\d)(\d{1,4})([./-])(\d{1,2})\2(\d{2,4})(?!\d)/.exec(s);
+  if (example) {
+    const groups = groupsFromExample([example[1], example[3], example[4]]);
+    if (resolveRoles(groups, lang)) return buildPattern(groups, [example[2], example[2]]);
+  }
+
+  // Masks: '__/__/____', '99.99.9999', '##-##-####'
+  const mask = /^([_#*9]+)([./\-\s]+)([_#*9]+)([./\-\s]+)([_#*9]+)$/.exec(s);
+  if (mask) {
+    const groups: Group[] = [mask[1], mask[3], mask[5]].map((m) => ({ role: null, width: m.length }));
+    if (resolveRoles(groups, lang)) return buildPattern(groups, [mask[2], mask[4]]);
+  }
+  return null;
+}
+
+// Date format enforced by an HTML pattern attribute ('\d{2}\.\d{2}\.\d{4}', '[0-9]{4}-[0-9]{2}-[0-9]{2}')
+export function datePatternFromRegex(pattern: string | null | undefined, lang?: string | null): string | null {
+  const src = (pattern || '').trim().replace(/^\^/, '').replace(/\$$/, '');
+  if (!src) return null;
+  const digitGroup = /(?:\\d|\[0-9\])(?:\{(\d)(?:,(\d))?\}|(\+))?/g;
+  const groups: Group[] = [];
+  const separators: string[] = [];
+  let last = 0;
+  let m: RegExpExecArray | null;
+  while ((m = digitGroup.exec(src))) {
+    const between = src.slice(last, m.index).replace(/\\/g, '');
+    if (groups.length > 0) {
+      if (!/^[./\-\s]+$/.test(between)) return null;
+      separators.push(between);
+    } else if (between) {
+      return null;
+    }
+    const width = m[2] ? Number(m[2]) : m[1] ? Number(m[1]) : m[3] ? 2 : 1;
+    groups.push({ role: null, width });
+    last = m.index + m[0].length;
+  }
+  if (groups.length !== 3 || src.slice(last)) return null;
+  return resolveRoles(groups, lang) ? buildPattern(groups, separators) : null;
+}
+
+// Numeric date format of a locale ('de' -> 'DD.MM.YYYY', 'en-US' -> 'MM/DD/YYYY')
+export function localeDatePattern(lang: string | null | undefined): string | null {
+  if (!lang) return null;
+  try {
+    const fmt = new Intl.DateTimeFormat(lang, { year: 'numeric', month: '2-digit', day: '2-digit', timeZone: 'UTC' });
+    return fmt
+      .formatToParts(new Date(Date.UTC(2000, 10, 23)))
+      .map((p) => (p.type === 'year' ? 'YYYY' : p.type === 'month' ? 'MM' : p.type === 'day' ? 'DD' : p.type === 'literal' ? p.value : ''))
+      .join('')
+      .replace(/[\u200e\u200f]/g, ''); // bidi marks some locales emit
+  } catch {
+    return null;
+  }
+}
+
+const PART_AUTOCOMPLETE: Record<string, DatePart> = { 'bday-day': 'day', 'bday-month': 'month', 'bday-year': 'year' };
+
+const PART_WORDS: Record<DatePart, string[]> = {
+  day: ['day', 'dd', 'tag', 'jour', 'dia', 'giorno', 'dag', 'dzien', 'день', '日'],
+  month: ['month', 'mm', 'monat', 'mois', 'mes', 'mese', 'maand', 'miesiac', 'месяц', '月'],
+  year: ['year', 'yyyy', 'yy', 'jahr', 'annee', 'ano', 'anno', 'jaar', 'rok', 'год', '年']
+};
+
+function words(text: string): string[] {
+  return text
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .normalize('NFKD')
+    .replace(/\p{M}+/gu, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+// Which part a select offers from its options: 1..31, twelve months, four-digit years
+function partFromOptions(options: SelectOptionLike[]): DatePart | null {
+  const usable = options.filter((o) => !o.disabled && o.value !== '');
+  if (usable.length === 0) return null;
+  const nums = usable.map((o) => Number(o.value.trim() || o.text.trim()));
+  if (nums.every((n) => Number.isInteger(n) && n >= 1000 && n <= 9999)) return 'year';
+  if (usable.length === 12) return 'month';
+  if (usable.length >= 28 && usable.length <= 31 && nums.every((n) => Number.isInteger(n) && n >= 1 && n <= 31)) return 'day';
+  return null;
+}
+
+// Which part of a date a field wants, or null for the whole date
+export function detectDatePart(hints: FieldHints): DatePart | null {
+  const field = parseAutocomplete(hints.autocomplete)?.field;
+  if (field && PART_AUTOCOMPLETE[field]) return PART_AUTOCOMPLETE[field];
+  if (hints.options?.length) {
+    const fromOptions = partFromOptions(hints.options);
+    if (fromOptions) return fromOptions;
+  }
+  // One part named in the labels ('Day', 'dob_month'); a full 'DD/MM/YYYY' names all three
+  const found = new Set<DatePart>();
+  for (const text of hints.texts) {
+    const tokens = words(text);
+    for (const part of Object.keys(PART_WORDS) as DatePart[]) {
+      if (PART_WORDS[part].some((w) => tokens.includes(w))) found.add(part);
+    }
+  }
+  return found.size === 1 ? Array.from(found)[0] : null;
+}
+
+// How the field wants the date, or null when nothing says (the ISO value is written as-is)
+export function inferDateTarget(hints: FieldHints): DateTarget | null {
+  const inputType = (hints.inputType || '').toLowerCase();
+  if (inputType === 'date' || inputType === 'datetime-local' || inputType === 'month') return { kind: 'native', inputType };
+  if (hints.options) {
+    const part = detectDatePart(hints);
+    return part ? { kind: 'part', part } : null;
+  }
+  const field = parseAutocomplete(hints.autocomplete)?.field;
+  if (field && PART_AUTOCOMPLETE[field]) return { kind: 'part', part: PART_AUTOCOMPLETE[field] };
+
+  const fromPlaceholder = parseDatePattern(hints.placeholder, hints.lang);
+  if (fromPlaceholder) return { kind: 'pattern', pattern: fromPlaceholder, source: 'placeholder' };
+  const fromRegex = datePatternFromRegex(hints.pattern, hints.lang);
+  if (fromRegex) return { kind: 'pattern', pattern: fromRegex, source: 'pattern' };
+  // Format written in the label or hint text ('Date of birth (DD/MM/YYYY)')
+  for (const text of hints.texts) {
+    const fromText = parseDatePattern(text, hints.lang);
+    if (fromText) return { kind: 'pattern', pattern: fromText, source: 'placeholder' };
+  }
+  const part = detectDatePart(hints);
+  if (part) return { kind: 'part', part };
+  const fromLang = localeDatePattern(hints.lang);
+  return fromLang ? { kind: 'pattern', pattern: fromLang, source: 'lang' } : null;
+}
+
+// ---- Writing ----------------------------------------------------------------
+
+export function formatDate(parts: DateParts, pattern: string, lang?: string | null): string {
+  return pattern.replace(PATTERN_TOKENS, (token) => {
+    switch (token) {
+      case 'YYYY':
+        return pad(parts.year, 4);
+      case 'YY':
+        return pad(parts.year % 100, 2);
+      case 'MMMM':
+        return monthNames(lang, 'long')[parts.month - 1] ?? pad(parts.month, 2);
+      case 'MMM':
+        return monthNames(lang, 'short')[parts.month - 1] ?? pad(parts.month, 2);
+      case 'MM':
+        return pad(parts.month, 2);
+      case 'M':
+        return String(parts.month);
+      case 'DD':
+        return pad(parts.day, 2);
+      default:
+        return String(parts.day);
+    }
+  });
+}
+
+// Fit a pattern into maxlength: two-digit year first, then drop the separators
+function fitPattern(pattern: string, maxLength: number | null | undefined): string {
+  if (!maxLength || maxLength < 0) return pattern;
+  const width = (p: string) => p.replace(/MMMM/g, 'MMMMMMMMM').length;
+  if (width(pattern) <= maxLength) return pattern;
+  const shortYear = pattern.replace('YYYY', 'YY');
+  if (width(shortYear) <= maxLength) return shortYear;
+  const compact = pattern.replace(/[^DMY]+/g, '');
+  if (width(compact) <= maxLength) return compact;
+  return compact.replace('YYYY', 'YY');
+}
+
+function normalizeOption(text: string): string {
+  return normalizeName(text).replace(/^0+(?=\d)/, '');
+}
+
+// Value to pick in a day / month / year select, or to type into a part field
+export function datePartValue(parts: DateParts, part: DatePart, options?: SelectOptionLike[], lang?: string | null): string {
+  const n = part === 'day' ? parts.day : part === 'month' ? parts.month : parts.year;
+  if (!options?.length) return part === 'year' ? pad(n, 4) : pad(n, 2);
+
+  const wanted = new Set([String(n), pad(n, 2)].map(normalizeOption));
+  if (part === 'year') wanted.add(pad(n % 100, 2));
+  if (part === 'month') {
+    for (const style of ['long', 'short'] as const) {
+      for (const locale of [lang, 'en']) {
+        const name = monthNames(locale, style)[n - 1];
+        if (name) wanted.add(normalizeOption(name));
+      }
+    }
+  }
+  const usable = options.filter((o) => !o.disabled && o.value !== '');
+  for (const opt of usable) {
+    if (wanted.has(normalizeOption(opt.value))) return opt.value;
+  }
+  for (const opt of usable) {
+    if (wanted.has(normalizeOption(opt.text)) || (opt.label && wanted.has(normalizeOption(opt.label)))) return opt.value;
+  }
+  // Twelve month options in calendar order, whatever they are called
+  if (part === 'month' && usable.length === 12) return usable[n - 1].value;
+  return String(n);
+}
+
+// Stored ISO date -> what to write into the field. Values that are not ISO dates pass through.
+export function formatDateForField(value: string, hints: FieldHints): string {
+  const parts = parseDateValue(value);
+  if (!parts) return value;
+  const target = inferDateTarget(hints);
+  if (!target) return value;
+  switch (target.kind) {
+    case 'native':
+      if (target.inputType === 'month') return toIsoDate(parts).slice(0, 7);
+      if (target.inputType === 'datetime-local') return `${toIsoDate(parts)}T00:00`;
+      return toIsoDate(parts);
+    case 'part':
+      return datePartValue(parts, target.part, hints.options, hints.lang);
+    case 'pattern':
+      return formatDate(parts, fitPattern(target.pattern, hints.maxLength), hints.lang);
+  }
+}
+
+// ---- Reading ----------------------------------------------------------------
+
+// Parts present in a field value written for `target` (the inverse of formatDateForField)
+export function readDateParts(raw: string, target: DateTarget | null, lang?: string | null): Partial<DateParts> {
+  const s = (raw || '').trim();
+  if (!s) return {};
+  if (!target) {
+    const iso = parseDateValue(s);
+    return iso ?? {};
+  }
+  if (target.kind === 'native') {
+    const m = /^(\d{4})-(\d{2})(?:-(\d{2}))?/.exec(s);
+    if (!m) return {};
+    return { year: Number(m[1]), month: Number(m[2]), ...(m[3] ? { day: Number(m[3]) } : {}) };
+  }
+  if (target.kind === 'part') {
+    const num = Number(s);
+    if (target.part === 'month' && !Number.isInteger(num)) {
+      const month = monthFromName(s, lang);
+      return month ? { month } : {};
+    }
+    if (!Number.isInteger(num) || num < 1) return {};
+    if (target.part === 'year') return { year: s.length <= 2 ? expandYear(num) : num };
+    if (target.part === 'day') return num <= 31 ? { day: num } : {};
+    return num <= 12 ? { month: num } : {};
+  }
+  const tokens = target.pattern.match(PATTERN_TOKENS) || [];
+  // Compact patterns ('DDMMYYYY') have no separators to split on
+  const values = /^\d+$/.test(s) && tokens.length === 3 ? splitCompact(s, tokens) : s.match(/\d+|\p{L}+/gu) || [];
+  if (values.length !== tokens.length) return {};
+  const out: Partial<DateParts> = {};
+  tokens.forEach((token, i) => {
+    const v = values[i];
+    if (token[0] === 'Y') out.year = token === 'YY' ? expandYear(Number(v)) : Number(v);
+    else if (token[0] === 'D') out.day = Number(v);
+    else out.month = /^\d+$/.test(v) ? Number(v) : (monthFromName(v, lang) ?? undefined);
+  });
+  return out;
+}
+
+function splitCompact(s: string, tokens: string[]): string[] {
+  const widths = tokens.map((t) => (t === 'YYYY' ? 4 : 2));
+  if (widths.reduce((a, b) => a + b, 0) !== s.length) return [];
+  const out: string[] = [];
+  let at = 0;
+  for (const w of widths) {
+    out.push(s.slice(at, at + w));
+    at += w;
+  }
+  return out;
+}
+
+export function completeDate(parts: Partial<DateParts>): DateParts | null {
+  if (parts.year == null || parts.month == null || parts.day == null) return null;
+  return validParts(parts.year, parts.month, parts.day);
+}
+
+// Typed-in date ('31.12.1990', '1990/12/31') -> ISO when the order is unambiguous, else null
+export function normalizeDateInput(text: string, lang?: string | null): string | null {
+  const s = (text || '').trim();
+  const iso = parseDateValue(s);
+  if (iso) return toIsoDate(iso);
+  // Dotted dates are day-first wherever they are used
+  const pattern = /^\d{1,2}\.\d{1,2}\.\d{4}$/.test(s) ? 'DD.MM.YYYY' : parseDatePattern(s, lang);
+  if (!pattern) return null;
+  // Without a language the example must settle the order by itself
+  if (!lang && /^\d{1,2}[/-]\d{1,2}[/-]\d{2,4}$/.test(s)) {
+    const [a, b] = s.split(/[/-]/).map(Number);
+    if (a <= 12 && b <= 12 && a !== b) return null;
+  }
+  const parts = completeDate(readDateParts(s, { kind: 'pattern', pattern, source: 'placeholder' }, lang));
+  return parts ? toIsoDate(parts) : null;
+}
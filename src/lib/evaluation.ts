@@ -0,0 +1,354 @@
+// Offline evaluation of the matcher against a labelled corpus of scanned forms.
+// A corpus entry is a serialized Candidate[] snapshot plus the gold key of each field;
+// evaluateCorpus runs computeBatchMatches over every entry and reports per-key precision,
+// recall and tier accuracy, and compareReports flags regressions against a saved baseline.
+// Entries may list known misses as expected failures, and the tier a gold pair must reach.
+
+import { z } from 'zod';
+import type { Candidate } from '../content/domScanner';
+import { computeBatchMatches, matchesToFill, type BatchMatchResult, type MatchResult } from './fieldMatcher';
+import type { MatcherConfig, OntologyKey } from './ontology';
+import { ONTOLOGY_REGISTRY, ONTOLOGY_SYNONYMS, toOntologyKey } from './ontologyRegistry';
+import { COMPOSITE_MULTI_FIELD_KEYS } from './composite';
+
+export const CORPUS_VERSION = 1;
+
+export interface CorpusEntry {
+  version: number;
+  id: string;
+  url?: string;
+  capturedAt?: number;
+  notes?: string;
+  candidates: Candidate[];
+  // candidate id -> gold key (canonical path), or null for fields that must stay unfilled.
+  // Candidates without an entry are not scored.
+  gold: Record<string, string | null>;
+  // candidate id -> why the matcher is known to miss this field. Any other miss fails the run,
+  // and so does a listed field the matcher gets right (drop it from the list then).
+  expectedFailures?: Record<string, string>;
+  // candidate id -> lowest tier the gold key must score on the field
+  minTiers?: Record<string, Tier>;
+}
+
+const corpusEntrySchema = z.object({
+  version: z.literal(CORPUS_VERSION),
+  id: z.string().min(1),
+  url: z.string().optional(),
+  capturedAt: z.number().optional(),
+  notes: z.string().optional(),
+  candidates: z.array(z.object({ id: z.string(), formGroupId: z.string() }).passthrough()),
+  gold: z.record(z.string().nullable()),
+  expectedFailures: z.record(z.string()).optional(),
+  minTiers: z.record(z.enum(['accept', 'consider', 'reject'])).optional()
+});
+
+export function parseCorpusEntry(input: unknown): CorpusEntry {
+  const entry = corpusEntrySchema.parse(input) as unknown as CorpusEntry;
+  const ids = new Set(entry.candidates.map((c) => c.id));
+  for (const id of Object.keys(entry.gold)) {
+    if (!ids.has(id)) throw new Error(`Corpus entry ${entry.id}: gold label for unknown candidate ${id}`);
+  }
+  for (const id of [...Object.keys(entry.expectedFailures ?? {}), ...Object.keys(entry.minTiers ?? {})]) {
+    if (!Object.prototype.hasOwnProperty.call(entry.gold, id)) {
+      throw new Error(`Corpus entry ${entry.id}: expectation for unlabelled candidate ${id}`);
+    }
+  }
+  return entry;
+}
+
+// Build a corpus entry from a live scan. Gold labels start out as the current assignment and
+// must be reviewed before the entry is committed.
+export function createCorpusEntry(
+  id: string,
+  candidates: Candidate[],
+  batch: BatchMatchResult | null,
+  meta: { url?: string; capturedAt?: number } = {}
+): CorpusEntry {
+  const gold: Record<string, string | null> = {};
+  for (const c of candidates) gold[c.id] = null;
+  for (const m of matchesToFill(batch)) {
+    if (m.tier !== 'reject') gold[m.candidate.id] = m.key.key;
+  }
+  return {
+    version: CORPUS_VERSION,
+    id,
+    ...(meta.url ? { url: meta.url } : {}),
+    ...(meta.capturedAt ? { capturedAt: meta.capturedAt } : {}),
+    candidates: JSON.parse(JSON.stringify(candidates)) as Candidate[],
+    gold
+  };
+}
+
+export type Tier = MatchResult['tier'];
+
+export interface KeyReport {
+  key: string;
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number;
+  recall: number;
+  f1: number;
+  // share of scored pairs whose tier is right: `accept` for gold pairs, `reject` otherwise
+  tierAccuracy: number;
+  // tiers given to the gold fields of this key
+  goldTiers: Record<Tier, number>;
+}
+
+export interface EvaluationMiss {
+  entry: string;
+  candidateId: string;
+  label: string | null;
+  gold: string | null;
+  predicted: string | null;
+  score: number | null;
+  tier: Tier | null;
+  // how the gold key scored on this field
+  goldScore: number | null;
+  goldTier: Tier | null;
+  // listed in the entry's expectedFailures
+  expected: boolean;
+}
+
+// A field the matcher got wrong or right against what its entry expects
+export interface ExpectationFailure {
+  entry: string;
+  candidateId: string;
+  label: string | null;
+  // 'fixed': an expected failure that no longer misses; 'tier': the gold pair scored below minTiers
+  kind: 'fixed' | 'tier';
+  required?: Tier;
+  actual?: Tier | null;
+}
+
+export interface EvaluationSummary {
+  precision: number;
+  recall: number;
+  f1: number;
+  tierAccuracy: number;
+}
+
+export interface EvaluationReport {
+  entries: number;
+  labelledFields: number;
+  overall: EvaluationSummary;
+  keys: Record<string, KeyReport>;
+  misses: EvaluationMiss[];
+  expectationFailures: ExpectationFailure[];
+}
+
+// What gets stored as the regression baseline
+export type EvaluationBaseline = Pick<EvaluationReport, 'overall' | 'keys'>;
+
+export interface EvaluationOptions {
+  // Keys the matcher competes over; defaults to every (unscoped) registry key
+  keys?: OntologyKey[];
+  // Merged over EVALUATION_MATCHER_CONFIG
+  config?: Partial<MatcherConfig>;
+}
+
+// Overrides the content script applies on top of DEFAULT_MATCHER_CONFIG
+export const EVALUATION_MATCHER_CONFIG: Partial<MatcherConfig> = {
+  synonyms: ONTOLOGY_SYNONYMS,
+  multiFieldKeys: COMPOSITE_MULTI_FIELD_KEYS
+};
+
+function round3(n: number): number {
+  return Math.round(n * 1000) / 1000;
+}
+
+function ratio(n: number, d: number): number {
+  return d === 0 ? 1 : round3(n / d);
+}
+
+function f1(p: number, r: number): number {
+  return p + r === 0 ? 0 : round3((2 * p * r) / (p + r));
+}
+
+interface Counter {
+  tp: number;
+  fp: number;
+  fn: number;
+  tierHits: number;
+  tierTotal: number;
+  goldTiers: Record<Tier, number>;
+}
+
+const TIER_RANK: Record<Tier, number> = { reject: 0, consider: 1, accept: 2 };
+
+function emptyCounter(): Counter {
+  return { tp: 0, fp: 0, fn: 0, tierHits: 0, tierTotal: 0, goldTiers: { accept: 0, consider: 0, reject: 0 } };
+}
+
+export function defaultEvaluationKeys(): OntologyKey[] {
+  return ONTOLOGY_REGISTRY.filter((entry) => !entry.scopeOf).map(toOntologyKey);
+}
+
+export function evaluateCorpus(entries: CorpusEntry[], options: EvaluationOptions = {}): EvaluationReport {
+  const keys = options.keys ?? defaultEvaluationKeys();
+  const counters = new Map<string, Counter>();
+  const counter = (key: string) => {
+    let c = counters.get(key);
+    if (!c) {
+      c = emptyCounter();
+      counters.set(key, c);
+    }
+    return c;
+  };
+  const misses: EvaluationMiss[] = [];
+  const expectationFailures: ExpectationFailure[] = [];
+  let labelledFields = 0;
+
+  for (const entry of entries) {
+    const batch = computeBatchMatches(keys, entry.candidates, { ...EVALUATION_MATCHER_CONFIG, ...options.config });
+    const predicted = new Map<string, MatchResult>();
+    for (const m of matchesToFill(batch)) {
+      if (m.tier !== 'reject') predicted.set(m.candidate.id, m);
+    }
+
+    for (const cand of entry.candidates) {
+      if (!Object.prototype.hasOwnProperty.call(entry.gold, cand.id)) continue;
+      labelledFields++;
+      const gold = entry.gold[cand.id];
+      const pred = predicted.get(cand.id);
+      const predictedKey = pred?.key.key ?? null;
+      const goldMatch = gold ? (batch.byKey[gold] || []).find((m) => m.candidate.id === cand.id) : undefined;
+      const label = cand.accessibleName?.value ?? null;
+      const expected = Object.prototype.hasOwnProperty.call(entry.expectedFailures ?? {}, cand.id);
+      const required = entry.minTiers?.[cand.id];
+      if (required && TIER_RANK[goldMatch?.tier ?? 'reject'] < TIER_RANK[required]) {
+        expectationFailures.push({ entry: entry.id, candidateId: cand.id, label, kind: 'tier', required, actual: goldMatch?.tier ?? null });
+      }
+
+      if (gold) {
+        const c = counter(gold);
+        const goldTier: Tier = goldMatch?.tier ?? 'reject';
+        c.goldTiers[goldTier]++;
+        c.tierTotal++;
+        if (goldTier === 'accept') c.tierHits++;
+        if (predictedKey === gold) c.tp++;
+        else c.fn++;
+      }
+      if (pred && predictedKey !== gold) {
+        const c = counter(predictedKey!);
+        c.fp++;
+        c.tierTotal++;
+        if (pred.tier === 'reject') c.tierHits++;
+      }
+      if (predictedKey !== gold) {
+        misses.push({
+          entry: entry.id,
+          candidateId: cand.id,
+          label,
+          gold,
+          predicted: predictedKey,
+          score: pred ? round3(pred.score) : null,
+          tier: pred?.tier ?? null,
+          goldScore: goldMatch ? round3(goldMatch.score) : null,
+          goldTier: goldMatch?.tier ?? null,
+          expected
+        });
+      } else if (expected) {
+        expectationFailures.push({ entry: entry.id, candidateId: cand.id, label, kind: 'fixed' });
+      }
+    }
+  }
+
+  const reports: Record<string, KeyReport> = {};
+  const total = emptyCounter();
+  for (const [key, c] of Array.from(counters.entries()).sort(([a], [b]) => a.localeCompare(b))) {
+    const precision = ratio(c.tp, c.tp + c.fp);
+    const recall = ratio(c.tp, c.tp + c.fn);
+    reports[key] = {
+      key,
+      truePositives: c.tp,
+      falsePositives: c.fp,
+      falseNegatives: c.fn,
+      precision,
+      recall,
+      f1: f1(precision, recall),
+      tierAccuracy: ratio(c.tierHits, c.tierTotal),
+      goldTiers: c.goldTiers
+    };
+    total.tp += c.tp;
+    total.fp += c.fp;
+    total.fn += c.fn;
+    total.tierHits += c.tierHits;
+    total.tierTotal += c.tierTotal;
+  }
+  const precision = ratio(total.tp, total.tp + total.fp);
+  const recall = ratio(total.tp, total.tp + total.fn);
+  return {
+    entries: entries.length,
+    labelledFields,
+    overall: { precision, recall, f1: f1(precision, recall), tierAccuracy: ratio(total.tierHits, total.tierTotal) },
+    keys: reports,
+    misses,
+    expectationFailures
+  };
+}
+
+export interface Regression {
+  key: string; // '*' for the overall summary
+  metric: keyof EvaluationSummary;
+  baseline: number;
+  current: number;
+}
+
+const METRICS: Array<keyof EvaluationSummary> = ['precision', 'recall', 'f1', 'tierAccuracy'];
+
+// Metrics that dropped by more than `tolerance` since the baseline
+export function compareReports(baseline: EvaluationBaseline, current: EvaluationBaseline, tolerance = 0.005): Regression[] {
+  const out: Regression[] = [];
+  const check = (key: string, before: EvaluationSummary, after: EvaluationSummary | undefined) => {
+    for (const metric of METRICS) {
+      const now = after ? after[metric] : 0;
+      if (before[metric] - now > tolerance) out.push({ key, metric, baseline: before[metric], current: now });
+    }
+  };
+  check('*', baseline.overall, current.overall);
+  for (const [key, before] of Object.entries(baseline.keys)) check(key, before, current.keys[key]);
+  return out;
+}
+
+export function toBaseline(report: EvaluationReport): EvaluationBaseline {
+  return { overall: report.overall, keys: report.keys };
+}
+
+// Plain-text table for terminals and CI logs
+export function formatReport(report: EvaluationReport, regressions: Regression[] = []): string {
+  const pct = (n: number) => `${(n * 100).toFixed(1)}%`.padStart(7);
+  const lines = [
+    `${report.entries} entries, ${report.labelledFields} labelled fields`,
+    `${'key'.padEnd(32)} ${'prec'.padStart(7)} ${'recall'.padStart(7)} ${'f1'.padStart(7)} ${'tier'.padStart(7)}  tp/fp/fn`
+  ];
+  for (const r of Object.values(report.keys)) {
+    lines.push(
+      `${r.key.padEnd(32)} ${pct(r.precision)} ${pct(r.recall)} ${pct(r.f1)} ${pct(r.tierAccuracy)}  ${r.truePositives}/${r.falsePositives}/${r.falseNegatives}`
+    );
+  }
+  const o = report.overall;
+  lines.push(`${'overall'.padEnd(32)} ${pct(o.precision)} ${pct(o.recall)} ${pct(o.f1)} ${pct(o.tierAccuracy)}`);
+  if (report.misses.length) {
+    lines.push('', 'misses:');
+    for (const m of report.misses) {
+      const got = `${m.predicted ?? '-'}${m.tier ? ` (${m.tier} ${m.score})` : ''}`;
+      const goldScore = m.goldTier ? ` (${m.goldTier} ${m.goldScore})` : '';
+      lines.push(`  [${m.entry}] ${m.label ?? m.candidateId}: gold ${m.gold ?? '-'}${goldScore}, got ${got}${m.expected ? ' (expected)' : ''}`);
+    }
+  }
+  if (report.expectationFailures.length) {
+    lines.push('', 'expectations not met:');
+    for (const f of report.expectationFailures) {
+      const what = f.kind === 'fixed' ? 'listed as an expected failure but matched' : `needs ${f.required}, got ${f.actual ?? 'no score'}`;
+      lines.push(`  [${f.entry}] ${f.label ?? f.candidateId}: ${what}`);
+    }
+  }
+  if (regressions.length) {
+    lines.push('', 'regressions:');
+    for (const r of regressions) {
+      lines.push(`  ${r.key} ${r.metric}: ${pct(r.baseline).trim()} -> ${pct(r.current).trim()}`);
+    }
+  }
+  return lines.join('\n');
+}
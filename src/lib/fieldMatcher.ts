@@ -5,12 +5,19 @@ import {
   type OntologyKey,
   type PreferenceMap
 } from './ontology';
+import { resolveFieldLocales, type SynonymLocale } from './locale';
+import { solveAssignment } from './assignment';
+import { parseAutocomplete } from './autocomplete';
+import { canonicalChoice, isChoiceKey } from './choices';
+import { detectDatePart } from './dates';
+import { negativeEvidenceFor } from './negativeEvidence';
+import { detectConfirmationPairs, type ConfirmationPair } from './confirmationPairs';
 
 export interface HeuristicContribution {
-  id: 'autocomplete' | 'alias' | 'preference' | 'type' | 'regex' | 'schema' | 'fuzzy' | 'semantic';
+  id: 'autocomplete' | 'alias' | 'preference' | 'type' | 'regex' | 'schema' | 'fuzzy' | 'semantic' | 'negative';
   score: number; // 0..1
   weight: number; // weight applied
-  weightedScore: number; // score * weight
+  weightedScore: number; // score * weight, negated for the `negative` penalty
   evidence: Record<string, unknown>;
 }
 
@@ -18,6 +25,17 @@ export interface MatchExplanation {
   totalScore: number; // 0..1 after combining weighted contributions and clamping to 1
   contributions: HeuristicContribution[];
   highlights?: Highlight[]; // elements to highlight in UI
+  floor?: ScoreFloor; // set when decisive evidence lifted the averaged score
+}
+
+// Lowest score a match keeps whatever the other heuristics say, decoy penalty already taken off
+export interface ScoreFloor {
+  score: number;
+  reason: 'autocomplete' | 'alias' | 'file' | 'options';
+}
+
+function higherFloor(current: ScoreFloor | undefined, next: ScoreFloor): ScoreFloor {
+  return current && current.score >= next.score ? current : next;
 }
 
 export interface Highlight {
@@ -40,6 +58,7 @@ function normalize(str: string): string {
     .toLowerCase()
     .normalize('NFD')
     .replace(/\p{Diacritic}/gu, '')
+    .normalize('NFC') // recompose Hangul syllables split by NFD
     .replace(/[_-]+/g, ' ')
     .replace(/\s+/g, ' ')
     .trim();
@@ -55,10 +74,56 @@ function normalizeLabelForPreference(str: string): string {
     .trim();
 }
 
+const CJK_CHAR = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+const CJK_SEGMENT =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]+|[^\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]+/gu;
+
+function isCjk(str: string): boolean {
+  return CJK_CHAR.test(str);
+}
+
+// Splits on anything that is not a letter, mark or digit in any script. CJK text has no
+// word separators, so CJK runs are only split off from adjacent Latin text and otherwise
+// kept whole; synonymHit() matches inside them.
 function tokenize(str: string): string[] {
   const n = normalize(str);
   if (!n) return [];
-  return n.split(/[^a-z0-9]+/g).filter(Boolean);
+  const out: string[] = [];
+  for (const word of n.split(/[^\p{L}\p{M}\p{N}]+/u)) {
+    if (!word) continue;
+    if (!isCjk(word)) {
+      out.push(word);
+      continue;
+    }
+    out.push(...(word.match(CJK_SEGMENT) || []));
+  }
+  return out;
+}
+
+function synonymHit(synonym: string, tokens: string[]): boolean {
+  const parts = tokenize(synonym);
+  if (parts.length === 0) return false;
+  if (parts.length === 1) {
+    const [s] = parts;
+    if (!isCjk(s)) return tokens.includes(s);
+    // single characters (姓, 名) must stand alone; longer CJK terms may sit inside a run
+    return tokens.some((t) => (Array.from(s).length === 1 ? t === s : t.includes(s)));
+  }
+  // multi-word synonyms ("code postal") match as a contiguous token sequence
+  for (let i = 0; i + parts.length <= tokens.length; i++) {
+    if (parts.every((p, j) => tokens[i + j] === p)) return true;
+  }
+  return false;
+}
+
+function localeSynonymsFor(
+  key: OntologyKey,
+  locales: SynonymLocale[],
+  multilingual: MatcherConfig['multilingualSynonyms']
+): string[] {
+  const entry = multilingual?.[key.key];
+  if (!entry || locales.length === 0) return [];
+  return locales.flatMap((locale) => entry[locale] || []);
 }
 
 function bigrams(str: string): string[] {
@@ -139,16 +204,26 @@ function pickTier(score: number, config: MatcherConfig): 'accept' | 'consider' |
   return 'reject';
 }
 
-function aliasMatchScore(key: OntologyKey, texts: string[]): { score: number; matched: string[] } {
+// Required / optional markers and trailing punctuation that decorate a label without naming the
+// field: "Email *", "PLZ:", "郵便番号（必須）", "Telefon (optional)"
+const FIELD_MARKER_RE =
+  /\s*[(（[【]\s*(?:required|optional|pflichtfeld|erforderlich|obligatoire|facultatif|obligatorio|opcional|必須|任意)\s*[)）\]】]\s*|[\s*:：＊]+$/giu;
+
+function stripFieldMarkers(text: string): string {
+  return text.replace(FIELD_MARKER_RE, ' ').trim();
+}
+
+function aliasMatchScore(key: OntologyKey, texts: string[], localeSynonyms: string[] = []): { score: number; matched: string[] } {
   const aliases = new Set<string>([
     key.key,
     ...(key.label ? [key.label] : []),
-    ...(key.aliases || [])
+    ...(key.aliases || []),
+    ...localeSynonyms
   ].map((s) => normalize(s)));
   const matched: string[] = [];
   let best = 0;
   for (const t of texts) {
-    const n = normalize(t);
+    const n = normalize(stripFieldMarkers(t));
     if (!n) continue;
     if (aliases.has(n)) {
       matched.push(t);
@@ -168,21 +243,25 @@ function aliasMatchScore(key: OntologyKey, texts: string[]): { score: number; ma
   return { score: best, matched };
 }
 
-function schemaHintScore(key: OntologyKey, texts: string[], synonyms: Record<string, string[]> | undefined): { score: number; matched: string[] } {
-  const syns = new Set<string>([
+function schemaHintScore(
+  key: OntologyKey,
+  texts: string[],
+  synonyms: Record<string, string[]> | undefined,
+  localeSynonyms: string[] = []
+): { score: number; matched: string[] } {
+  const syns = Array.from(new Set<string>([
     key.key,
     ...(key.aliases || []),
-    ...((synonyms?.[key.key] as string[] | undefined) || [])
-  ].map((s) => normalize(s)));
+    ...((synonyms?.[key.key] as string[] | undefined) || []),
+    ...localeSynonyms
+  ].map((s) => normalize(s))));
   const matched: string[] = [];
   let best = 0;
   for (const t of texts) {
     const tokens = tokenize(t);
-    for (const token of tokens) {
-      if (syns.has(token)) {
-        matched.push(t);
-        best = Math.max(best, 1);
-      }
+    if (syns.some((syn) => synonymHit(syn, tokens))) {
+      matched.push(t);
+      best = Math.max(best, 1);
     }
   }
   return { score: Math.min(best, 1), matched };
@@ -223,6 +302,38 @@ function preferenceMatchScore(
   return { score: best, evidence, hasPreference };
 }
 
+function isFileInput(candidate: Candidate): boolean {
+  return (candidate.type || candidate.attributes?.type || '').toLowerCase() === 'file';
+}
+
+// File inputs only take file keys, and file keys only file inputs. Rejected whatever the score,
+// here and when a rerank re-tiers the results (semantic.ts).
+export function fileMismatch(key: OntologyKey, candidate: Candidate): boolean {
+  return isFileInput(candidate) !== (key.type === 'file');
+}
+
+// Radio group options that spell a choice of an enumerated key ("Male / Female / Other",
+// "Email / Phone"), and how many different choices they name
+function optionChoiceCoverage(key: OntologyKey, candidate: Candidate): { matched: number; total: number; choices: number } {
+  const options = candidate.options ?? [];
+  if (!isChoiceKey(key.key) || options.length < 2) return { matched: 0, total: options.length, choices: 0 };
+  const choices = new Set<string>();
+  let matched = 0;
+  for (const opt of options) {
+    const canonical = canonicalChoice(key.key, opt.label) ?? canonicalChoice(key.key, opt.value);
+    if (!canonical) continue;
+    matched += 1;
+    choices.add(canonical);
+  }
+  return { matched, total: options.length, choices: choices.size };
+}
+
+function isDatePartField(candidate: Candidate): boolean {
+  const attrs = candidate.attributes || {};
+  const texts = [attrs.name, attrs.id, candidate.accessibleName?.value].filter((t): t is string => !!t);
+  return detectDatePart({ autocomplete: attrs.autocomplete, texts }) !== null;
+}
+
 function typeConstraintScore(key: OntologyKey, candidate: Candidate): { score: number; evidence: Record<string, unknown> } {
   const typeStr = candidate.type || candidate.attributes?.type || null;
   const role = candidate.role || candidate.attributes?.role || null;
@@ -237,13 +348,18 @@ function typeConstraintScore(key: OntologyKey, candidate: Candidate): { score: n
   const typeMatches: Record<string, string[]> = {
     email: ['email'],
     phone: ['tel', 'phone'],
-    date: ['date'],
-    number: ['number']
+    date: ['date', 'datetime-local'],
+    number: ['number'],
+    file: ['file']
   };
 
   const expected = typeMatches[keyType];
   if (expected && expected.includes(inputType)) {
     score = 1;
+  } else if (keyType === 'date' && isDatePartField(candidate)) {
+    // day / month / year select or input of a split date
+    score = 1;
+    evidence.datePart = true;
   } else if (keyType === 'text') {
     score = 0.2; // text fields are permissive
   } else if (inputType === 'text' || inputType === '') {
@@ -304,12 +420,19 @@ function regexConstraintScore(key: OntologyKey, candidate: Candidate): { score:
   return { score, evidence: { matchedSources, pattern } };
 }
 
+// Field names that only loosely map to a key (a username is not necessarily the full name)
+const LOOSE_AUTOCOMPLETE_FIELDS = new Set(['nickname', 'username']);
+
 function autocompleteScore(key: OntologyKey, candidate: Candidate, autocompleteMap: Record<string, string> | undefined) {
-  const ac = (candidate.attributes?.autocomplete || '').toLowerCase().trim();
-  if (!ac) return { score: 0, evidence: {} };
+  const parsed = parseAutocomplete(candidate.attributes?.autocomplete);
+  const ac = parsed?.field;
+  if (!ac) return { score: 0, evidence: {}, decisive: false };
   const mapped = autocompleteMap?.[ac] || ac;
   const hit = normalize(mapped) === normalize(key.key) || (key.aliases || []).map(normalize).includes(normalize(mapped));
-  return { score: hit ? 1 : 0, evidence: { autocomplete: ac, mapped } };
+  const scope = { section: parsed.section, addressType: parsed.addressType, contactType: parsed.contactType };
+  // a well-formed field name the page put there for this very key
+  const decisive = hit && parsed.valid && !LOOSE_AUTOCOMPLETE_FIELDS.has(ac);
+  return { score: hit ? 1 : 0, evidence: { autocomplete: parsed.raw, field: ac, mapped, ...scope }, decisive };
 }
 
 function fuzzyScore(key: OntologyKey, texts: string[]): { score: number; evidence: Record<string, unknown>; highlights: Highlight[] } {
@@ -354,22 +477,32 @@ export function rankCandidatesForKey(
   const results: MatchResult[] = [];
   for (const cand of candidates) {
     const { bucket } = collectFieldTexts(cand);
+    const locales = resolveFieldLocales(
+      truthyStrings([bucket.label, bucket.placeholder, bucket['aria-label'], bucket.title]),
+      cand.lang,
+      config.locale
+    );
+    const localeSynonyms = localeSynonymsFor(key, locales, config.multilingualSynonyms);
 
     const contr: HeuristicContribution[] = [];
+    let floor: ScoreFloor | undefined;
 
     // 1) deterministic: autocomplete
     {
       const r = autocompleteScore(key, cand, config.autocompleteMap);
       const weightedScore = r.score * config.weights.deterministicAutocomplete;
       contr.push({ id: 'autocomplete', score: r.score, weight: config.weights.deterministicAutocomplete, weightedScore, evidence: r.evidence });
+      if (r.decisive) floor = higherFloor(floor, { score: config.thresholds.accept, reason: 'autocomplete' });
     }
 
     // 2) deterministic: alias/id/name exact match
     {
       const texts = truthyStrings([bucket.id, bucket.name, bucket.class, bucket.label, bucket.placeholder, bucket['aria-label'], bucket.title]);
-      const r = aliasMatchScore(key, texts);
+      const r = aliasMatchScore(key, texts, localeSynonyms);
       const weightedScore = r.score * config.weights.deterministicAlias;
-      contr.push({ id: 'alias', score: r.score, weight: config.weights.deterministicAlias, weightedScore, evidence: { matched: r.matched } });
+      contr.push({ id: 'alias', score: r.score, weight: config.weights.deterministicAlias, weightedScore, evidence: { matched: r.matched, locales } });
+      // the whole label (or id / name) is the key's name, in English or the field's language
+      if (r.score > 0) floor = higherFloor(floor, { score: config.thresholds.consider, reason: 'alias' });
     }
 
     // 3) learned mapping preferences
@@ -398,9 +531,25 @@ export function rankCandidatesForKey(
     // 6) schema hints (synonyms/token overlap)
     {
       const texts = truthyStrings([bucket.id, bucket.name, bucket.class, bucket.label, bucket.placeholder, bucket['aria-label'], bucket.title]);
-      const r = schemaHintScore(key, texts, config.synonyms);
+      const r = schemaHintScore(key, texts, config.synonyms, localeSynonyms);
       const weightedScore = r.score * config.weights.schemaHint;
-      contr.push({ id: 'schema', score: r.score, weight: config.weights.schemaHint, weightedScore, evidence: { matched: r.matched } });
+      contr.push({ id: 'schema', score: r.score, weight: config.weights.schemaHint, weightedScore, evidence: { matched: r.matched, locales } });
+      // only file keys can take a file input: the control itself is the evidence, its wording
+      // ("Resume/CV", "Upload attachment") settles it
+      if (key.type === 'file' && isFileInput(cand)) {
+        const score = r.score > 0 ? config.thresholds.accept : config.thresholds.consider;
+        floor = higherFloor(floor, { score, reason: 'file' });
+      }
+    }
+
+    // 6b) radio group options: a group whose options are the key's choices asks for the key,
+    // however its question is worded ("How should we contact you?")
+    {
+      const { matched, total, choices } = optionChoiceCoverage(key, cand);
+      if (choices >= 2 && matched * 2 >= total) {
+        const score = matched === total ? config.thresholds.accept : config.thresholds.consider;
+        floor = higherFloor(floor, { score, reason: 'options' });
+      }
     }
 
     // 7) fuzzy string similarity
@@ -412,18 +561,36 @@ export function rankCandidatesForKey(
     })();
     contr.push({ id: 'fuzzy', score: fuzzy.r.score, weight: config.weights.fuzzy, weightedScore: fuzzy.weightedScore, evidence: fuzzy.r.evidence });
 
-    // Combine
+    // 8) negative evidence: decoys (referral, confirmation, search, coupon, captcha, consent checkboxes)
+    {
+      const r = negativeEvidenceFor(cand, key);
+      if (r.score > 0) {
+        const weight = config.weights.negativeEvidence ?? 0;
+        contr.push({ id: 'negative', score: r.score, weight, weightedScore: -r.score * weight, evidence: { signals: r.signals } });
+      }
+    }
+
+    // Combine; the penalty lowers the weighted sum but does not count towards the total weight
     const totalWeighted = contr.reduce((s, c) => s + c.weightedScore, 0);
-    const totalWeight = contr.reduce((s, c) => s + c.weight, 0);
-    const totalScore = Math.max(0, Math.min(1, totalWeighted / Math.max(1e-6, totalWeight)));
+    const totalWeight = contr.reduce((s, c) => s + (c.id === 'negative' ? 0 : c.weight), 0);
+    let totalScore = Math.max(0, Math.min(1, totalWeighted / Math.max(1e-6, totalWeight)));
+
+    // Decisive evidence keeps heuristics that did not fire from averaging the match away; a decoy
+    // penalty still pulls it down by the same share
+    if (floor) {
+      const penalty = contr.reduce((s, c) => s + (c.id === 'negative' ? -c.weightedScore : 0), 0) / Math.max(1e-6, totalWeight);
+      floor = { ...floor, score: Math.max(0, floor.score - penalty) };
+      totalScore = Math.max(totalScore, floor.score);
+    }
 
     const explanation: MatchExplanation = {
       totalScore,
       contributions: contr,
-      highlights: fuzzy.r.highlights
+      highlights: fuzzy.r.highlights,
+      ...(floor ? { floor } : {})
     };
 
-    const tier = pickTier(totalScore, config);
+    const tier = fileMismatch(key, cand) ? 'reject' : pickTier(totalScore, config);
 
     results.push({ key, candidate: cand, score: totalScore, rank: 0, explanation, tier });
   }
@@ -440,9 +607,98 @@ export function rankKeysForCandidate(candidate: Candidate, keys: OntologyKey[],
   return results;
 }
 
+export interface AssignmentResult {
+  // key -> matches it owns, one per form group (more for multi-field keys), best first
+  byKey: Record<string, MatchResult[]>;
+  // candidate id -> the match that owns the field
+  byCandidate: Record<string, MatchResult>;
+  // key -> better-scoring matches the key gave up because the field went to another key
+  displaced: Record<string, MatchResult[]>;
+}
+
 export interface BatchMatchResult {
   byKey: Record<string, MatchResult[]>;
   byCandidate: Record<string, MatchResult[]>;
+  // Present when the config asks for one-to-one assignment
+  assignment?: AssignmentResult;
+  // "Email" + "Confirm email" fields; the confirmation field fills from its primary's key
+  confirmationPairs?: ConfirmationPair[];
+}
+
+// Fields compete for keys within a form group, and within one autofill section of it
+// (shipping and billing addresses in one <form> each get their own address keys)
+export function assignmentGroupOf(candidate: Candidate): string {
+  return `${candidate.formGroupId || ''}|${candidate.autofillSection || ''}`;
+}
+
+// Resolve key/field conflicts per form group by maximising the total score of the chosen
+// pairs. Rejected pairs never take part.
+export function assignMatches(byKey: Record<string, MatchResult[]>, cfg?: Partial<MatcherConfig>): AssignmentResult {
+  const multiFieldKeys = new Set(cfg?.multiFieldKeys ?? DEFAULT_MATCHER_CONFIG.multiFieldKeys ?? []);
+  const groups = new Map<string, MatchResult[]>();
+  for (const list of Object.values(byKey)) {
+    for (const r of list) {
+      if (r.tier === 'reject') continue;
+      const groupId = assignmentGroupOf(r.candidate);
+      const bucket = groups.get(groupId) || [];
+      bucket.push(r);
+      groups.set(groupId, bucket);
+    }
+  }
+
+  const result: AssignmentResult = { byKey: {}, byCandidate: {}, displaced: {} };
+  const assign = (r: MatchResult) => {
+    result.byCandidate[r.candidate.id] = r;
+    (result.byKey[r.key.key] ||= []).push(r);
+  };
+
+  for (const matches of groups.values()) {
+    const keyIds = Array.from(new Set(matches.map((r) => r.key.key)));
+    const candIds = Array.from(new Set(matches.map((r) => r.candidate.id)));
+    const keyIndex = new Map(keyIds.map((k, i) => [k, i]));
+    const candIndex = new Map(candIds.map((c, i) => [c, i]));
+    const gains = keyIds.map(() => new Array<number>(candIds.length).fill(0));
+    const pairs = new Map<string, MatchResult>();
+    for (const r of matches) {
+      gains[keyIndex.get(r.key.key)!][candIndex.get(r.candidate.id)!] = r.score;
+      pairs.set(`${r.key.key}\u0000${r.candidate.id}`, r);
+    }
+
+    const solution = solveAssignment(gains);
+    const owned = new Map<string, number>(); // key -> best owned score in this group
+    solution.forEach((col, row) => {
+      if (col < 0) return;
+      const match = pairs.get(`${keyIds[row]}\u0000${candIds[col]}`);
+      if (!match) return;
+      assign(match);
+      owned.set(match.key.key, match.score);
+    });
+
+    // Multi-field keys also take leftover fields they are the strongest match for
+    if (multiFieldKeys.size > 0) {
+      const bestByCandidate = new Map<string, MatchResult>();
+      for (const r of matches) {
+        const prev = bestByCandidate.get(r.candidate.id);
+        if (!prev || r.score > prev.score) bestByCandidate.set(r.candidate.id, r);
+      }
+      for (const [candId, best] of bestByCandidate) {
+        if (result.byCandidate[candId] || !multiFieldKeys.has(best.key.key)) continue;
+        assign(best);
+      }
+    }
+
+    for (const r of matches) {
+      const holder = result.byCandidate[r.candidate.id];
+      if (!holder || holder.key.key === r.key.key) continue;
+      if (r.score <= (owned.get(r.key.key) ?? 0)) continue;
+      (result.displaced[r.key.key] ||= []).push(r);
+    }
+  }
+
+  for (const list of [...Object.values(result.byKey), ...Object.values(result.displaced)]) {
+    list.sort((a, b) => b.score - a.score);
+  }
+  return result;
 }
 
 export function computeBatchMatches(keys: OntologyKey[], candidates: Candidate[], cfg?: Partial<MatcherConfig>): BatchMatchResult {
@@ -463,5 +719,50 @@ export function computeBatchMatches(keys: OntologyKey[], candidates: Candidate[]
     byCandidate[id].forEach((r, i) => (r.rank = i + 1));
   }
 
-  return { byKey, byCandidate };
+  const confirmationPairs = detectConfirmationPairs(candidates);
+  const mode = cfg?.assignment ?? DEFAULT_MATCHER_CONFIG.assignment;
+  if (mode === 'one-to-one') {
+    return { byKey, byCandidate, assignment: assignMatches(byKey, cfg), confirmationPairs };
+  }
+  return { byKey, byCandidate, confirmationPairs };
+}
+
+// Match a key should fill: its assigned field when assignment ran, otherwise its top ranking
+export function bestMatchForKey(batch: BatchMatchResult | null | undefined, key: string): MatchResult | undefined {
+  if (!batch) return undefined;
+  if (batch.assignment) return batch.assignment.byKey[key]?.[0];
+  return batch.byKey[key]?.[0];
+}
+
+function baseMatchesToFill(batch: BatchMatchResult): MatchResult[] {
+  if (batch.assignment) return Object.values(batch.assignment.byKey).flat();
+  return Object.values(batch.byKey)
+    .map((list) => list[0])
+    .filter((m): m is MatchResult => Boolean(m));
+}
+
+// The primary field's match, moved onto its confirmation field
+function mirrorMatch(primary: MatchResult, confirm: Candidate): MatchResult {
+  return { ...primary, candidate: confirm, rank: 1 };
+}
+
+// Every (key, field) pair a bulk fill should write. A confirmation field follows its primary:
+// it fills from the primary's key, whatever it was assigned on its own.
+export function matchesToFill(batch: BatchMatchResult | null | undefined): MatchResult[] {
+  if (!batch) return [];
+  const base = baseMatchesToFill(batch);
+  const pairs = batch.confirmationPairs || [];
+  if (pairs.length === 0) return base;
+  const confirmIds = new Set(pairs.map((p) => p.confirmId));
+  const out: MatchResult[] = [];
+  for (const m of base) {
+    if (confirmIds.has(m.candidate.id)) continue;
+    out.push(m);
+    for (const pair of pairs) {
+      if (pair.primaryId !== m.candidate.id) continue;
+      const confirm = batch.byCandidate[pair.confirmId]?.[0]?.candidate;
+      if (confirm) out.push(mirrorMatch(m, confirm));
+    }
+  }
+  return out;
 }
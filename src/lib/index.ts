@@ -2,3 +2,9 @@ export * from './universal';
 export * from './normalize';
 export * from './synonyms';
 export * from './profiles';
+export * from './ontologyRegistry';
+export * from './locale';
+export * from './composite';
+export * from './autocomplete';
+export * from './regionCodes';
+export * from './selectOptions';
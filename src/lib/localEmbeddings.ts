@@ -0,0 +1,139 @@
+// On-device text embeddings for the semantic matcher: hashed character n-grams plus one
+// dimension per ontology concept, fed by the bundled synonym tables. No network access.
+
+import { UNIVERSAL_SYNONYMS } from './synonyms';
+import { ONTOLOGY_REGISTRY, ONTOLOGY_SYNONYMS } from './ontologyRegistry';
+import type { SemanticProvider } from './semantic';
+
+export interface LocalEmbeddingOptions {
+  ngramDims?: number; // default 512
+  ngramSize?: number; // default 3
+  conceptWeight?: number; // share of the vector given to concept hits [0..1], default 0.65
+}
+
+interface ConceptTable {
+  concepts: string[];
+  // normalized term -> concept index
+  terms: Map<string, number>;
+}
+
+const CJK = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
+function normalizeText(text: string): string {
+  return (text || '')
+    .normalize('NFKD')
+    .replace(/\p{M}+/gu, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+let conceptTable: ConceptTable | null = null;
+
+// Synonym embedding table: every canonical path is a concept, its labels, aliases and
+// multilingual synonyms are the terms pointing at it
+function concepts(): ConceptTable {
+  if (conceptTable) return conceptTable;
+  const termsByConcept = new Map<string, Set<string>>();
+  const add = (path: string, terms: Iterable<string>) => {
+    const set = termsByConcept.get(path) ?? new Set<string>();
+    for (const term of terms) {
+      const t = normalizeText(term);
+      if (t) set.add(t);
+    }
+    termsByConcept.set(path, set);
+  };
+  for (const entry of ONTOLOGY_REGISTRY) {
+    if (entry.scopeOf) continue;
+    add(entry.path, [entry.label, ...(entry.aliases || [])]);
+  }
+  for (const [path, terms] of Object.entries(ONTOLOGY_SYNONYMS)) add(path, terms);
+  for (const [path, terms] of Object.entries(UNIVERSAL_SYNONYMS.aliases)) add(path, terms);
+  for (const [path, byLocale] of Object.entries(UNIVERSAL_SYNONYMS.multilingual)) {
+    add(path, Object.values(byLocale).flat() as string[]);
+  }
+
+  const list = Array.from(termsByConcept.keys()).sort();
+  const terms = new Map<string, number>();
+  list.forEach((path, index) => {
+    for (const term of termsByConcept.get(path)!) {
+      // First concept wins for terms shared by several paths
+      if (!terms.has(term)) terms.set(term, index);
+    }
+  });
+  conceptTable = { concepts: list, terms };
+  return conceptTable;
+}
+
+function containsTerm(text: string, term: string): boolean {
+  if (CJK.test(term)) return text.includes(term);
+  return ` ${text} `.includes(` ${term} `);
+}
+
+// Concepts named by the text. Terms inside a longer matched term ("name" in "first name")
+// are dropped so the more specific concept wins.
+function conceptHits(text: string, table: ConceptTable): number[] {
+  const matched: string[] = [];
+  for (const term of table.terms.keys()) {
+    if (containsTerm(text, term)) matched.push(term);
+  }
+  const specific = matched.filter((term) => !matched.some((other) => other !== term && other.includes(term)));
+  return Array.from(new Set(specific.map((term) => table.terms.get(term)!)));
+}
+
+// FNV-1a
+function hash(str: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < str.length; i++) {
+    h ^= str.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function ngramVector(text: string, dims: number, n: number): number[] {
+  const v = new Array<number>(dims).fill(0);
+  for (const word of text.split(' ').filter(Boolean)) {
+    const padded = `#${word}#`;
+    const grams = padded.length <= n ? [padded] : [];
+    for (let i = 0; i + n <= padded.length; i++) grams.push(padded.slice(i, i + n));
+    grams.push(`w:${word}`);
+    for (const gram of grams) {
+      const h = hash(gram);
+      v[h % dims] += h & 0x80000000 ? -1 : 1;
+    }
+  }
+  return v;
+}
+
+function scaleToNorm(v: number[], norm: number): number[] {
+  const len = Math.sqrt(v.reduce((s, x) => s + x * x, 0));
+  if (len === 0) return v;
+  return v.map((x) => (x / len) * norm);
+}
+
+export function embedLocally(text: string, opts: LocalEmbeddingOptions = {}): number[] {
+  const dims = opts.ngramDims ?? 512;
+  const n = opts.ngramSize ?? 3;
+  const weight = Math.min(1, Math.max(0, opts.conceptWeight ?? 0.65));
+  const table = concepts();
+  const normalized = normalizeText(text);
+
+  const conceptPart = new Array<number>(table.concepts.length).fill(0);
+  const hits = conceptHits(normalized, table);
+  for (const index of hits) conceptPart[index] = 1;
+
+  // Without concept hits the n-grams carry the whole vector
+  const ngramNorm = hits.length ? Math.sqrt(1 - weight) : 1;
+  const conceptNorm = hits.length ? Math.sqrt(weight) : 0;
+  return [...scaleToNorm(ngramVector(normalized, dims, n), ngramNorm), ...scaleToNorm(conceptPart, conceptNorm)];
+}
+
+export function createLocalProvider(opts: LocalEmbeddingOptions = {}): SemanticProvider {
+  return {
+    id: `local:${opts.ngramDims ?? 512}:${opts.ngramSize ?? 3}:${opts.conceptWeight ?? 0.65}`,
+    async embed(texts: string[]): Promise<number[][]> {
+      return texts.map((text) => embedLocally(text, opts));
+    }
+  };
+}
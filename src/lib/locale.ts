@@ -0,0 +1,67 @@
+// Locale detection for field matching: maps BCP 47 tags and label scripts onto the
+// locales covered by MultilingualSynonyms.
+
+import type { MultilingualSynonyms } from './synonyms';
+
+export type SynonymLocale = keyof MultilingualSynonyms;
+
+export const SUPPORTED_LOCALES: readonly SynonymLocale[] = [
+  'en', 'es', 'fr', 'de', 'it', 'pt', 'nl', 'sv', 'no', 'da', 'fi', 'pl', 'cs', 'sk',
+  'ru', 'uk', 'tr', 'ar', 'he', 'zh', 'ja', 'ko', 'hi', 'id', 'ms', 'vi', 'th'
+];
+const SUPPORTED_LOCALE_SET: ReadonlySet<string> = new Set<string>(SUPPORTED_LOCALES);
+
+// Deprecated or macro-language subtags that share synonyms with a supported locale
+const LOCALE_ALIASES: Record<string, SynonymLocale> = {
+  nb: 'no',
+  nn: 'no',
+  iw: 'he',
+  in: 'id',
+  zsm: 'ms',
+  cmn: 'zh',
+  yue: 'zh'
+};
+
+export function normalizeLocale(tag: string | null | undefined): SynonymLocale | null {
+  if (!tag) return null;
+  const primary = tag.trim().toLowerCase().split(/[-_]/)[0];
+  if (!primary) return null;
+  if (SUPPORTED_LOCALE_SET.has(primary)) return primary as SynonymLocale;
+  return LOCALE_ALIASES[primary] ?? null;
+}
+
+const SCRIPT_PATTERNS: Array<{ re: RegExp; locales: SynonymLocale[] }> = [
+  { re: /[\p{Script=Hiragana}\p{Script=Katakana}]/u, locales: ['ja'] },
+  { re: /\p{Script=Hangul}/u, locales: ['ko'] },
+  { re: /\p{Script=Han}/u, locales: ['zh', 'ja'] },
+  { re: /\p{Script=Arabic}/u, locales: ['ar'] },
+  { re: /\p{Script=Hebrew}/u, locales: ['he'] },
+  { re: /\p{Script=Cyrillic}/u, locales: ['ru', 'uk'] },
+  { re: /\p{Script=Thai}/u, locales: ['th'] },
+  { re: /\p{Script=Devanagari}/u, locales: ['hi'] }
+];
+
+// Locales implied by the script of the given texts. Scripts shared by several locales
+// (Han, Cyrillic) are narrowed with the declared language when it agrees.
+export function detectScriptLocales(texts: string[], declared?: SynonymLocale | null): SynonymLocale[] {
+  const joined = texts.join(' ');
+  for (const { re, locales } of SCRIPT_PATTERNS) {
+    if (!re.test(joined)) continue;
+    if (declared && locales.includes(declared)) return [declared];
+    return [...locales];
+  }
+  return [];
+}
+
+// Locales whose synonyms should be considered for a field. Label script wins over the
+// declared lang (pages often forget to set it), but the declared lang is kept as well.
+export function resolveFieldLocales(
+  texts: string[],
+  lang?: string | null,
+  fallback?: string | null
+): SynonymLocale[] {
+  const declared = normalizeLocale(lang) ?? normalizeLocale(fallback);
+  const out = new Set<SynonymLocale>(detectScriptLocales(texts, declared));
+  if (declared) out.add(declared);
+  return Array.from(out);
+}
@@ -0,0 +1,186 @@
+// Negative evidence: signs that a field looks like a known key but is a decoy. "Referrer's
+// email", "Confirm email", site search boxes, coupon codes and captcha answers all carry the
+// right words or input type, so the matcher subtracts these penalties from their score.
+// Consent checkboxes (terms, privacy, newsletter) are never a template key's to tick.
+
+import type { Candidate } from '../content/domScanner';
+import { classifyConsent } from './consent';
+import type { OntologyKey } from './ontology';
+
+export type NegativeSignalKind = 'third-party' | 'confirmation' | 'search' | 'coupon' | 'captcha' | 'consent';
+
+export interface NegativeSignal {
+  kind: NegativeSignalKind;
+  strength: number; // 0..1
+  // attribute or source that triggered the signal ('label', 'name', 'type', 'role', 'container'...)
+  source: string;
+  matched: string;
+}
+
+export interface NegativeEvidence {
+  score: number; // strongest signal, 0 when there is none
+  signals: NegativeSignal[];
+}
+
+interface SignalVocabulary {
+  kind: NegativeSignalKind;
+  strength: number;
+  terms: string[];
+}
+
+const CONFIRMATION_TERMS = [
+  'confirm', 'confirmation', 're enter', 'reenter', 'repeat', 'retype', 're type', 'verify', 'again',
+  'bestatigen', 'bestatigung', 'wiederholen', 'confirmer', 'confirmar', 'repetir', '確認', '再入力'
+];
+
+// Terms are matched on whole tokens of normalized text (CJK terms as substrings)
+const VOCABULARY: SignalVocabulary[] = [
+  {
+    // the field is about somebody else. A bare "recipient" is not: shipping forms label the
+    // shopper's own name and address for the recipient, so only gift and e-mail wording counts
+    kind: 'third-party',
+    strength: 1,
+    terms: [
+      'friend', 'friends', 'referrer', 'referral', 'referee', 'referred by', 'refer a friend', 'manager',
+      'supervisor', 'colleague', 'coworker', 'gift recipient', 'recipient email', 'recipient s email',
+      'recipients email', 'emergency contact', 'spouse', 'freund', 'freundin', 'geschenkempfanger',
+      'werber', 'ami', 'amie', 'parrain', 'destinataire du cadeau', 'amigo', 'destinatario del regalo',
+      '紹介者', '友人', '推荐人'
+    ]
+  },
+  {
+    // second copy of a field; the primary one should win the key
+    kind: 'confirmation',
+    strength: 0.5,
+    terms: CONFIRMATION_TERMS
+  },
+  {
+    kind: 'search',
+    strength: 0.6,
+    terms: ['search', 'suche', 'suchen', 'recherche', 'rechercher', 'buscar', 'busqueda', '検索']
+  },
+  {
+    kind: 'coupon',
+    strength: 1,
+    terms: [
+      'coupon', 'promo', 'promo code', 'promotional code', 'promotion code', 'voucher', 'discount code',
+      'gift card', 'giftcard', 'redeem', 'gutschein', 'rabattcode', 'code promo', 'bon de reduction',
+      'cupon', 'codigo promocional', 'クーポン'
+    ]
+  },
+  {
+    kind: 'captcha',
+    strength: 1,
+    terms: ['captcha', 'recaptcha', 'hcaptcha', 'turnstile', 'enter the characters', 'characters shown', 'security check']
+  }
+];
+
+// Query parameter names site search boxes use
+const SEARCH_NAMES = new Set(['q', 'query', 'search', 'keyword', 'keywords', 'searchterm', 'search_query']);
+
+const CJK = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
+export function normalizeSignalText(text: string): string {
+  return (text || '')
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .normalize('NFKD')
+    .replace(/\p{M}+/gu, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+function findTerm(text: string, terms: string[]): string | null {
+  if (!text) return null;
+  const padded = ` ${text} `;
+  for (const term of terms) {
+    if (CJK.test(term) ? text.includes(term) : padded.includes(` ${term} `)) return term;
+  }
+  return null;
+}
+
+function fieldTexts(c: Candidate): Array<[string, string]> {
+  const attrs = c.attributes || {};
+  const sources: Array<[string, string | null | undefined]> = [
+    ['label', c.accessibleName?.value],
+    ['placeholder', attrs.placeholder],
+    ['aria-label', attrs['aria-label']],
+    ['title', attrs.title],
+    ['name', attrs.name],
+    ['id', attrs.id],
+    ['class', (c.classes || []).join(' ')]
+  ];
+  return sources.filter((s): s is [string, string] => !!s[1]).map(([source, text]) => [source, normalizeSignalText(text)]);
+}
+
+// Vocabulary the key itself uses ("Referral code" is not a decoy for a referral key)
+function keyText(key: OntologyKey): string {
+  return normalizeSignalText([key.key.replace(/\./g, ' '), key.label || '', ...(key.aliases || [])].join(' | '));
+}
+
+export function negativeEvidenceFor(candidate: Candidate, key?: OntologyKey): NegativeEvidence {
+  const signals: NegativeSignal[] = [];
+  const own = key ? keyText(key) : '';
+  const texts = fieldTexts(candidate);
+
+  for (const vocab of VOCABULARY) {
+    if (own && findTerm(own, vocab.terms)) continue;
+    for (const [source, text] of texts) {
+      const matched = findTerm(text, vocab.terms);
+      if (matched) {
+        signals.push({ kind: vocab.kind, strength: vocab.strength, source, matched });
+        break;
+      }
+    }
+  }
+
+  const type = (candidate.type || candidate.attributes?.type || '').toLowerCase();
+  const role = (candidate.role || '').toLowerCase();
+  const name = normalizeSignalText(candidate.attributes?.name || '').replace(/ /g, '_');
+  if (type === 'search') signals.push({ kind: 'search', strength: 1, source: 'type', matched: 'search' });
+  else if (role === 'searchbox') signals.push({ kind: 'search', strength: 1, source: 'role', matched: 'searchbox' });
+  else if (SEARCH_NAMES.has(name)) signals.push({ kind: 'search', strength: 0.8, source: 'name', matched: name });
+  if (candidate.inCaptcha) signals.push({ kind: 'captcha', strength: 1, source: 'container', matched: 'captcha widget' });
+  const consent = classifyConsent(candidate);
+  if (consent) {
+    const [first] = consent.evidence;
+    signals.push({ kind: 'consent', strength: 1, source: first.source, matched: first.matched });
+  }
+
+  return { score: signals.reduce((max, s) => Math.max(max, s.strength), 0), signals };
+}
+
+// Confirmation wording ("confirm", "re-enter"...) in raw field text, if any
+export function findConfirmationWording(text: string | null | undefined): string | null {
+  return findTerm(normalizeSignalText(text || ''), CONFIRMATION_TERMS);
+}
+
+// Normalized text with the confirmation wording removed ("Confirm email" -> "email")
+export function stripConfirmationWording(text: string | null | undefined): string {
+  let out = normalizeSignalText(text || '');
+  for (const term of CONFIRMATION_TERMS) {
+    out = CJK.test(term) ? out.split(term).join(' ') : ` ${out} `.split(` ${term} `).join(' ');
+  }
+  return out.replace(/\s+/g, ' ').trim();
+}
+
+const KIND_LABELS: Record<NegativeSignalKind, string> = {
+  'third-party': 'about someone else',
+  confirmation: 'confirmation copy',
+  search: 'search box',
+  coupon: 'coupon or promo code',
+  captcha: 'captcha',
+  consent: 'consent checkbox'
+};
+
+// Short reasons for the UI ("search box (type: search)"), one per kind
+export function describeNegativeSignals(signals: NegativeSignal[] | null | undefined): string[] {
+  const seen = new Set<NegativeSignalKind>();
+  const out: string[] = [];
+  for (const s of signals || []) {
+    if (seen.has(s.kind)) continue;
+    seen.add(s.kind);
+    out.push(`${KIND_LABELS[s.kind]} (${s.source}: ${s.matched})`);
+  }
+  return out;
+}
@@ -88,7 +88,7 @@ export interface NormalizePhoneOptions {
 }
 
 // Minimal country calling codes for common countries (not exhaustive)
-const COUNTRY_CODE: Record<string, string> = {
+export const COUNTRY_CODE: Record<string, string> = {
   US: '1',
   CA: '1',
   GB: '44',
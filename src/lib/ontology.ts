@@ -1,3 +1,5 @@
+import { UNIVERSAL_SYNONYMS, type MultilingualSynonyms } from './synonyms';
+
 export type OntologyKeyType =
   | 'text'
   | 'email'
@@ -15,7 +17,8 @@ export type OntologyKeyType =
   | 'organization'
   | 'credit-card-number'
   | 'date'
-  | 'number';
+  | 'number'
+  | 'file';
 
 export interface OntologyKey {
   // Canonical identifier for the field in the ontology (e.g., 'email', 'phone', 'address-line1')
@@ -49,6 +52,8 @@ export interface MatcherWeights {
   preference?: number; // default 1.1 when learning is available
   // Optional semantic matching weight; only used when semantic matching is enabled
   semantic?: number;
+  // Penalty for decoy fields (referral, search, coupon...); subtracted, not averaged. Default 1.5
+  negativeEvidence?: number;
 }
 
 export interface PreferenceRecord {
@@ -69,6 +74,16 @@ export interface MatcherConfig {
   synonyms?: Record<string, string[]>;
   // Learned mapping preferences keyed by normalized label
   preferences?: PreferenceMap;
+  // Map of ontology key -> per-locale synonyms, used by alias and schemaHint heuristics
+  multilingualSynonyms?: Record<string, MultilingualSynonyms>;
+  // Fallback page language when a candidate carries no lang of its own (BCP 47 tag)
+  locale?: string;
+  // 'one-to-one' resolves conflicts so each field gets at most one key per form group;
+  // 'independent' ranks every key on its own (a field may be the top match for several keys)
+  assignment?: 'one-to-one' | 'independent';
+  // Keys that may claim several fields in the same form group (e.g. a full name repeated
+  // as "Cardholder name"); they still never share a field with another key
+  multiFieldKeys?: string[];
 }
 
 export const DEFAULT_AUTOCOMPLETE_MAP: Record<string, string> = {
@@ -82,12 +97,20 @@ export const DEFAULT_AUTOCOMPLETE_MAP: Record<string, string> = {
   'organization-title': 'job-title',
   organization: 'organization',
   company: 'company',
+  bday: 'bday',
+  'bday-day': 'bday',
+  'bday-month': 'bday',
+  'bday-year': 'bday',
   // Contact
   email: 'email',
   tel: 'phone',
   'tel-national': 'phone',
   'tel-country-code': 'phone',
   'tel-area-code': 'phone',
+  'tel-local': 'phone',
+  'tel-local-prefix': 'phone',
+  'tel-local-suffix': 'phone',
+  'tel-extension': 'phone',
   // Address
   'street-address': 'address-line1',
   'address-line1': 'address-line1',
@@ -97,6 +120,8 @@ export const DEFAULT_AUTOCOMPLETE_MAP: Record<string, string> = {
   'postal-code': 'postal-code',
   country: 'country',
   'country-name': 'country',
+  // Web
+  url: 'url',
   // Payment
   'cc-number': 'credit-card-number'
 };
@@ -133,7 +158,8 @@ export const DEFAULT_WEIGHTS: MatcherWeights = {
   regexConstraint: 0.5,
   schemaHint: 0.3,
   fuzzy: 0.7,
-  preference: 1.1
+  preference: 1.1,
+  negativeEvidence: 1.5
 };
 
 export const DEFAULT_MATCHER_CONFIG: MatcherConfig = {
@@ -141,5 +167,8 @@ export const DEFAULT_MATCHER_CONFIG: MatcherConfig = {
   weights: DEFAULT_WEIGHTS,
   autocompleteMap: DEFAULT_AUTOCOMPLETE_MAP,
   synonyms: DEFAULT_SYNONYMS,
-  preferences: {}
+  multilingualSynonyms: UNIVERSAL_SYNONYMS.multilingual,
+  preferences: {},
+  assignment: 'one-to-one',
+  multiFieldKeys: []
 };
@@ -0,0 +1,367 @@
+// Single registry tying together the three key vocabularies used across the extension:
+// the matcher's OntologyKey ids, the template store's information field keys and the
+// UniversalData canonical paths. Canonical paths are the source of truth; legacy keys
+// resolve to them so older templates and learned preferences keep working.
+
+import type { AutocompleteAddressType, AutofillScope } from './autocomplete';
+import type { CanonicalPath } from './universal';
+import { DEFAULT_SYNONYMS, type OntologyKey, type OntologyKeyType } from './ontology';
+import { UNIVERSAL_SYNONYMS } from './synonyms';
+
+export interface OntologyEntry {
+  path: CanonicalPath;
+  label: string;
+  type: OntologyKeyType;
+  // Tokens the matcher should treat as exact hits (ids, names, mapped autocomplete values)
+  aliases?: string[];
+  // Keys previously used to store values for this path (matcher ids, information field keys)
+  legacyKeys?: string[];
+  // Extra synonyms on top of UNIVERSAL_SYNONYMS for this path
+  synonyms?: string[];
+  regexes?: RegExp[];
+  // Scoped variant of another path (billing city, work email). Scoped entries are not matched
+  // on their own: the base key matches and the field's autocomplete scope picks the value.
+  scopeOf?: CanonicalPath;
+  scope?: AutofillScope;
+}
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const BASE_ENTRIES: readonly OntologyEntry[] = [
+  // Identity
+  {
+    path: 'identity.fullName',
+    label: 'Full Name',
+    type: 'name',
+    aliases: ['name'],
+    legacyKeys: ['name', 'identity.full_name']
+  },
+  {
+    path: 'identity.firstName',
+    label: 'First Name',
+    type: 'given-name',
+    aliases: ['given-name'],
+    legacyKeys: ['given-name', 'identity.first_name']
+  },
+  {
+    path: 'identity.middleName',
+    label: 'Middle Name',
+    type: 'text',
+    aliases: ['middle-name', 'additional-name'],
+    legacyKeys: ['middle-name']
+  },
+  {
+    path: 'identity.lastName',
+    label: 'Last Name',
+    type: 'family-name',
+    aliases: ['family-name'],
+    legacyKeys: ['family-name', 'identity.last_name']
+  },
+  { path: 'identity.gender', label: 'Gender', type: 'text' },
+  {
+    path: 'identity.dateOfBirth',
+    label: 'Date of Birth',
+    type: 'date',
+    // Names of the day / month / year fields of a split date
+    aliases: ['bday', 'bday-day', 'bday-month', 'bday-year', 'dob-day', 'dob-month', 'dob-year', 'birth-day', 'birth-month', 'birth-year'],
+    synonyms: ['birthday', 'birth date', 'day of birth', 'month of birth', 'year of birth']
+  },
+  {
+    path: 'identity.bio',
+    label: 'Bio',
+    type: 'text',
+    legacyKeys: ['identity.bio']
+  },
+  // Contact
+  {
+    path: 'contact.email',
+    label: 'Email',
+    type: 'email',
+    aliases: ['email'],
+    legacyKeys: ['email'],
+    regexes: [EMAIL_RE]
+  },
+  {
+    path: 'contact.phone',
+    label: 'Phone',
+    type: 'phone',
+    aliases: ['phone', 'tel'],
+    legacyKeys: ['phone']
+  },
+  {
+    path: 'contact.preferredContactMethod',
+    label: 'Preferred Contact Method',
+    type: 'text',
+    synonyms: ['contact preference', 'preferred method of contact', 'how should we contact you', 'best way to reach you']
+  },
+  // Address
+  {
+    path: 'address.street1',
+    label: 'Address Line 1',
+    type: 'address-line1',
+    aliases: ['address-line1', 'street-address'],
+    legacyKeys: ['address-line1', 'contact.address']
+  },
+  {
+    path: 'address.street2',
+    label: 'Address Line 2',
+    type: 'address-line2',
+    aliases: ['address-line2'],
+    legacyKeys: ['address-line2']
+  },
+  {
+    path: 'address.city',
+    label: 'City',
+    type: 'city',
+    aliases: ['city'],
+    legacyKeys: ['city', 'contact.city']
+  },
+  {
+    path: 'address.region',
+    label: 'State / Region',
+    type: 'region',
+    aliases: ['region'],
+    legacyKeys: ['region', 'contact.state']
+  },
+  {
+    path: 'address.postalCode',
+    label: 'Postal Code',
+    type: 'postal-code',
+    aliases: ['postal-code'],
+    legacyKeys: ['postal-code', 'contact.postal_code']
+  },
+  {
+    path: 'address.country',
+    label: 'Country',
+    type: 'country',
+    aliases: ['country'],
+    legacyKeys: ['country']
+  },
+  // Organization
+  {
+    path: 'organization.name',
+    label: 'Organization',
+    type: 'organization',
+    aliases: ['organization', 'company'],
+    legacyKeys: ['organization', 'company', 'identity.company']
+  },
+  {
+    path: 'organization.title',
+    label: 'Job Title',
+    type: 'text',
+    aliases: ['job-title'],
+    legacyKeys: ['job-title', 'identity.job_title']
+  },
+  // Web presence
+  {
+    path: 'webPresence.websiteUrl',
+    label: 'Website',
+    type: 'text',
+    aliases: ['url'],
+    legacyKeys: ['website-url', 'web.url'],
+    synonyms: ['web address']
+  },
+  {
+    path: 'webPresence.social.linkedin',
+    label: 'LinkedIn',
+    type: 'text',
+    legacyKeys: ['social.linkedin']
+  },
+  {
+    path: 'webPresence.social.twitter',
+    label: 'Twitter',
+    type: 'text',
+    legacyKeys: ['social.twitter']
+  },
+  {
+    path: 'webPresence.social.youtube',
+    label: 'YouTube',
+    type: 'text',
+    legacyKeys: ['social.youtube']
+  },
+  {
+    path: 'webPresence.social.facebook',
+    label: 'Facebook',
+    type: 'text',
+    legacyKeys: ['social.facebook']
+  },
+  // SEO / listing
+  { path: 'seo.metaTitle', label: 'Site Title', type: 'text', legacyKeys: ['web.site_title'] },
+  {
+    path: 'seo.metaDescription',
+    label: 'Site Description',
+    type: 'text',
+    legacyKeys: ['web.description']
+  },
+  { path: 'seo.keywords', label: 'Keywords', type: 'text', legacyKeys: ['web.keywords'] },
+  {
+    path: 'seo.canonicalUrl',
+    label: 'Canonical URL',
+    type: 'text',
+    legacyKeys: ['web.canonical_url']
+  },
+  { path: 'seo.ogTitle', label: 'OG Title', type: 'text', legacyKeys: ['web.og_title'] },
+  {
+    path: 'seo.ogDescription',
+    label: 'OG Description',
+    type: 'text',
+    legacyKeys: ['web.og_description']
+  },
+  {
+    path: 'businessListing.category',
+    label: 'Category',
+    type: 'text',
+    legacyKeys: ['web.category']
+  },
+  {
+    path: 'businessListing.tagline',
+    label: 'Tagline',
+    type: 'text',
+    legacyKeys: ['web.tagline']
+  },
+  // Message
+  { path: 'message.subject', label: 'Subject', type: 'text' },
+  {
+    path: 'message.body',
+    label: 'Message',
+    type: 'text',
+    synonyms: ['inquiry', 'question']
+  },
+  {
+    // Values name stored attachments by filename or id; only file inputs take this key
+    path: 'message.attachments',
+    label: 'Attachments',
+    type: 'file',
+    synonyms: ['attachment', 'attach', 'upload', 'cv', 'resume', 'curriculum vitae', 'cover letter', 'document', 'lebenslauf', 'anhang']
+  }
+];
+
+const ADDRESS_FIELDS = ['street1', 'street2', 'city', 'region', 'postalCode', 'country'] as const;
+
+function addressScopeEntries(scope: AutocompleteAddressType, labelPrefix: string): OntologyEntry[] {
+  return ADDRESS_FIELDS.map((field) => {
+    const base = BASE_ENTRIES.find((entry) => entry.path === `address.${field}`)!;
+    return {
+      path: `${scope}Address.${field}` as CanonicalPath,
+      label: `${labelPrefix} ${base.label}`,
+      type: base.type,
+      scopeOf: base.path,
+      scope
+    };
+  });
+}
+
+const SCOPED_ENTRIES: readonly OntologyEntry[] = [
+  ...addressScopeEntries('shipping', 'Shipping'),
+  ...addressScopeEntries('billing', 'Billing'),
+  {
+    path: 'organization.email',
+    label: 'Work Email',
+    type: 'email',
+    regexes: [EMAIL_RE],
+    scopeOf: 'contact.email',
+    scope: 'work'
+  },
+  { path: 'organization.phone', label: 'Work Phone', type: 'phone', scopeOf: 'contact.phone', scope: 'work' },
+  { path: 'contact.fax', label: 'Fax', type: 'phone', scopeOf: 'contact.phone', scope: 'fax' }
+];
+
+export const ONTOLOGY_REGISTRY: readonly OntologyEntry[] = [...BASE_ENTRIES, ...SCOPED_ENTRIES];
+
+const entriesByPath = new Map<string, OntologyEntry>();
+const pathIndex = new Map<string, CanonicalPath>();
+
+for (const entry of ONTOLOGY_REGISTRY) {
+  entriesByPath.set(entry.path, entry);
+  pathIndex.set(entry.path.toLowerCase(), entry.path);
+}
+// Legacy keys never shadow a canonical path
+for (const entry of ONTOLOGY_REGISTRY) {
+  for (const legacy of entry.legacyKeys || []) {
+    const k = legacy.toLowerCase();
+    if (!pathIndex.has(k)) pathIndex.set(k, entry.path);
+  }
+}
+
+export function getOntologyEntry(path: string): OntologyEntry | undefined {
+  return entriesByPath.get(path);
+}
+
+// Resolve any known key (canonical path, matcher id or information field key) to its canonical path
+export function resolveOntologyPath(key: string): CanonicalPath | null {
+  if (typeof key !== 'string') return null;
+  return pathIndex.get(key.trim().toLowerCase()) ?? null;
+}
+
+// Like resolveOntologyPath but passes unknown keys through untouched
+export function canonicalOntologyKey(key: string): string {
+  return resolveOntologyPath(key) ?? key;
+}
+
+function synonymsFor(entry: OntologyEntry): string[] {
+  const out = new Set<string>();
+  for (const s of UNIVERSAL_SYNONYMS.aliases[entry.path] || []) out.add(s);
+  for (const legacy of entry.legacyKeys || []) {
+    for (const s of DEFAULT_SYNONYMS[legacy] || []) out.add(s);
+  }
+  for (const s of entry.synonyms || []) out.add(s);
+  return Array.from(out);
+}
+
+export function toOntologyKey(entry: OntologyEntry): OntologyKey {
+  return {
+    key: entry.path,
+    label: entry.label,
+    type: entry.type,
+    ...(entry.aliases?.length ? { aliases: [...entry.aliases] } : {}),
+    ...(entry.regexes?.length ? { regexes: [...entry.regexes] } : {})
+  };
+}
+
+// Matcher keys for the given keys. Scoped paths contribute their base key.
+export function ontologyKeysFor(keys: Iterable<string>): OntologyKey[] {
+  const out: OntologyKey[] = [];
+  const seen = new Set<string>();
+  for (const key of keys) {
+    const resolved = resolveOntologyPath(key);
+    const path = resolved ? (entriesByPath.get(resolved)!.scopeOf ?? resolved) : null;
+    if (!path || seen.has(path)) continue;
+    seen.add(path);
+    out.push(toOntologyKey(entriesByPath.get(path)!));
+  }
+  return out;
+}
+
+// Scoped variants of a base path (`address.city` -> shipping and billing city)
+export function scopedOntologyEntries(path: string): OntologyEntry[] {
+  return SCOPED_ENTRIES.filter((entry) => entry.scopeOf === path);
+}
+
+// Canonical path -> synonyms, suitable for MatcherConfig.synonyms
+export const ONTOLOGY_SYNONYMS: Record<string, string[]> = Object.fromEntries(
+  BASE_ENTRIES.map((entry) => [entry.path, synonymsFor(entry)])
+);
+
+// Re-key a value map onto canonical paths. Values already stored under the canonical
+// path win over legacy keys; unknown keys are kept as-is.
+export function migrateTemplateValues<T>(values: Record<string, T>): {
+  values: Record<string, T>;
+  changed: boolean;
+} {
+  const out: Record<string, T> = {};
+  let changed = false;
+  const legacy: Array<[string, T]> = [];
+  for (const [key, value] of Object.entries(values || {})) {
+    const path = resolveOntologyPath(key);
+    if (path === key || !path) {
+      out[key] = value;
+    } else {
+      legacy.push([path, value]);
+      changed = true;
+    }
+  }
+  for (const [path, value] of legacy) {
+    if (!(path in out)) out[path] = value;
+  }
+  return { values: out, changed };
+}
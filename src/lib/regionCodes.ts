@@ -0,0 +1,155 @@
+// ISO 3166 country codes and US/CA/AU subdivision abbreviations, used to match a stored
+// country or state against <select> options written as codes or (localized) names.
+
+import { SUPPORTED_LOCALES } from './locale';
+
+export type SubdivisionCountry = 'US' | 'CA' | 'AU';
+
+// ISO 3166-1 alpha-2 -> alpha-3
+const ISO_ALPHA3_TABLE =
+  'AD:AND AE:ARE AF:AFG AG:ATG AI:AIA AL:ALB AM:ARM AO:AGO AQ:ATA AR:ARG AS:ASM AT:AUT AU:AUS AW:ABW ' +
+  'AX:ALA AZ:AZE BA:BIH BB:BRB BD:BGD BE:BEL BF:BFA BG:BGR BH:BHR BI:BDI BJ:BEN BL:BLM BM:BMU BN:BRN ' +
+  'BO:BOL BQ:BES BR:BRA BS:BHS BT:BTN BV:BVT BW:BWA BY:BLR BZ:BLZ CA:CAN CC:CCK CD:COD CF:CAF CG:COG ' +
+  'CH:CHE CI:CIV CK:COK CL:CHL CM:CMR CN:CHN CO:COL CR:CRI CU:CUB CV:CPV CW:CUW CX:CXR CY:CYP CZ:CZE ' +
+  'DE:DEU DJ:DJI DK:DNK DM:DMA DO:DOM DZ:DZA EC:ECU EE:EST EG:EGY EH:ESH ER:ERI ES:ESP ET:ETH FI:FIN ' +
+  'FJ:FJI FK:FLK FM:FSM FO:FRO FR:FRA GA:GAB GB:GBR GD:GRD GE:GEO GF:GUF GG:GGY GH:GHA GI:GIB GL:GRL ' +
+  'GM:GMB GN:GIN GP:GLP GQ:GNQ GR:GRC GS:SGS GT:GTM GU:GUM GW:GNB GY:GUY HK:HKG HM:HMD HN:HND HR:HRV ' +
+  'HT:HTI HU:HUN ID:IDN IE:IRL IL:ISR IM:IMN IN:IND IO:IOT IQ:IRQ IR:IRN IS:ISL IT:ITA JE:JEY JM:JAM ' +
+  'JO:JOR JP:JPN KE:KEN KG:KGZ KH:KHM KI:KIR KM:COM KN:KNA KP:PRK KR:KOR KW:KWT KY:CYM KZ:KAZ LA:LAO ' +
+  'LB:LBN LC:LCA LI:LIE LK:LKA LR:LBR LS:LSO LT:LTU LU:LUX LV:LVA LY:LBY MA:MAR MC:MCO MD:MDA ME:MNE ' +
+  'MF:MAF MG:MDG MH:MHL MK:MKD ML:MLI MM:MMR MN:MNG MO:MAC MP:MNP MQ:MTQ MR:MRT MS:MSR MT:MLT MU:MUS ' +
+  'MV:MDV MW:MWI MX:MEX MY:MYS MZ:MOZ NA:NAM NC:NCL NE:NER NF:NFK NG:NGA NI:NIC NL:NLD NO:NOR NP:NPL ' +
+  'NR:NRU NU:NIU NZ:NZL OM:OMN PA:PAN PE:PER PF:PYF PG:PNG PH:PHL PK:PAK PL:POL PM:SPM PN:PCN PR:PRI ' +
+  'PS:PSE PT:PRT PW:PLW PY:PRY QA:QAT RE:REU RO:ROU RS:SRB RU:RUS RW:RWA SA:SAU SB:SLB SC:SYC SD:SDN ' +
+  'SE:SWE SG:SGP SH:SHN SI:SVN SJ:SJM SK:SVK SL:SLE SM:SMR SN:SEN SO:SOM SR:SUR SS:SSD ST:STP SV:SLV ' +
+  'SX:SXM SY:SYR SZ:SWZ TC:TCA TD:TCD TF:ATF TG:TGO TH:THA TJ:TJK TK:TKL TL:TLS TM:TKM TN:TUN TO:TON ' +
+  'TR:TUR TT:TTO TV:TUV TW:TWN TZ:TZA UA:UKR UG:UGA UM:UMI US:USA UY:URY UZ:UZB VA:VAT VC:VCT VE:VEN ' +
+  'VG:VGB VI:VIR VN:VNM VU:VUT WF:WLF WS:WSM YE:YEM YT:MYT ZA:ZAF ZM:ZMB ZW:ZWE';
+
+export const ISO_ALPHA3: Readonly<Record<string, string>> = Object.fromEntries(
+  ISO_ALPHA3_TABLE.split(' ').map((pair) => pair.split(':') as [string, string])
+);
+
+// Common names Intl.DisplayNames does not produce
+const COUNTRY_ALIASES: Record<string, string> = {
+  usa: 'US',
+  'united states of america': 'US',
+  america: 'US',
+  'u s': 'US',
+  'u s a': 'US',
+  uk: 'GB',
+  'great britain': 'GB',
+  britain: 'GB',
+  'united kingdom of great britain and northern ireland': 'GB',
+  england: 'GB',
+  scotland: 'GB',
+  wales: 'GB',
+  'northern ireland': 'GB',
+  holland: 'NL',
+  'the netherlands': 'NL',
+  'czech republic': 'CZ',
+  'republic of korea': 'KR',
+  korea: 'KR',
+  'russian federation': 'RU',
+  'ivory coast': 'CI',
+  'cote d ivoire': 'CI',
+  burma: 'MM',
+  swaziland: 'SZ',
+  'east timor': 'TL',
+  macedonia: 'MK',
+  turkiye: 'TR',
+  'viet nam': 'VN',
+  uae: 'AE',
+  'iran islamic republic of': 'IR',
+  'vatican city': 'VA',
+  'holy see': 'VA'
+};
+
+export const SUBDIVISIONS: Readonly<Record<SubdivisionCountry, Readonly<Record<string, string>>>> = {
+  US: {
+    AL: 'Alabama', AK: 'Alaska', AZ: 'Arizona', AR: 'Arkansas', CA: 'California', CO: 'Colorado',
+    CT: 'Connecticut', DE: 'Delaware', FL: 'Florida', GA: 'Georgia', HI: 'Hawaii', ID: 'Idaho',
+    IL: 'Illinois', IN: 'Indiana', IA: 'Iowa', KS: 'Kansas', KY: 'Kentucky', LA: 'Louisiana',
+    ME: 'Maine', MD: 'Maryland', MA: 'Massachusetts', MI: 'Michigan', MN: 'Minnesota',
+    MS: 'Mississippi', MO: 'Missouri', MT: 'Montana', NE: 'Nebraska', NV: 'Nevada',
+    NH: 'New Hampshire', NJ: 'New Jersey', NM: 'New Mexico', NY: 'New York', NC: 'North Carolina',
+    ND: 'North Dakota', OH: 'Ohio', OK: 'Oklahoma', OR: 'Oregon', PA: 'Pennsylvania',
+    RI: 'Rhode Island', SC: 'South Carolina', SD: 'South Dakota', TN: 'Tennessee', TX: 'Texas',
+    UT: 'Utah', VT: 'Vermont', VA: 'Virginia', WA: 'Washington', WV: 'West Virginia',
+    WI: 'Wisconsin', WY: 'Wyoming', DC: 'District of Columbia', PR: 'Puerto Rico', GU: 'Guam',
+    VI: 'U.S. Virgin Islands', AS: 'American Samoa', MP: 'Northern Mariana Islands'
+  },
+  CA: {
+    AB: 'Alberta', BC: 'British Columbia', MB: 'Manitoba', NB: 'New Brunswick',
+    NL: 'Newfoundland and Labrador', NS: 'Nova Scotia', NT: 'Northwest Territories', NU: 'Nunavut',
+    ON: 'Ontario', PE: 'Prince Edward Island', QC: 'Quebec', SK: 'Saskatchewan', YT: 'Yukon'
+  },
+  AU: {
+    ACT: 'Australian Capital Territory', NSW: 'New South Wales', NT: 'Northern Territory',
+    QLD: 'Queensland', SA: 'South Australia', TAS: 'Tasmania', VIC: 'Victoria', WA: 'Western Australia'
+  }
+};
+
+// Case, accent and punctuation insensitive form used by every lookup here
+export function normalizeRegionText(text: string): string {
+  return (text || '')
+    .normalize('NFD')
+    .replace(/\p{M}+/gu, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+let countryNameIndex: Map<string, string> | null = null;
+
+// Country names in every supported locale, built once on first use
+function countryNames(): Map<string, string> {
+  if (countryNameIndex) return countryNameIndex;
+  const index = new Map<string, string>();
+  for (const [alias, code] of Object.entries(COUNTRY_ALIASES)) index.set(alias, code);
+  const codes = Object.keys(ISO_ALPHA3);
+  for (const locale of SUPPORTED_LOCALES) {
+    let names: Intl.DisplayNames;
+    try {
+      names = new Intl.DisplayNames([locale], { type: 'region' });
+    } catch {
+      continue;
+    }
+    for (const code of codes) {
+      const name = names.of(code);
+      if (!name || name === code) continue;
+      const key = normalizeRegionText(name);
+      if (key && !index.has(key)) index.set(key, code);
+    }
+  }
+  countryNameIndex = index;
+  return index;
+}
+
+const ALPHA2_BY_ALPHA3: Record<string, string> = Object.fromEntries(
+  Object.entries(ISO_ALPHA3).map(([alpha2, alpha3]) => [alpha3, alpha2])
+);
+
+// ISO alpha-2 code for a country code (alpha-2/alpha-3) or name in any supported locale
+export function resolveCountryCode(text: string): string | null {
+  const raw = (text || '').trim();
+  if (!raw) return null;
+  const upper = raw.toUpperCase();
+  if (upper.length === 2 && ISO_ALPHA3[upper]) return upper;
+  if (upper.length === 3 && ALPHA2_BY_ALPHA3[upper]) return ALPHA2_BY_ALPHA3[upper];
+  return countryNames().get(normalizeRegionText(raw)) ?? null;
+}
+
+// Subdivision abbreviation ("CA") for an abbreviation or name within one country
+export function resolveSubdivisionCode(text: string, country: SubdivisionCountry): string | null {
+  const raw = (text || '').trim();
+  if (!raw) return null;
+  const table = SUBDIVISIONS[country];
+  const upper = raw.toUpperCase().replace(/\./g, '');
+  if (table[upper]) return upper;
+  const key = normalizeRegionText(raw);
+  for (const [code, name] of Object.entries(table)) {
+    if (normalizeRegionText(name) === key) return code;
+  }
+  return null;
+}
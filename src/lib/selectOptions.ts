@@ -0,0 +1,143 @@
+// Pick the <select> option for a stored value. Options are compared on their value, text and
+// label, then as countries / states (ISO codes, abbreviations, localized names), then fuzzily.
+
+import {
+  normalizeRegionText,
+  resolveCountryCode,
+  resolveSubdivisionCode,
+  SUBDIVISIONS,
+  type SubdivisionCountry
+} from './regionCodes';
+
+export interface SelectOptionLike {
+  value: string;
+  text: string;
+  label?: string;
+  disabled?: boolean;
+}
+
+// 'synonym': another spelling of an enumerated choice ("F" for female, see choices.ts)
+export type OptionMatchReason = 'value' | 'text' | 'label' | 'country' | 'subdivision' | 'synonym' | 'fuzzy';
+
+export interface OptionMatch {
+  index: number;
+  value: string;
+  text: string;
+  confidence: number; // 0..1
+  reason: OptionMatchReason;
+}
+
+// Fuzzy matches below this similarity are not selected
+const FUZZY_FLOOR = 0.75;
+
+type RegionTable = 'country' | SubdivisionCountry;
+
+function isPlaceholder(opt: SelectOptionLike, index: number): boolean {
+  if (opt.value !== '') return false;
+  return index === 0 || !opt.text.trim() || /^[-\s]*(select|choose|please)\b/i.test(opt.text.trim());
+}
+
+function resolveIn(table: RegionTable, text: string): string | null {
+  return table === 'country' ? resolveCountryCode(text) : resolveSubdivisionCode(text, table);
+}
+
+function optionCode(table: RegionTable, opt: SelectOptionLike): string | null {
+  return resolveIn(table, opt.value) ?? resolveIn(table, opt.text) ?? (opt.label ? resolveIn(table, opt.label) : null);
+}
+
+// Which code table the option list is written in. Names count double: two-letter values
+// are ambiguous between tables ('CA' is Canada and California), option texts rarely are.
+function detectRegionTable(options: SelectOptionLike[]): RegionTable | null {
+  const tables: RegionTable[] = ['country', ...(Object.keys(SUBDIVISIONS) as SubdivisionCountry[])];
+  let best: RegionTable | null = null;
+  let bestScore = 0;
+  for (const table of tables) {
+    let score = 0;
+    for (const opt of options) {
+      if (resolveIn(table, opt.text)) score += 2;
+      if (resolveIn(table, opt.value)) score += 1;
+    }
+    if (score > bestScore) {
+      best = table;
+      bestScore = score;
+    }
+  }
+  // Need a handful of hits before treating the list as a country/state list
+  return bestScore >= Math.min(6, options.length * 1.5) ? best : null;
+}
+
+function bigrams(s: string): string[] {
+  const n = s.replace(/\s+/g, '');
+  if (n.length < 2) return [n];
+  const out: string[] = [];
+  for (let i = 0; i < n.length - 1; i++) out.push(n.slice(i, i + 2));
+  return out;
+}
+
+function similarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  // "United States" vs "United States of America"
+  if (a.length >= 4 && b.length >= 4 && (a.startsWith(b) || b.startsWith(a))) return 0.9;
+  const A = bigrams(a);
+  const B = bigrams(b);
+  const counts = new Map<string, number>();
+  for (const g of A) counts.set(g, (counts.get(g) || 0) + 1);
+  let inter = 0;
+  for (const g of B) {
+    const c = counts.get(g) || 0;
+    if (c > 0) {
+      inter++;
+      counts.set(g, c - 1);
+    }
+  }
+  return (2 * inter) / (A.length + B.length);
+}
+
+function toMatch(opt: SelectOptionLike, index: number, confidence: number, reason: OptionMatchReason): OptionMatch {
+  return { index, value: opt.value, text: opt.text, confidence, reason };
+}
+
+export function resolveSelectOption(wanted: string, options: SelectOptionLike[]): OptionMatch | null {
+  const raw = String(wanted ?? '').trim();
+  if (!raw) return null;
+  const usable = options
+    .map((opt, index) => ({ opt, index }))
+    .filter(({ opt, index }) => !opt.disabled && !isPlaceholder(opt, index));
+  if (usable.length === 0) return null;
+
+  for (const { opt, index } of usable) {
+    if (opt.value === raw) return toMatch(opt, index, 1, 'value');
+  }
+
+  const key = normalizeRegionText(raw);
+  if (key) {
+    for (const { opt, index } of usable) {
+      if (normalizeRegionText(opt.value) === key) return toMatch(opt, index, 0.97, 'value');
+    }
+    for (const { opt, index } of usable) {
+      if (normalizeRegionText(opt.text) === key) return toMatch(opt, index, 0.95, 'text');
+      if (opt.label && normalizeRegionText(opt.label) === key) return toMatch(opt, index, 0.95, 'label');
+    }
+  }
+
+  const table = detectRegionTable(usable.map(({ opt }) => opt));
+  const wantedCode = table ? resolveIn(table, raw) : null;
+  if (table && wantedCode) {
+    for (const { opt, index } of usable) {
+      if (optionCode(table, opt) === wantedCode) {
+        return toMatch(opt, index, 0.9, table === 'country' ? 'country' : 'subdivision');
+      }
+    }
+  }
+
+  let best: OptionMatch | null = null;
+  for (const { opt, index } of usable) {
+    const texts = [opt.text, opt.label, opt.value].filter((t): t is string => !!t);
+    const score = Math.max(...texts.map((t) => similarity(key, normalizeRegionText(t))));
+    if (score >= FUZZY_FLOOR && (!best || score * 0.8 > best.confidence)) {
+      best = toMatch(opt, index, Math.round(score * 0.8 * 100) / 100, 'fuzzy');
+    }
+  }
+  return best;
+}
@@ -1,10 +1,22 @@
 import type { Candidate } from '../content/domScanner';
 import type { BatchMatchResult, HeuristicContribution, MatchResult } from './fieldMatcher';
+import { assignMatches, fileMismatch } from './fieldMatcher';
 import type { MatcherConfig, OntologyKey } from './ontology';
+import { createLocalProvider } from './localEmbeddings';
+
+export type SemanticProviderKind = 'remote' | 'local';
+
+// Source of embedding vectors. `id` namespaces the embedding cache.
+export interface SemanticProvider {
+  id: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
 
 export interface SemanticConfig {
   enabled: boolean;
-  apiUrl: string; // URL for embeddings service
+  // 'remote' (default) POSTs to apiUrl, 'local' embeds on-device; a custom provider can be passed too
+  provider?: SemanticProviderKind | SemanticProvider;
+  apiUrl?: string; // URL for embeddings service (remote provider)
   apiKey?: string; // optional Authorization header bearer token
   model?: string; // e.g., 'MiniLM', 'TinyBERT'
   batchSize?: number; // default 64
@@ -58,7 +70,7 @@ async function fetchWithTimeout(input: RequestInfo, init: RequestInit, timeoutMs
   }
 }
 
-async function fetchEmbeddings(texts: string[], cfg: SemanticConfig): Promise<number[][]> {
+async function fetchEmbeddings(texts: string[], cfg: SemanticConfig & { apiUrl: string }): Promise<number[][]> {
   // Minimal context: labels only are passed via `texts`
   const payload: Record<string, unknown> = { model: cfg.model || 'MiniLM' };
   // Prefer `input`, but support `texts` for compatibility
@@ -90,14 +102,33 @@ async function fetchEmbeddings(texts: string[], cfg: SemanticConfig): Promise<nu
   return vectors;
 }
 
-async function getEmbeddingsFor(texts: string[], cfg: SemanticConfig): Promise<Map<string, number[]>> {
+export function createRemoteProvider(cfg: SemanticConfig & { apiUrl: string }): SemanticProvider {
+  return {
+    id: `remote:${cfg.apiUrl}:${cfg.model || 'MiniLM'}`,
+    embed: (texts) => fetchEmbeddings(texts, cfg)
+  };
+}
+
+// Provider for a config, or null when it cannot run (remote without an endpoint)
+export function semanticProviderFor(cfg: SemanticConfig): SemanticProvider | null {
+  const provider = cfg.provider ?? 'remote';
+  if (typeof provider === 'object') return provider;
+  if (provider === 'local') return createLocalProvider();
+  return cfg.apiUrl ? createRemoteProvider({ ...cfg, apiUrl: cfg.apiUrl }) : null;
+}
+
+async function getEmbeddingsFor(
+  texts: string[],
+  provider: SemanticProvider,
+  cfg: SemanticConfig
+): Promise<Map<string, number[]>> {
   const out = new Map<string, number[]>();
   const now = nowMs();
   const ttl = cfg.cacheTtlMs ?? 24 * 60 * 60 * 1000;
 
   const toFetch: string[] = [];
   for (const raw of texts) {
-    const key = normalizeCacheKey(raw);
+    const key = `${provider.id}\u0000${normalizeCacheKey(raw)}`;
     const cached = EMB_CACHE.get(key);
     if (cached && now - cached.ts < ttl) {
       out.set(raw, cached.v);
@@ -112,10 +143,10 @@ async function getEmbeddingsFor(texts: string[], cfg: SemanticConfig): Promise<M
   for (let i = 0; i < toFetch.length; i += batchSize) {
     const chunk = toFetch.slice(i, i + batchSize);
     try {
-      const vecs = await fetchEmbeddings(chunk, cfg);
+      const vecs = await provider.embed(chunk);
       for (let j = 0; j < chunk.length; j++) {
         const raw = chunk[j];
-        const key = normalizeCacheKey(raw);
+        const key = `${provider.id}\u0000${normalizeCacheKey(raw)}`;
         const v = vecs[j] || [];
         EMB_CACHE.set(key, { v, ts: now });
         out.set(raw, v);
@@ -134,8 +165,10 @@ async function getEmbeddingsFor(texts: string[], cfg: SemanticConfig): Promise<M
 function recomputeTotals(results: MatchResult[], config: MatcherConfig): void {
   for (const r of results) {
     const totalWeighted = r.explanation.contributions.reduce((s, c) => s + c.weightedScore, 0);
-    const maxWeight = Object.values(config.weights).reduce((s, w) => s + (w || 0), 0);
-    const totalScore = Math.max(0, Math.min(1, totalWeighted / Math.max(1e-6, maxWeight)));
+    // The negative-evidence penalty is subtracted, it is not part of the total weight
+    const maxWeight = Object.entries(config.weights).reduce((s, [id, w]) => (id === 'negativeEvidence' ? s : s + (w || 0)), 0);
+    const averaged = Math.max(0, Math.min(1, totalWeighted / Math.max(1e-6, maxWeight)));
+    const totalScore = Math.max(averaged, r.explanation.floor?.score ?? 0);
     r.explanation.totalScore = totalScore;
     r.score = totalScore;
   }
@@ -154,7 +187,9 @@ export async function rerankWithSemantics(
   config: MatcherConfig & { semantic?: SemanticConfig }
 ): Promise<BatchMatchResult> {
   const sc = config.semantic;
-  if (!sc?.enabled || !sc.apiUrl) return base;
+  if (!sc?.enabled) return base;
+  const provider = semanticProviderFor(sc);
+  if (!provider) return base;
 
   try {
     // Gather minimal context: only key labels and candidate accessible labels
@@ -170,7 +205,7 @@ export async function rerankWithSemantics(
     }
 
     const allTexts = Array.from(new Set<string>([...keyTexts, ...Array.from(candLabelById.values())]));
-    const embeds = await getEmbeddingsFor(allTexts, sc);
+    const embeds = await getEmbeddingsFor(allTexts, provider, sc);
 
     if (embeds.size === 0) return base; // offline or service unavailable
 
@@ -216,7 +251,7 @@ export async function rerankWithSemantics(
       }
 
       recomputeTotals(list, configWithSemantic);
-      for (const r of list) r.tier = pickTier(r.score, configWithSemantic);
+      for (const r of list) r.tier = fileMismatch(r.key, r.candidate) ? 'reject' : pickTier(r.score, configWithSemantic);
       list.sort((a, b) => b.score - a.score);
       list.forEach((r, i) => (r.rank = i + 1));
     }
@@ -234,7 +269,11 @@ export async function rerankWithSemantics(
       byCandidate[id].forEach((r, i) => (r.rank = i + 1));
     }
 
-    return { byKey: base.byKey, byCandidate };
+    // Everything else on the batch (confirmation pairs...) carries through unchanged
+    if (base.assignment) {
+      return { ...base, byCandidate, assignment: assignMatches(base.byKey, config) };
+    }
+    return { ...base, byCandidate };
   } catch (e) {
     // eslint-disable-next-line no-console
     console.warn('[AIAutoFill] semantic rerank failed; falling back', e);
@@ -246,6 +285,8 @@ export function logSemanticPrivacyNoticeOnce(sc?: SemanticConfig) {
   const g = globalThis as unknown as { __AIAF__SEM_NOTICE__?: boolean };
   if (g.__AIAF__SEM_NOTICE__) return;
   if (!sc?.enabled) return;
+  // The local provider never leaves the page
+  if (sc.provider === 'local') return;
   // eslint-disable-next-line no-console
   console.info('[AIAutoFill] Semantic matching enabled. Minimal context (labels only) may be sent to an external embeddings service. See PRIVACY.md for details.');
   g.__AIAF__SEM_NOTICE__ = true;
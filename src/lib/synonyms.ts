@@ -57,6 +57,7 @@ export const UNIVERSAL_SYNONYMS: SynonymMap = {
     'identity.pronouns': ['pronouns'],
     'identity.gender': ['gender', 'sex'],
     'identity.dateOfBirth': ['date of birth', 'dob', 'birthdate'],
+    'identity.bio': ['bio', 'biography', 'about me'],
     // Contact
     'contact.email': ['email', 'e-mail', 'mail'],
     'contact.altEmails': ['alternate email', 'secondary email', 'backup email'],
@@ -119,6 +120,7 @@ export const UNIVERSAL_SYNONYMS: SynonymMap = {
     // Business Listing
     'businessListing.businessName': ['business name', 'company name'],
     'businessListing.category': ['category'],
+    'businessListing.tagline': ['tagline', 'slogan'],
     'businessListing.subcategories': ['subcategories'],
     'businessListing.description': ['description', 'about'],
     'businessListing.yearEstablished': ['year established', 'founded'],
@@ -211,7 +213,7 @@ export const UNIVERSAL_SYNONYMS: SynonymMap = {
     'contact.email': {
       es: ['correo', 'correo electrónico', 'email'],
       fr: ['email', 'courriel'],
-      de: ['e-mail', 'email'],
+      de: ['e-mail', 'email', 'e-mail-adresse', 'email-adresse'],
       it: ['email'],
       pt: ['email', 'e-mail'],
       nl: ['e-mail', 'email'],
@@ -228,7 +230,7 @@ export const UNIVERSAL_SYNONYMS: SynonymMap = {
       ar: ['البريد الإلكتروني'],
       he: ['דוא"ל'],
       zh: ['电子邮件'],
-      ja: ['メール'],
+      ja: ['メール', 'メールアドレス'],
       ko: ['이메일'],
       hi: ['ईमेल'],
       id: ['email'],
@@ -239,7 +241,7 @@ export const UNIVERSAL_SYNONYMS: SynonymMap = {
     'contact.phone': {
       es: ['teléfono', 'móvil', 'celular'],
       fr: ['téléphone', 'mobile'],
-      de: ['telefon', 'handy'],
+      de: ['telefon', 'handy', 'telefonnummer', 'handynummer'],
       it: ['telefono', 'cellulare'],
       pt: ['telefone', 'telemóvel', 'celular'],
       nl: ['telefoon'],
@@ -256,7 +258,7 @@ export const UNIVERSAL_SYNONYMS: SynonymMap = {
       ar: ['الهاتف'],
       he: ['טלפון'],
       zh: ['电话'],
-      ja: ['電話'],
+      ja: ['電話', '電話番号'],
       ko: ['전화'],
       hi: ['फ़ोन'],
       id: ['telepon'],
@@ -309,6 +311,92 @@ export const UNIVERSAL_SYNONYMS: SynonymMap = {
       zh: ['邮政编码'],
       ja: ['郵便番号'],
       ko: ['우편 번호']
+    },
+    'identity.fullName': {
+      es: ['nombre completo'],
+      fr: ['nom complet'],
+      de: ['vollständiger name'],
+      it: ['nome completo'],
+      pt: ['nome completo'],
+      nl: ['volledige naam'],
+      pl: ['imię i nazwisko'],
+      ru: ['фио', 'полное имя'],
+      uk: ['піб', 'повне імʼя'],
+      tr: ['ad soyad'],
+      ar: ['الاسم الكامل'],
+      he: ['שם מלא'],
+      zh: ['姓名'],
+      ja: ['氏名', 'お名前'],
+      ko: ['성명']
+    },
+    'address.city': {
+      es: ['ciudad', 'localidad'],
+      fr: ['ville'],
+      de: ['stadt', 'ort'],
+      it: ['città'],
+      pt: ['cidade'],
+      nl: ['plaats', 'stad'],
+      sv: ['ort', 'stad'],
+      pl: ['miasto'],
+      ru: ['город'],
+      uk: ['місто'],
+      tr: ['şehir'],
+      ar: ['المدينة'],
+      he: ['עיר'],
+      zh: ['城市'],
+      ja: ['市区町村'],
+      ko: ['도시']
+    },
+    'address.region': {
+      es: ['provincia', 'estado'],
+      fr: ['région', 'département'],
+      de: ['bundesland'],
+      it: ['provincia', 'regione'],
+      pt: ['estado'],
+      ru: ['область', 'регион'],
+      zh: ['省份', '省'],
+      ja: ['都道府県'],
+      ko: ['시도']
+    },
+    'address.country': {
+      es: ['país'],
+      fr: ['pays'],
+      de: ['land'],
+      it: ['paese'],
+      pt: ['país'],
+      nl: ['land'],
+      ru: ['страна'],
+      ar: ['الدولة', 'البلد'],
+      zh: ['国家'],
+      ja: ['国'],
+      ko: ['국가']
+    },
+    'organization.name': {
+      es: ['empresa', 'compañía'],
+      fr: ['entreprise', 'société'],
+      de: ['firma', 'unternehmen'],
+      it: ['azienda', 'società'],
+      pt: ['empresa'],
+      nl: ['bedrijf'],
+      pl: ['firma'],
+      ru: ['компания', 'организация'],
+      ar: ['الشركة'],
+      zh: ['公司'],
+      ja: ['会社名', '会社'],
+      ko: ['회사']
+    },
+    'message.body': {
+      es: ['mensaje'],
+      fr: ['message'],
+      de: ['nachricht'],
+      it: ['messaggio'],
+      pt: ['mensagem'],
+      nl: ['bericht'],
+      ru: ['сообщение'],
+      ar: ['الرسالة'],
+      zh: ['留言', '消息'],
+      ja: ['お問い合わせ内容', 'メッセージ'],
+      ko: ['메시지', '문의 내용']
     }
   }
 };
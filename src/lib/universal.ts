@@ -17,7 +17,8 @@ export const IdentitySchema = z
     dateOfBirth: z
       .string()
       .regex(/^(\d{4}-\d{2}-\d{2})$/, 'Expected ISO date YYYY-MM-DD')
-      .optional()
+      .optional(),
+    bio: z.string().trim().min(1).optional()
   })
   .describe('Personal identity fields');
 
@@ -146,6 +147,7 @@ export const BusinessListingSchema = z
   .object({
     businessName: z.string().trim().min(1).optional(),
     category: z.string().trim().min(1).optional(),
+    tagline: z.string().trim().min(1).optional(),
     subcategories: z.array(z.string().trim().min(1)).optional(),
     description: z.string().trim().min(1).optional(),
     yearEstablished: z.number().int().positive().optional(),
@@ -214,6 +216,9 @@ export const UniversalDataSchema = z
     identity: IdentitySchema.optional(),
     contact: ContactSchema.optional(),
     address: AddressSchema.optional(),
+    // Used instead of `address` by fields tagged `shipping` / `billing` in autocomplete
+    shippingAddress: AddressSchema.optional(),
+    billingAddress: AddressSchema.optional(),
     organization: OrganizationSchema.optional(),
     webPresence: WebPresenceSchema.optional(),
     seo: SEOSchema.optional(),
@@ -240,6 +245,7 @@ export type CanonicalPath =
   | 'identity.pronouns'
   | 'identity.gender'
   | 'identity.dateOfBirth'
+  | 'identity.bio'
   | 'contact.email'
   | 'contact.altEmails'
   | 'contact.phone'
@@ -254,6 +260,18 @@ export type CanonicalPath =
   | 'address.country'
   | 'address.countryCode'
   | 'address.formatted'
+  | 'shippingAddress.street1'
+  | 'shippingAddress.street2'
+  | 'shippingAddress.city'
+  | 'shippingAddress.region'
+  | 'shippingAddress.postalCode'
+  | 'shippingAddress.country'
+  | 'billingAddress.street1'
+  | 'billingAddress.street2'
+  | 'billingAddress.city'
+  | 'billingAddress.region'
+  | 'billingAddress.postalCode'
+  | 'billingAddress.country'
   | 'organization.name'
   | 'organization.legalName'
   | 'organization.dba'
@@ -296,6 +314,7 @@ export type CanonicalPath =
   | 'seo.robots'
   | 'businessListing.businessName'
   | 'businessListing.category'
+  | 'businessListing.tagline'
   | 'businessListing.subcategories'
   | 'businessListing.description'
   | 'businessListing.yearEstablished'
@@ -342,6 +361,12 @@ export function pickSchema(paths: CanonicalPath[]) {
       case 'address':
         schema = schema.extend({ address: AddressSchema.partial() });
         break;
+      case 'shippingAddress':
+        schema = schema.extend({ shippingAddress: AddressSchema.partial() });
+        break;
+      case 'billingAddress':
+        schema = schema.extend({ billingAddress: AddressSchema.partial() });
+        break;
       case 'organization':
         schema = schema.extend({ organization: OrganizationSchema.partial() });
         break;
@@ -1,42 +1,6 @@
 import { test, expect } from './fixtures/base';
 import { DEFAULT_EXPECTED_VALUES, FORM_FIXTURES, OntologyKey } from './fixtures/forms';
-import type { Page } from '@playwright/test';
-
-declare global {
-  interface Window {
-    __AIAutoFillTestAPI__?: {
-      applyAll: () => number;
-      undoAll: () => number;
-      rescan: () => boolean;
-      getScanMetrics: () => { scannedAt: number; candidateCount: number; durationMs: number } | null;
-      getTopMatches: () => Record<string, { candidateId: string; tier: string; score: number; label: string | null }>;
-      getCandidateStatuses: () => Array<{
-        id: string;
-        key: string | null;
-        status: string | null;
-        applied: boolean;
-        highlight: string | null;
-      }>;
-    };
-  }
-}
-
-async function waitForTestApi(page: Page): Promise<void> {
-  await page.waitForFunction(() => Boolean(window.__AIAutoFillTestAPI__), { timeout: 10_000 });
-}
-
-async function waitForScan(page: Page, minCandidateCount: number): Promise<void> {
-  await page.waitForFunction(
-    (min) => {
-      const api = window.__AIAutoFillTestAPI__;
-      if (!api?.getScanMetrics) return false;
-      const metrics = api.getScanMetrics();
-      return !!metrics && metrics.candidateCount >= min;
-    },
-    minCandidateCount,
-    { timeout: 10_000 }
-  );
-}
+import { waitForScan, waitForTestApi } from './fixtures/testApi';
 
 test.describe('AIAutoFill end-to-end automation', () => {
   for (const fixture of FORM_FIXTURES) {
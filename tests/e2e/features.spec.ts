@@ -0,0 +1,316 @@
+import { test, expect } from './fixtures/base';
+import { waitForScan, waitForTestApi } from './fixtures/testApi';
+
+const PDF_BYTES = Buffer.from('%PDF-1.4\n1 0 obj << >> endobj\ntrailer << >>\n%%EOF\n');
+
+test.describe('AIAutoFill feature paths', () => {
+  test('attaches a stored file to a file input', async ({ page, server, extension }) => {
+    await extension.seedVault({
+      values: { 'contact.email': 'ada@example.org', 'message.attachments': 'cv.pdf' },
+      attachments: [{ filename: 'cv.pdf', mimeType: 'application/pdf', data: PDF_BYTES.toString('base64') }]
+    });
+
+    await page.goto(server.urlFor('/job-application'), { waitUntil: 'domcontentloaded' });
+    await waitForTestApi(page);
+    await waitForScan(page, 2);
+
+    const topMatches = await page.evaluate(() => window.__AIAutoFillTestAPI__?.getTopMatches?.() ?? {});
+    expect(topMatches['message.attachments']?.tier).toBe('accept');
+
+    await page.evaluate(() => window.__AIAutoFillTestAPI__?.applyAll?.() ?? 0);
+
+    await expect(page.locator('#applicant-email')).toHaveValue('ada@example.org');
+    const attached = await page.locator('#resume').evaluate((el) =>
+      Array.from((el as HTMLInputElement).files ?? []).map((file) => ({ name: file.name, type: file.type, size: file.size }))
+    );
+    expect(attached).toEqual([{ name: 'cv.pdf', type: 'application/pdf', size: PDF_BYTES.length }]);
+  });
+
+  test('undo puts a custom dropdown back to the option it showed', async ({ page, server, extension }) => {
+    await extension.seedVault({ values: { 'address.country': 'Canada' } });
+
+    await page.goto(server.urlFor('/react-select'), { waitUntil: 'domcontentloaded' });
+    await waitForTestApi(page);
+    await waitForScan(page, 1);
+    const shown = page.locator('#country .react-select__single-value');
+    await expect(shown).toHaveText('Mexico');
+
+    await page.evaluate(() => window.__AIAutoFillTestAPI__?.applyAll?.() ?? 0);
+    await expect(shown).toHaveText('Canada');
+
+    await page.evaluate(() => window.__AIAutoFillTestAPI__?.undo?.() ?? null);
+    await expect(shown).toHaveText('Mexico');
+    const statuses = await page.evaluate(() => window.__AIAutoFillTestAPI__?.getCandidateStatuses?.() ?? []);
+    expect(statuses.some((s) => s.applied)).toBe(false);
+  });
+
+  test('a wizard session fills each SPA route and ends once the required keys are filled', async ({ page, server, extension }) => {
+    await extension.seedVault({
+      values: {
+        'identity.firstName': 'Ada',
+        'identity.lastName': 'Lovelace',
+        'contact.email': 'ada@example.org',
+        'contact.phone': '+1 415-555-2671',
+        'message.body': 'Hello'
+      }
+    });
+
+    await page.goto(server.urlFor('/wizard'), { waitUntil: 'domcontentloaded' });
+    await waitForTestApi(page);
+    await waitForScan(page, 2);
+    // the template arrives with the settings, after the first scan
+    await expect
+      .poll(() => page.evaluate(async () => Boolean(await window.__AIAutoFillTestAPI__?.startWizard?.('JobApplication'))))
+      .toBe(true);
+    await expect(page.locator('#first-name')).toHaveValue('Ada');
+    await expect(page.locator('#last-name')).toHaveValue('Lovelace');
+
+    await page.click('#next');
+    await expect(page).toHaveURL(/\/wizard\/contact$/);
+    await expect(page.locator('#email')).toHaveValue('ada@example.org');
+    await expect(page.locator('#phone')).toHaveValue('+1 415-555-2671');
+
+    await expect.poll(() => page.evaluate(() => window.__AIAutoFillTestAPI__?.getWizardSession?.() ?? null)).toBeNull();
+    const completed = await page.evaluate(() => window.__AIAutoFillTestAPI__?.getCompletedWizard?.() ?? null);
+    expect(completed?.remainingKeys).toEqual([]);
+    expect(completed?.steps.map((step) => new URL(step.url).pathname)).toEqual(['/wizard', '/wizard/contact']);
+
+    // the session is over: the next route is left alone
+    await page.click('#next');
+    await expect(page).toHaveURL(/\/wizard\/about$/);
+    await waitForScan(page, 1);
+    await page.waitForTimeout(1_000);
+    await expect(page.locator('#about')).toHaveValue('');
+  });
+
+  test('without page access a custom element is filled through its value attribute', async ({ page, server, extension }) => {
+    await extension.seedVault({ values: { 'contact.email': 'ada@example.org' } });
+
+    await page.goto(server.urlFor('/custom-element'), { waitUntil: 'domcontentloaded' });
+    await waitForTestApi(page);
+    await waitForScan(page, 1);
+    // localhost is not granted, so the worker refuses the page-world bridge
+    await expect
+      .poll(() => page.evaluate(() => window.__AIAutoFillTestAPI__?.getMainWorldBridge?.().refusal ?? null))
+      .not.toBeNull();
+    const bridge = await page.evaluate(() => window.__AIAutoFillTestAPI__?.getMainWorldBridge?.() ?? null);
+    expect(bridge).toMatchObject({ requested: true, installed: false });
+
+    await page.evaluate(() => window.__AIAutoFillTestAPI__?.applyAll?.() ?? 0);
+
+    const field = page.locator('x-email-field');
+    await expect(field).toHaveAttribute('value', 'ada@example.org');
+    // the component observed the attribute: its property and form value follow
+    expect(await field.evaluate((el) => (el as HTMLElement & { value: string }).value)).toBe('ada@example.org');
+    const submitted = await page.locator('#newsletter').evaluate((form) => new FormData(form as HTMLFormElement).get('email'));
+    expect(submitted).toBe('ada@example.org');
+    const statuses = await page.evaluate(() => window.__AIAutoFillTestAPI__?.getCandidateStatuses?.() ?? []);
+    expect(statuses.find((s) => s.key === 'contact.email')?.applied).toBe(true);
+  });
+
+  test('a plain phone field next to country and area code fields gets the local number', async ({ page, server, extension }) => {
+    await extension.seedVault({ values: { 'contact.phone': '+1 415-555-2671' } });
+
+    await page.goto(server.urlFor('/split-phone'), { waitUntil: 'domcontentloaded' });
+    await waitForTestApi(page);
+    await waitForScan(page, 3);
+    await page.evaluate(() => window.__AIAutoFillTestAPI__?.applyAll?.() ?? 0);
+
+    await expect(page.locator('#phone-cc')).toHaveValue('+1');
+    await expect(page.locator('#phone-area')).toHaveValue('415');
+    await expect(page.locator('#phone')).toHaveValue('5552671');
+  });
+
+  test('types a masked phone field one key at a time so the mask formats it', async ({ page, server, extension }) => {
+    await extension.seedVault({ values: { 'contact.phone': '+1 415-555-2671' } });
+
+    await page.goto(server.urlFor('/masked-phone'), { waitUntil: 'domcontentloaded' });
+    await waitForTestApi(page);
+    await waitForScan(page, 1);
+    await page.evaluate(() => window.__AIAutoFillTestAPI__?.applyAll?.() ?? 0);
+
+    const phone = page.locator('#phone');
+    await expect(phone).toHaveValue('(415) 555-2671');
+    expect(Number(await phone.getAttribute('data-keys'))).toBeGreaterThanOrEqual('+1 415-555-2671'.length);
+  });
+
+  test('splits a date of birth over day, month and year selects', async ({ page, server, extension }) => {
+    await extension.seedVault({ values: { 'identity.dateOfBirth': '1990-12-10' } });
+
+    await page.goto(server.urlFor('/split-date'), { waitUntil: 'domcontentloaded' });
+    await waitForTestApi(page);
+    await waitForScan(page, 3);
+    await page.evaluate(() => window.__AIAutoFillTestAPI__?.applyAll?.() ?? 0);
+
+    await expect(page.locator('#bday-day')).toHaveValue('10');
+    await expect(page.locator('#bday-month')).toHaveValue('12');
+    await expect(page.locator('#bday-year')).toHaveValue('1990');
+  });
+
+  test('verification flags a field the page reverted and one its validator rejects', async ({ page, server, extension }) => {
+    await extension.seedVault({ values: { 'identity.firstName': 'Ada', 'contact.email': 'ada@example.org' } });
+
+    await page.goto(server.urlFor('/verification'), { waitUntil: 'domcontentloaded' });
+    await waitForTestApi(page);
+    await waitForScan(page, 2);
+    await page.evaluate(() => window.__AIAutoFillTestAPI__?.applyAll?.() ?? 0);
+
+    await expect(page.locator('#first-name')).toHaveValue('');
+    await expect(page.locator('#work-email')).toHaveValue('ada@example.org');
+    await expect(page.locator('#first-name')).toHaveClass(/\baiaf-highlight-reverted\b/);
+    await expect(page.locator('#work-email')).toHaveClass(/\baiaf-highlight-invalid\b/);
+    const statuses = await page.evaluate(() => window.__AIAutoFillTestAPI__?.getCandidateStatuses?.() ?? []);
+    expect(statuses.find((s) => s.key === 'identity.firstName')?.verification).toBe('reverted');
+    expect(statuses.find((s) => s.key === 'contact.email')?.verification).toBe('invalid');
+  });
+
+  test('checks the radio whose option spells the stored choice', async ({ page, server, extension }) => {
+    await extension.seedVault({ values: { 'identity.gender': 'female', 'contact.preferredContactMethod': 'phone' } });
+
+    await page.goto(server.urlFor('/radio-groups'), { waitUntil: 'domcontentloaded' });
+    await waitForTestApi(page);
+    await waitForScan(page, 2);
+    await page.evaluate(() => window.__AIAutoFillTestAPI__?.applyAll?.() ?? 0);
+
+    await expect(page.locator('#q1-f')).toBeChecked();
+    await expect(page.locator('#q1-m')).not.toBeChecked();
+    await expect(page.locator('#q2-phone')).toBeChecked();
+    await expect(page.locator('#q2-email')).not.toBeChecked();
+  });
+
+  test('the default consent policy unticks marketing and leaves the terms to the user', async ({ page, server, extension }) => {
+    await extension.seedVault({ values: { 'contact.email': 'ada@example.org' } });
+
+    await page.goto(server.urlFor('/consent'), { waitUntil: 'domcontentloaded' });
+    await waitForTestApi(page);
+    await waitForScan(page, 3);
+    await page.evaluate(() => window.__AIAutoFillTestAPI__?.applyAll?.() ?? 0);
+
+    await expect(page.locator('#email')).toHaveValue('ada@example.org');
+    await expect(page.locator('#newsletter')).not.toBeChecked();
+    await expect(page.locator('#terms')).not.toBeChecked();
+  });
+
+  test('writes a multi-line message into a rich-text editor as paragraphs', async ({ page, server, extension }) => {
+    await extension.seedVault({ values: { 'contact.email': 'ada@example.org', 'message.body': 'Hello\nSecond line' } });
+
+    await page.goto(server.urlFor('/rich-text'), { waitUntil: 'domcontentloaded' });
+    await waitForTestApi(page);
+    await waitForScan(page, 2);
+    await page.evaluate(() => window.__AIAutoFillTestAPI__?.applyAll?.() ?? 0);
+
+    await expect(page.locator('.ql-editor p')).toHaveText(['Hello', 'Second line']);
+    await expect(page.locator('#email')).toHaveValue('ada@example.org');
+  });
+
+  test('undo empties the filled fields and redo fills them again', async ({ page, server, extension }) => {
+    await extension.seedVault({ values: { 'identity.firstName': 'Ada', 'identity.lastName': 'Lovelace' } });
+
+    await page.goto(server.urlFor('/profile'), { waitUntil: 'domcontentloaded' });
+    await waitForTestApi(page);
+    await waitForScan(page, 2);
+    await page.evaluate(() => window.__AIAutoFillTestAPI__?.applyAll?.() ?? 0);
+    await expect(page.locator('#first-name')).toHaveValue('Ada');
+    await expect(page.locator('#last-name')).toHaveValue('Lovelace');
+
+    expect(await page.evaluate(() => window.__AIAutoFillTestAPI__?.undo?.() ?? null)).toBe('Apply all');
+    await expect(page.locator('#first-name')).toHaveValue('');
+    await expect(page.locator('#last-name')).toHaveValue('');
+    const history = await page.evaluate(() => window.__AIAutoFillTestAPI__?.getFillHistory?.() ?? []);
+    expect(history.map((step) => step.undone)).toEqual([true]);
+
+    expect(await page.evaluate(() => window.__AIAutoFillTestAPI__?.redo?.() ?? null)).toBe('Apply all');
+    await expect(page.locator('#first-name')).toHaveValue('Ada');
+    await expect(page.locator('#last-name')).toHaveValue('Lovelace');
+  });
+
+  test('a fill plan writes nothing until it is committed, and skips fields the user filled', async ({ page, server, extension }) => {
+    await extension.seedVault({ values: { 'identity.fullName': 'Ada Lovelace', 'contact.email': 'ada@example.org' } });
+
+    await page.goto(server.urlFor('/fill-plan'), { waitUntil: 'domcontentloaded' });
+    await waitForTestApi(page);
+    await waitForScan(page, 2);
+
+    const rows = await page.evaluate(() => window.__AIAutoFillTestAPI__?.planFill?.() ?? []);
+    expect(rows.find((row) => row.key === 'identity.fullName')).toMatchObject({ current: 'Charles Babbage', skip: 'non-empty' });
+    expect(rows.find((row) => row.key === 'contact.email')).toMatchObject({ current: '', proposed: 'ada@example.org', skip: null });
+    await expect(page.locator('#email')).toHaveValue('');
+
+    const commit = await page.evaluate(() => window.__AIAutoFillTestAPI__?.applyPlan?.() ?? null);
+    expect(commit).toMatchObject({ failed: [], stale: [], cancelled: false, rolledBack: false });
+    expect(commit?.filled).toHaveLength(1);
+    await expect(page.locator('#email')).toHaveValue('ada@example.org');
+    await expect(page.locator('#full-name')).toHaveValue('Charles Babbage');
+  });
+
+  test('fills a field of a cross-origin frame through its frame agent', async ({ page, server, extension }) => {
+    await extension.seedVault({ values: { 'identity.fullName': 'Ada Lovelace', 'contact.email': 'ada@example.org' } });
+
+    await page.goto(server.urlFor('/frame-host'), { waitUntil: 'domcontentloaded' });
+    await waitForTestApi(page);
+    // the frame's scan arrives through the worker, after the page's own
+    await expect
+      .poll(() => page.evaluate(() => window.__AIAutoFillTestAPI__?.getTopMatches?.()['contact.email']?.candidateId ?? ''))
+      .toMatch(/^frame-\d+::/);
+    await page.evaluate(() => window.__AIAutoFillTestAPI__?.applyAll?.() ?? 0);
+
+    await expect(page.locator('#full-name')).toHaveValue('Ada Lovelace');
+    const frameEmail = page.frameLocator('#embedded').locator('#email');
+    await expect(frameEmail).toHaveValue('ada@example.org');
+    await expect(frameEmail).toHaveClass(/\baiaf-highlight-filled\b/);
+    const statuses = await page.evaluate(() => window.__AIAutoFillTestAPI__?.getCandidateStatuses?.() ?? []);
+    expect(statuses.find((s) => s.key === 'contact.email')).toMatchObject({ applied: true, verification: 'verified' });
+  });
+
+  test('fills an input inside a closed shadow root', async ({ page, server, extension }) => {
+    await extension.seedVault({ values: { 'contact.phone': '+1 415-555-2671' } });
+
+    await page.goto(server.urlFor('/closed-shadow'), { waitUntil: 'domcontentloaded' });
+    await waitForTestApi(page);
+    await waitForScan(page, 1);
+    await page.evaluate(() => window.__AIAutoFillTestAPI__?.applyAll?.() ?? 0);
+
+    const readBack = () =>
+      page.evaluate(() => (window as unknown as { contactCardRoot: ShadowRoot }).contactCardRoot.querySelector('input')?.value ?? null);
+    await expect.poll(readBack).toBe('+1 415-555-2671');
+  });
+
+  test('an incremental scan picks up a field added after load', async ({ page, server, extension }) => {
+    await extension.seedVault({ values: { 'contact.email': 'ada@example.org', 'organization.name': 'Analytical Engines Ltd' } });
+
+    await page.goto(server.urlFor('/incremental'), { waitUntil: 'domcontentloaded' });
+    await waitForTestApi(page);
+    await waitForScan(page, 1);
+    const before = await page.evaluate(() => window.__AIAutoFillTestAPI__?.getScanMetrics?.() ?? null);
+
+    await page.click('#add-company');
+    await expect
+      .poll(() => page.evaluate(() => window.__AIAutoFillTestAPI__?.getScanMetrics?.() ?? null))
+      .toMatchObject({ incremental: true, candidateCount: (before?.candidateCount ?? 0) + 1 });
+    await page.evaluate(() => window.__AIAutoFillTestAPI__?.applyAll?.() ?? 0);
+
+    await expect(page.locator('#email')).toHaveValue('ada@example.org');
+    await expect(page.locator('#company')).toHaveValue('Analytical Engines Ltd');
+  });
+
+  test('a field revealed after the fill is offered and filled on request', async ({ page, server, extension }) => {
+    await extension.seedVault({ values: { 'contact.email': 'ada@example.org', 'address.city': 'London' } });
+
+    await page.goto(server.urlFor('/reveal'), { waitUntil: 'domcontentloaded' });
+    await waitForTestApi(page);
+    await waitForScan(page, 1);
+    await page.evaluate(() => window.__AIAutoFillTestAPI__?.applyAll?.() ?? 0);
+    await expect(page.locator('#email')).toHaveValue('ada@example.org');
+
+    await page.click('#show-billing');
+    await expect
+      .poll(() => page.evaluate(() => window.__AIAutoFillTestAPI__?.getRevealedFills?.().map((row) => row.proposed) ?? []))
+      .toEqual(['London']);
+    // offered, not written
+    await expect(page.locator('#billing-city')).toHaveValue('');
+
+    const commit = await page.evaluate(() => window.__AIAutoFillTestAPI__?.fillRevealedFields?.() ?? null);
+    expect(commit?.filled).toHaveLength(1);
+    await expect(page.locator('#billing-city')).toHaveValue('London');
+  });
+});
@@ -1,18 +1,59 @@
-import { test as base, chromium } from '@playwright/test';
+import { test as base, chromium, type BrowserContext, type Page } from '@playwright/test';
 import fs from 'node:fs';
 import os from 'node:os';
 import path from 'node:path';
+import type {
+  AttachmentListResult,
+  AttachmentSavePayload,
+  RuntimeMessage,
+  RuntimeResponse,
+  TemplateListResult
+} from '../../../src/core/messages';
 import { FixtureServer } from './server';
 import { ROUTE_MAP } from './forms';
+import { FEATURE_ROUTES } from './features';
 
 const EXTENSION_DIST_PATH = path.resolve(__dirname, '../../..', 'dist');
+const VAULT_PASSPHRASE = 'playwright-passphrase';
 
-export const test = base.extend<{
-  server: FixtureServer;
-}>({
+export interface VaultSeed {
+  values: Record<string, string>;
+  attachments?: AttachmentSavePayload[];
+}
+
+// Talks to the background worker the way the options page does
+export interface ExtensionHandle {
+  id: string;
+  send<T = unknown>(message: RuntimeMessage): Promise<RuntimeResponse<T>>;
+  // Unlocks the vault and stores one template (and its attachments); content scripts read
+  // templates when a page loads, so pages opened afterwards fill from it
+  seedVault(seed: VaultSeed): Promise<void>;
+}
+
+// The options page is an extension page, so chrome.runtime.sendMessage reaches the worker from it
+async function sendFrom<T>(page: Page, message: RuntimeMessage): Promise<RuntimeResponse<T>> {
+  return page.evaluate((msg) => chrome.runtime.sendMessage(msg), message) as Promise<RuntimeResponse<T>>;
+}
+
+function expectSuccess<T>(response: RuntimeResponse<T>, what: string): T | undefined {
+  if (!response.success) throw new Error(`${what} failed: ${response.error ?? 'unknown error'}`);
+  return response.data;
+}
+
+export const test = base.extend<
+  {
+    extension: ExtensionHandle;
+  },
+  {
+    server: FixtureServer;
+    extensionContext: BrowserContext;
+    extensionId: string;
+  }
+>({
   server: [
-    async (_opts, use) => {
-      const server = new FixtureServer(ROUTE_MAP);
+    // eslint-disable-next-line no-empty-pattern
+    async ({}, use) => {
+      const server = new FixtureServer({ ...ROUTE_MAP, ...FEATURE_ROUTES });
       await server.start();
       try {
         await use(server);
@@ -22,8 +63,10 @@ export const test = base.extend<{
     },
     { scope: 'worker' }
   ],
-  context: [
-    async (_opts, use) => {
+  // One browser per worker; `context` (a test fixture in Playwright) hands it to each test
+  extensionContext: [
+    // eslint-disable-next-line no-empty-pattern
+    async ({}, use) => {
       if (!fs.existsSync(EXTENSION_DIST_PATH)) {
         throw new Error(`Extension build not found at ${EXTENSION_DIST_PATH}. Run npm run build before tests.`);
       }
@@ -62,6 +105,55 @@ export const test = base.extend<{
     },
     { scope: 'worker' }
   ],
+  extensionId: [
+    async ({ extensionContext }, use) => {
+      const [worker] = extensionContext.serviceWorkers();
+      const serviceWorker = worker ?? (await extensionContext.waitForEvent('serviceworker'));
+      await use(new URL(serviceWorker.url()).host);
+    },
+    { scope: 'worker' }
+  ],
+  context: async ({ extensionContext }, use) => {
+    await use(extensionContext);
+  },
+  extension: async ({ extensionContext, extensionId }, use) => {
+    const optionsPage = await extensionContext.newPage();
+    await optionsPage.goto(`chrome-extension://${extensionId}/src/options/index.html`);
+    let seeded = false;
+    const handle: ExtensionHandle = {
+      id: extensionId,
+      send: (message) => sendFrom(optionsPage, message),
+      async seedVault(seed) {
+        seeded = true;
+        expectSuccess(await handle.send({ type: 'UNLOCK', passphrase: VAULT_PASSPHRASE }), 'Unlock');
+        for (const payload of seed.attachments ?? []) {
+          expectSuccess(await handle.send({ type: 'ATTACHMENT_SAVE', payload }), `Saving ${payload.filename}`);
+        }
+        const fields = Object.entries(seed.values).map(([key, value]) => ({ key, value }));
+        expectSuccess(
+          await handle.send({ type: 'TEMPLATE_SAVE', payload: { label: 'Playwright', fields } }),
+          'Saving the template'
+        );
+      }
+    };
+    try {
+      await use(handle);
+    } finally {
+      // The browser is shared by the worker's tests: later ones expect the default values
+      if (seeded) {
+        const templates = await handle.send<TemplateListResult>({ type: 'TEMPLATE_LIST' });
+        for (const template of templates.data?.templates ?? []) {
+          await handle.send({ type: 'TEMPLATE_DELETE', id: template.id });
+        }
+        const attachments = await handle.send<AttachmentListResult>({ type: 'ATTACHMENT_LIST' });
+        for (const attachment of attachments.data?.attachments ?? []) {
+          await handle.send({ type: 'ATTACHMENT_DELETE', id: attachment.id });
+        }
+        await handle.send({ type: 'LOCK' });
+      }
+      await optionsPage.close();
+    }
+  },
   page: async ({ context }, use) => {
     const page = await context.newPage();
     await use(page);
@@ -0,0 +1,550 @@
+// Pages for the feature specs (features.spec.ts); each exercises one fill path end to end
+
+const jobApplicationHtml = String.raw`
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>Job application</title>
+</head>
+<body>
+  <main>
+    <h1>Apply for this role</h1>
+    <form id="job-application">
+      <label for="applicant-email">Email</label>
+      <input id="applicant-email" name="email" type="email" />
+      <label for="resume">Resume/CV</label>
+      <input id="resume" name="resume" type="file" accept=".pdf" />
+      <button type="submit">Submit application</button>
+    </form>
+  </main>
+</body>
+</html>
+`;
+
+// A react-select look-alike: classNamePrefix "react-select", menu opened on mousedown, an option
+// committed on click, Backspace in the empty input removing the value
+const reactSelectHtml = String.raw`
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>Shipping country</title>
+  <style>
+    .react-select__control { display: flex; border: 1px solid #ccc; padding: 4px; width: 280px; }
+    .react-select__option { padding: 4px; cursor: pointer; }
+  </style>
+</head>
+<body>
+  <form id="shipping">
+    <label for="react-select-country-input">Country</label>
+    <div class="react-select-container" id="country">
+      <div class="react-select__control">
+        <div class="react-select__value-container"></div>
+        <input id="react-select-country-input" role="combobox" aria-expanded="false" aria-autocomplete="list" autocomplete="off" />
+      </div>
+    </div>
+  </form>
+  <script>
+    const COUNTRIES = ['Canada', 'France', 'Mexico', 'Spain'];
+    const root = document.getElementById('country');
+    const control = root.querySelector('.react-select__control');
+    const values = root.querySelector('.react-select__value-container');
+    const input = root.querySelector('input');
+    let selected = 'Mexico';
+
+    function render() {
+      values.innerHTML = selected
+        ? '<div class="react-select__single-value"></div>'
+        : '<div class="react-select__placeholder">Select...</div>';
+      if (selected) values.firstChild.textContent = selected;
+    }
+    function closeMenu() {
+      root.querySelector('.react-select__menu')?.remove();
+      input.setAttribute('aria-expanded', 'false');
+    }
+    function openMenu() {
+      closeMenu();
+      const menu = document.createElement('div');
+      menu.className = 'react-select__menu';
+      const list = document.createElement('div');
+      list.className = 'react-select__menu-list';
+      list.id = 'react-select-country-listbox';
+      list.setAttribute('role', 'listbox');
+      const query = input.value.toLowerCase();
+      for (const country of COUNTRIES.filter((c) => c.toLowerCase().includes(query))) {
+        const option = document.createElement('div');
+        option.className = 'react-select__option';
+        option.setAttribute('role', 'option');
+        option.setAttribute('aria-selected', String(country === selected));
+        option.textContent = country;
+        option.addEventListener('click', () => {
+          selected = country;
+          input.value = '';
+          render();
+          closeMenu();
+        });
+        list.appendChild(option);
+      }
+      menu.appendChild(list);
+      root.appendChild(menu);
+      input.setAttribute('aria-expanded', 'true');
+    }
+    control.addEventListener('mousedown', () => {
+      input.focus();
+      openMenu();
+    });
+    input.addEventListener('input', openMenu);
+    input.addEventListener('keydown', (event) => {
+      if (event.key === 'Backspace' && !input.value && selected) {
+        selected = null;
+        render();
+      }
+      if (event.key === 'Escape') closeMenu();
+    });
+    render();
+  </script>
+</body>
+</html>
+`;
+
+// A single-page application form over three history.pushState routes; each route replaces the form
+const wizardHtml = String.raw`
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>Apply in three steps</title>
+</head>
+<body>
+  <main id="app"></main>
+  <script>
+    const STEPS = {
+      '/wizard': '<label for="first-name">First name</label><input id="first-name" name="firstName" />'
+        + '<label for="last-name">Last name</label><input id="last-name" name="lastName" />',
+      '/wizard/contact': '<label for="email">Email</label><input id="email" name="email" type="email" />'
+        + '<label for="phone">Phone</label><input id="phone" name="phone" type="tel" />',
+      '/wizard/about': '<label for="about">Tell us about yourself</label><textarea id="about" name="message"></textarea>'
+    };
+    const ORDER = Object.keys(STEPS);
+    function render() {
+      const path = location.pathname;
+      const next = ORDER[ORDER.indexOf(path) + 1];
+      document.getElementById('app').innerHTML =
+        '<form id="step">' + STEPS[path] + (next ? '<button type="button" id="next">Next</button>' : '') + '</form>';
+      document.getElementById('next')?.addEventListener('click', () => {
+        history.pushState({}, '', next);
+        render();
+      });
+    }
+    window.addEventListener('popstate', render);
+    render();
+  </script>
+</body>
+</html>
+`;
+
+// A Lit-style form-associated element: the value lives in a page-world accessor, and the `value`
+// attribute is observed. Served from localhost, outside the extension's host permissions
+const customElementHtml = String.raw`
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>Newsletter</title>
+</head>
+<body>
+  <form id="newsletter">
+    <x-email-field name="email" label="Email"></x-email-field>
+    <button type="submit">Subscribe</button>
+  </form>
+  <script>
+    class EmailField extends HTMLElement {
+      static formAssociated = true;
+      static observedAttributes = ['value'];
+      constructor() {
+        super();
+        this.internals = this.attachInternals();
+        this.attachShadow({ mode: 'open' }).innerHTML = '<input type="email" />';
+        this._value = '';
+      }
+      get value() {
+        return this._value;
+      }
+      set value(next) {
+        this._value = String(next ?? '');
+        this.internals.setFormValue(this._value);
+        this.shadowRoot.querySelector('input').value = this._value;
+      }
+      attributeChangedCallback(_name, _previous, next) {
+        this.value = next;
+      }
+    }
+    customElements.define('x-email-field', EmailField);
+  </script>
+</body>
+</html>
+`;
+
+// A phone number over three inputs; only the codes say which part they take
+const splitPhoneHtml = String.raw`
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>Request a callback</title>
+</head>
+<body>
+  <form id="callback">
+    <label for="phone-cc">Country code</label>
+    <input id="phone-cc" name="phone_cc" type="tel" autocomplete="tel-country-code" />
+    <label for="phone-area">Area code</label>
+    <input id="phone-area" name="phone_area" type="tel" />
+    <label for="phone">Phone number</label>
+    <input id="phone" name="phone" type="tel" />
+    <button type="submit">Call me</button>
+  </form>
+</body>
+</html>
+`;
+
+// A phone mask in the style of Cleave / IMask: it reformats on every input event and counts keys
+const maskedPhoneHtml = String.raw`
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>Contact details</title>
+</head>
+<body>
+  <form id="contact">
+    <label for="phone">Phone</label>
+    <input id="phone" name="phone" type="tel" placeholder="(___) ___-____" data-keys="0" />
+  </form>
+  <script>
+    const phone = document.getElementById('phone');
+    phone.addEventListener('keydown', () => {
+      phone.dataset.keys = String(Number(phone.dataset.keys) + 1);
+    });
+    phone.addEventListener('input', () => {
+      let digits = phone.value.replace(/\D/g, '');
+      if (digits.length > 10 && digits[0] === '1') digits = digits.slice(1);
+      digits = digits.slice(0, 10);
+      phone.value =
+        (digits ? '(' + digits.slice(0, 3) : '') +
+        (digits.length > 3 ? ') ' + digits.slice(3, 6) : '') +
+        (digits.length > 6 ? '-' + digits.slice(6) : '');
+    });
+  </script>
+</body>
+</html>
+`;
+
+// Date of birth over day / month / year selects, months by name
+const splitDateHtml = String.raw`
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>Your profile</title>
+</head>
+<body>
+  <form id="profile">
+    <fieldset>
+      <legend>Date of birth</legend>
+      <label for="bday-day">Day</label>
+      <select id="bday-day" name="bday_day" autocomplete="bday-day"><option value="">Day</option></select>
+      <label for="bday-month">Month</label>
+      <select id="bday-month" name="bday_month" autocomplete="bday-month"><option value="">Month</option></select>
+      <label for="bday-year">Year</label>
+      <select id="bday-year" name="bday_year" autocomplete="bday-year"><option value="">Year</option></select>
+    </fieldset>
+  </form>
+  <script>
+    const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+    const add = (id, value, text) => document.getElementById(id).add(new Option(text, value));
+    for (let day = 1; day <= 31; day++) add('bday-day', String(day), String(day));
+    MONTHS.forEach((month, i) => add('bday-month', String(i + 1), month));
+    for (let year = 2010; year >= 1930; year--) add('bday-year', String(year), String(year));
+  </script>
+</body>
+</html>
+`;
+
+// A controlled input that puts its old value back, and an email field its validator rejects
+const verificationHtml = String.raw`
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>Create your account</title>
+</head>
+<body>
+  <form id="account">
+    <label for="first-name">First name</label>
+    <input id="first-name" name="firstName" />
+    <label for="work-email">Email</label>
+    <input id="work-email" name="email" type="email" aria-errormessage="work-email-error" />
+    <p id="work-email-error" role="alert" hidden>Use your work email address</p>
+  </form>
+  <script>
+    const firstName = document.getElementById('first-name');
+    // the component's state never took the value: the next render writes the old one back
+    firstName.addEventListener('input', () => setTimeout(() => { firstName.value = ''; }, 0));
+    const email = document.getElementById('work-email');
+    const error = document.getElementById('work-email-error');
+    email.addEventListener('input', () => {
+      const bad = email.value !== '' && !email.value.endsWith('@example.com');
+      email.setAttribute('aria-invalid', String(bad));
+      error.hidden = !bad;
+    });
+  </script>
+</body>
+</html>
+`;
+
+// Radio groups whose questions name no key; their options spell the choices
+const radioGroupsHtml = String.raw`
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>Quick survey</title>
+</head>
+<body>
+  <form id="survey">
+    <fieldset>
+      <legend>Question 1</legend>
+      <input type="radio" id="q1-m" name="q1" value="M" /><label for="q1-m">Male</label>
+      <input type="radio" id="q1-f" name="q1" value="F" /><label for="q1-f">Female</label>
+      <input type="radio" id="q1-x" name="q1" value="X" /><label for="q1-x">Other</label>
+    </fieldset>
+    <fieldset>
+      <legend>How should we reach you?</legend>
+      <input type="radio" id="q2-email" name="q2" value="1" /><label for="q2-email">Email</label>
+      <input type="radio" id="q2-phone" name="q2" value="2" /><label for="q2-phone">Phone</label>
+    </fieldset>
+  </form>
+</body>
+</html>
+`;
+
+// A pre-ticked marketing box (unticked by the default policy) and terms the fill leaves alone
+const consentHtml = String.raw`
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>Sign up</title>
+</head>
+<body>
+  <form id="signup">
+    <label for="email">Email</label>
+    <input id="email" name="email" type="email" />
+    <input type="checkbox" id="newsletter" name="newsletter" checked />
+    <label for="newsletter">Send me the newsletter</label>
+    <input type="checkbox" id="terms" name="terms" />
+    <label for="terms">I agree to the <a href="/terms">Terms of Service</a></label>
+    <button type="submit">Sign up</button>
+  </form>
+</body>
+</html>
+`;
+
+// Quill markup; the page ignores paste, so the editor takes the DOM write
+const richTextHtml = String.raw`
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>Contact support</title>
+</head>
+<body>
+  <form id="support">
+    <label for="email">Email</label>
+    <input id="email" name="email" type="email" />
+    <span id="message-label">Message</span>
+    <div class="ql-container ql-snow">
+      <div class="ql-editor ql-blank" contenteditable="true" role="textbox" aria-multiline="true" aria-labelledby="message-label"><p><br></p></div>
+    </div>
+  </form>
+</body>
+</html>
+`;
+
+const profileHtml = String.raw`
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>Your profile</title>
+</head>
+<body>
+  <form id="profile">
+    <label for="first-name">First name</label>
+    <input id="first-name" name="firstName" autocomplete="given-name" />
+    <label for="last-name">Last name</label>
+    <input id="last-name" name="lastName" autocomplete="family-name" />
+  </form>
+</body>
+</html>
+`;
+
+// One field the user already filled, one empty
+const fillPlanHtml = String.raw`
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>Book a demo</title>
+</head>
+<body>
+  <form id="demo">
+    <label for="full-name">Full name</label>
+    <input id="full-name" name="name" autocomplete="name" value="Charles Babbage" />
+    <label for="email">Email</label>
+    <input id="email" name="email" type="email" autocomplete="email" />
+  </form>
+</body>
+</html>
+`;
+
+// The top page holds the name; the email lives in a frame of another origin (localhost instead
+// of 127.0.0.1, same server)
+const frameHostHtml = String.raw`
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>Newsletter</title>
+</head>
+<body>
+  <form id="host">
+    <label for="full-name">Full name</label>
+    <input id="full-name" name="name" autocomplete="name" />
+  </form>
+  <iframe id="embedded" title="Subscribe" width="400" height="200"></iframe>
+  <script>
+    document.getElementById('embedded').src = 'http://localhost:' + location.port + '/frame-form';
+  </script>
+</body>
+</html>
+`;
+
+const frameFormHtml = String.raw`
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>Subscribe</title>
+</head>
+<body>
+  <form id="subscribe">
+    <label for="email">Email</label>
+    <input id="email" name="email" type="email" autocomplete="email" />
+  </form>
+</body>
+</html>
+`;
+
+// A plain input inside a closed shadow root; the page keeps the root to read the field back
+const closedShadowHtml = String.raw`
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>Contact card</title>
+</head>
+<body>
+  <form id="card">
+    <contact-card></contact-card>
+  </form>
+  <script>
+    customElements.define(
+      'contact-card',
+      class extends HTMLElement {
+        constructor() {
+          super();
+          const root = this.attachShadow({ mode: 'closed' });
+          root.innerHTML = '<label for="phone">Phone</label><input id="phone" name="phone" type="tel" />';
+          window.contactCardRoot = root;
+        }
+      }
+    );
+  </script>
+</body>
+</html>
+`;
+
+// A field added after load, as an "Add company" button would
+const incrementalHtml = String.raw`
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>Register</title>
+</head>
+<body>
+  <form id="register">
+    <label for="email">Email</label>
+    <input id="email" name="email" type="email" />
+    <div id="extra"></div>
+    <button type="button" id="add-company">Add company</button>
+  </form>
+  <script>
+    document.getElementById('add-company').addEventListener('click', () => {
+      document.getElementById('extra').innerHTML =
+        '<label for="company">Company</label><input id="company" name="company" autocomplete="organization" />';
+    });
+  </script>
+</body>
+</html>
+`;
+
+// A billing section shown only after the first fill, like a collapsed accordion
+const revealHtml = String.raw`
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>Checkout</title>
+</head>
+<body>
+  <form id="checkout">
+    <label for="email">Email</label>
+    <input id="email" name="email" type="email" autocomplete="email" />
+    <button type="button" id="show-billing">Add a billing address</button>
+    <div id="billing" hidden>
+      <label for="billing-city">City</label>
+      <input id="billing-city" name="billing_city" autocomplete="billing address-level2" />
+    </div>
+  </form>
+  <script>
+    document.getElementById('show-billing').addEventListener('click', () => {
+      document.getElementById('billing').hidden = false;
+    });
+  </script>
+</body>
+</html>
+`;
+
+export const FEATURE_ROUTES: Record<string, string> = {
+  '/job-application': jobApplicationHtml,
+  '/react-select': reactSelectHtml,
+  '/wizard': wizardHtml,
+  '/custom-element': customElementHtml,
+  '/split-phone': splitPhoneHtml,
+  '/masked-phone': maskedPhoneHtml,
+  '/split-date': splitDateHtml,
+  '/verification': verificationHtml,
+  '/radio-groups': radioGroupsHtml,
+  '/consent': consentHtml,
+  '/rich-text': richTextHtml,
+  '/profile': profileHtml,
+  '/fill-plan': fillPlanHtml,
+  '/frame-host': frameHostHtml,
+  '/frame-form': frameFormHtml,
+  '/closed-shadow': closedShadowHtml,
+  '/incremental': incrementalHtml,
+  '/reveal': revealHtml
+};
@@ -1,11 +1,11 @@
 export const DEFAULT_EXPECTED_VALUES = {
-  email: 'ada@example.org',
-  phone: '+1 415-555-2671',
-  name: 'Ada Lovelace',
-  'given-name': 'Ada',
-  'family-name': 'Lovelace',
-  organization: 'Analytical Engines Inc.',
-  'website-url': 'https://example.org',
+  'contact.email': 'ada@example.org',
+  'contact.phone': '+1 415-555-2671',
+  'identity.fullName': 'Ada Lovelace',
+  'identity.firstName': 'Ada',
+  'identity.lastName': 'Lovelace',
+  'organization.name': 'Analytical Engines Inc.',
+  'webPresence.websiteUrl': 'https://example.org',
   'message.body': "Hello! I'm interested in your product. Could you share more details?"
 } as const;
 
@@ -368,10 +368,10 @@ export const FORM_FIXTURES: FormFixture[] = [
     path: '/sample-contact',
     html: sampleContactHtml,
     fields: {
-      'given-name': '#firstName',
-      'family-name': '#lastName',
-      email: '#emailAddress',
-      phone: '#phoneNumber',
+      'identity.firstName': '#firstName',
+      'identity.lastName': '#lastName',
+      'contact.email': '#emailAddress',
+      'contact.phone': '#phoneNumber',
       'message.body': '#message'
     },
     minCandidateCount: 4
@@ -381,10 +381,10 @@ export const FORM_FIXTURES: FormFixture[] = [
     path: '/react-demo',
     html: reactDemoHtml,
     fields: {
-      'given-name': '#react-first-name',
-      'family-name': '#react-last-name',
-      email: '#react-email',
-      organization: '#react-company'
+      'identity.firstName': '#react-first-name',
+      'identity.lastName': '#react-last-name',
+      'contact.email': '#react-email',
+      'organization.name': '#react-company'
     },
     minCandidateCount: 4
   },
@@ -393,9 +393,9 @@ export const FORM_FIXTURES: FormFixture[] = [
     path: '/vue-demo',
     html: vueDemoHtml,
     fields: {
-      name: '#vue-full-name',
-      phone: '#vue-phone',
-      'website-url': '#vue-website',
+      'identity.fullName': '#vue-full-name',
+      'contact.phone': '#vue-phone',
+      'webPresence.websiteUrl': '#vue-website',
       'message.body': '#vue-message'
     },
     minCandidateCount: 4
@@ -405,9 +405,9 @@ export const FORM_FIXTURES: FormFixture[] = [
     path: '/angular-demo',
     html: angularDemoHtml,
     fields: {
-      'given-name': '#ng-first-name',
-      email: '#ng-email',
-      'website-url': '#ng-website'
+      'identity.firstName': '#ng-first-name',
+      'contact.email': '#ng-email',
+      'webPresence.websiteUrl': '#ng-website'
     },
     minCandidateCount: 3
   },
@@ -416,9 +416,9 @@ export const FORM_FIXTURES: FormFixture[] = [
     path: '/legacy-support',
     html: legacyFormHtml,
     fields: {
-      name: '#legacy-name',
-      email: '#legacy-email',
-      organization: '#legacy-company',
+      'identity.fullName': '#legacy-name',
+      'contact.email': '#legacy-email',
+      'organization.name': '#legacy-company',
       'message.body': '#legacy-message'
     },
     minCandidateCount: 4
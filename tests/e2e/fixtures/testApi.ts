@@ -0,0 +1,62 @@
+import type { Page } from '@playwright/test';
+import type { WizardSession } from '../../../src/core/messages';
+
+export interface PlanCommitSummary {
+  filled: string[];
+  failed: string[];
+  stale: string[];
+  cancelled: boolean;
+  rolledBack: boolean;
+}
+
+// Shape of `window.__AIAutoFillTestAPI__`, exposed by the content script (src/content/index.ts)
+export interface AIAutoFillTestAPI {
+  applyAll: () => Promise<number>;
+  undoAll: () => Promise<number>;
+  planFill: () => Array<{ id: string; key: string | null; current: string; proposed: string | null; skip: string | null }>;
+  undo: () => Promise<string | null>;
+  redo: () => Promise<string | null>;
+  applyPlan: () => Promise<PlanCommitSummary | null>;
+  getFillHistory: () => Array<{ label: string; fields: string[]; undone: boolean }>;
+  getWizardSession: () => WizardSession | null;
+  getCompletedWizard: () => WizardSession | null;
+  startWizard: (profileId: string) => Promise<WizardSession | null>;
+  rescan: () => boolean;
+  getScanMetrics: () => { scannedAt: number; candidateCount: number; durationMs: number; incremental: boolean } | null;
+  getTopMatches: () => Record<string, { candidateId: string; tier: string; score: number; label: string | null; path: string }>;
+  getCandidateStatuses: () => Array<{
+    id: string;
+    key: string | null;
+    status: string | null;
+    applied: boolean;
+    highlight: string | null;
+    verification: string | null;
+  }>;
+  getMainWorldBridge: () => { requested: boolean; installed: boolean; refusal: string | null };
+  getRevealedFills: () => Array<{ id: string; proposed: string }>;
+  fillRevealedFields: () => Promise<PlanCommitSummary | null>;
+  exportCorpusEntry: (id?: string) => string;
+}
+
+declare global {
+  interface Window {
+    __AIAutoFillTestAPI__?: AIAutoFillTestAPI;
+  }
+}
+
+export async function waitForTestApi(page: Page): Promise<void> {
+  await page.waitForFunction(() => Boolean(window.__AIAutoFillTestAPI__), { timeout: 10_000 });
+}
+
+export async function waitForScan(page: Page, minCandidateCount: number): Promise<void> {
+  await page.waitForFunction(
+    (min) => {
+      const api = window.__AIAutoFillTestAPI__;
+      if (!api?.getScanMetrics) return false;
+      const metrics = api.getScanMetrics();
+      return !!metrics && metrics.candidateCount >= min;
+    },
+    minCandidateCount,
+    { timeout: 10_000 }
+  );
+}
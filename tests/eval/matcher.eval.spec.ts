@@ -0,0 +1,44 @@
+import { test, expect } from '@playwright/test';
+import fs from 'node:fs';
+import path from 'node:path';
+import {
+  compareReports,
+  evaluateCorpus,
+  formatReport,
+  parseCorpusEntry,
+  toBaseline,
+  type EvaluationBaseline
+} from '../../src/lib/evaluation';
+
+const CORPUS_DIR = path.join(__dirname, 'corpus');
+const BASELINE_PATH = path.join(__dirname, 'baseline.json');
+
+function loadCorpus() {
+  return fs
+    .readdirSync(CORPUS_DIR)
+    .filter((file) => file.endsWith('.json'))
+    .sort()
+    .map((file) => {
+      const raw = JSON.parse(fs.readFileSync(path.join(CORPUS_DIR, file), 'utf8')) as unknown;
+      return parseCorpusEntry(raw);
+    });
+}
+
+test('matcher corpus has no regressions against the baseline', () => {
+  const report = evaluateCorpus(loadCorpus());
+
+  if (process.env.UPDATE_EVAL_BASELINE) {
+    fs.writeFileSync(BASELINE_PATH, `${JSON.stringify(toBaseline(report), null, 2)}\n`);
+    console.log(formatReport(report));
+    return;
+  }
+
+  const baseline = fs.existsSync(BASELINE_PATH)
+    ? (JSON.parse(fs.readFileSync(BASELINE_PATH, 'utf8')) as EvaluationBaseline)
+    : null;
+  const regressions = baseline ? compareReports(baseline, toBaseline(report)) : [];
+  console.log(formatReport(report, regressions));
+  expect(regressions).toEqual([]);
+  expect(report.misses.filter((m) => !m.expected)).toEqual([]);
+  expect(report.expectationFailures).toEqual([]);
+});
@@ -0,0 +1,62 @@
+import { test, expect } from '@playwright/test';
+import fs from 'node:fs';
+import path from 'node:path';
+import { get } from 'svelte/store';
+import { parseCorpusEntry } from '../../src/lib/evaluation';
+import { computeBatchMatches } from '../../src/lib/fieldMatcher';
+import { DEFAULT_MATCHER_CONFIG } from '../../src/lib/ontology';
+import { ONTOLOGY_REGISTRY, toOntologyKey } from '../../src/lib/ontologyRegistry';
+import { rerankWithSemantics } from '../../src/lib/semantic';
+import { batch, recomputeBatch, setKeys, updateScan } from '../../src/content/ui/state';
+
+function loadEntry(file: string) {
+  return parseCorpusEntry(JSON.parse(fs.readFileSync(path.join(__dirname, 'corpus', file), 'utf8')) as unknown);
+}
+
+function defaultKeys() {
+  return ONTOLOGY_REGISTRY.filter((e) => !e.scopeOf).map(toOntologyKey);
+}
+
+// Semantic reranking through the content state, with the on-device provider: no network
+test('the local semantic provider reranks the batch', async () => {
+  const entry = loadEntry('address-de.json');
+  const keys = defaultKeys();
+  const semantic = { enabled: true, provider: 'local' as const, weight: 0.6 };
+
+  setKeys(keys.map((key) => ({ key })), { semantic });
+  updateScan({ version: 1, candidates: entry.candidates, formGroups: [], scannedAt: 0, durationMs: 0 }, { semantic });
+  await recomputeBatch({ semantic });
+
+  const results = Object.values(get(batch)?.byKey ?? {}).flat();
+  expect(results.length).toBeGreaterThan(0);
+  const semanticScores = results.flatMap((r) => r.explanation.contributions.filter((c) => c.id === 'semantic'));
+  expect(semanticScores.length).toBeGreaterThan(0);
+});
+
+test('semantic reranking keeps the confirmation pairs of the batch', async () => {
+  const entry = loadEntry('signup-confirm.json');
+  const config = { ...DEFAULT_MATCHER_CONFIG, semantic: { enabled: true, provider: 'local' as const } };
+  const base = computeBatchMatches(defaultKeys(), entry.candidates, config);
+  expect(base.confirmationPairs?.length).toBeGreaterThan(0);
+
+  const reranked = await rerankWithSemantics(base, defaultKeys(), entry.candidates, config);
+  expect(reranked.confirmationPairs).toEqual(base.confirmationPairs);
+});
+
+test('semantic reranking keeps text inputs rejected for file keys', async () => {
+  const [field] = loadEntry('address-de.json').candidates;
+  const textField = {
+    ...field,
+    id: '||#attachments||input:attachments',
+    attributes: { ...field.attributes, id: 'attachments', name: 'attachments' },
+    accessibleName: { value: 'Attachments', sources: ['label[for]'] }
+  };
+  const keys = defaultKeys().filter((k) => k.key === 'message.attachments');
+  const config = { ...DEFAULT_MATCHER_CONFIG, semantic: { enabled: true, provider: 'local' as const, weight: 1 } };
+  const base = computeBatchMatches(keys, [textField], config);
+
+  const reranked = await rerankWithSemantics(base, keys, [textField], config);
+  const [result] = reranked.byKey['message.attachments'];
+  expect(result.explanation.contributions.some((c) => c.id === 'semantic')).toBe(true);
+  expect(result.tier).toBe('reject');
+});